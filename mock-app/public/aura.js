@@ -0,0 +1,44 @@
+/**
+ * Aura transport of the mock app
+ * POST /aura?r=<n>&<action>=1 with `message={"actions":[...]}` as form data, like Lightning, so
+ * lightningIdleHelper waits for it and pageDiagnostics records its action descriptor.
+ * Resolves with the action's returnValue, rejects with `error.messages` when the server answers ERROR.
+ */
+window.MockAura = (function () {
+  'use strict';
+
+  let requestCount = 0;
+
+  function call(descriptor, params) {
+    requestCount += 1;
+    const body = new URLSearchParams({
+      message: JSON.stringify({ actions: [{ id: `${requestCount};a`, descriptor, callingDescriptor: 'UNKNOWN', params: params || {} }] }),
+      'aura.context': JSON.stringify({ mode: 'PROD', app: 'one:one' }),
+    });
+    const actionName = descriptor.split('$').pop();
+
+    return fetch(`/aura?r=${requestCount}&${encodeURIComponent(actionName)}=1`, { method: 'POST', body })
+      .then(response => {
+        if (!response.ok) throw new Error(`Aura request failed: HTTP ${response.status}`);
+        return response.json();
+      })
+      .then(result => {
+        const action = result.actions[0];
+        if (action.state === 'SUCCESS') return action.returnValue;
+        const error = new Error(action.error.map(e => e.message).join('\n'));
+        error.messages = action.error.map(e => e.message);
+        throw error;
+      });
+  }
+
+  return {
+    call,
+    LIST: 'aura://ListUiController/ACTION$getListUi',
+    CREATE: 'aura://RecordUiController/ACTION$createRecord',
+    UPDATE: 'aura://RecordUiController/ACTION$updateRecord',
+    DELETE: 'aura://RecordUiController/ACTION$deleteRecord',
+    UNDELETE: 'aura://RecordUiController/ACTION$undeleteRecord',
+    LOOKUP: 'aura://LookupController/ACTION$lookup',
+    IMPORT: 'aura://DataImporterController/ACTION$startImport',
+  };
+})();
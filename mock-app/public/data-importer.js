@@ -0,0 +1,160 @@
+/**
+ * Classic Data Import Wizard of the mock app (rendered in the one.app iframe, like the org)
+ * Step 1: object → action → CSV file + character code, step 2: field mapping of the CSV header row
+ * (unknown headers are "Unmapped"), step 3: review and start the import.
+ */
+(function () {
+  'use strict';
+
+  /** CSV header (case-insensitive) → field label, per object */
+  const FIELD_MAPPINGS = {
+    MANAERP__Event_Master__c: {
+      'event master name': 'Event Master Name',
+      'event type': 'Event Type',
+      'send to': 'Send To',
+      'who can reserve': 'Who Can Reserve',
+      'reminders': 'Reminders',
+      'max event per student': 'Max Event Per Student',
+      'description': 'Description',
+    },
+    MANAERP__Lesson_Master__c: {
+      'lesson master name': 'Lesson Master Name',
+      'description': 'Description',
+    },
+  };
+
+  const STEPS = ['step-choose', 'step-map', 'step-review'];
+  const wizard = { step: 0, entity: null, entityLabel: '', action: null, source: null, headers: [], rowCount: 0 };
+
+  const fileInput = document.getElementById('file');
+  const charset = document.getElementById('charset');
+  const error = document.getElementById('wizard-error');
+
+  function esc(value) {
+    return String(value ?? '').replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]));
+  }
+
+  function showStep(step) {
+    wizard.step = step;
+    STEPS.forEach((id, i) => (document.getElementById(id).hidden = i !== step));
+    error.hidden = true;
+  }
+
+  function showError(message) {
+    error.textContent = message;
+    error.hidden = false;
+  }
+
+  function select(group, link) {
+    group.querySelectorAll('.lv-link, .stdcolor').forEach(item => item.classList.toggle('selected', item === link));
+  }
+
+  /** Split one CSV line (quoted values may contain commas) */
+  function parseCsvLine(line) {
+    const values = [];
+    let current = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+      const c = line[i];
+      if (c === '"' && quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = !quoted;
+      } else if (c === ',' && !quoted) {
+        values.push(current.trim());
+        current = '';
+      } else {
+        current += c;
+      }
+    }
+    values.push(current.trim());
+    return values;
+  }
+
+  /** Header row and number of records (newlines inside quoted values do not start a record) */
+  function parseCsv(text) {
+    const lines = [];
+    let current = '';
+    let quoted = false;
+    for (const c of text.replace(/^\uFEFF/, '')) {
+      if (c === '"') quoted = !quoted;
+      if ((c === '\n' || c === '\r') && !quoted) {
+        if (current.trim()) lines.push(current);
+        current = '';
+      } else {
+        current += c;
+      }
+    }
+    if (current.trim()) lines.push(current);
+    return { headers: lines.length ? parseCsvLine(lines[0]) : [], rowCount: Math.max(lines.length - 1, 0) };
+  }
+
+  function renderMapping() {
+    const mapping = FIELD_MAPPINGS[wizard.entity] || {};
+    document.querySelector('#mapping tbody').innerHTML = wizard.headers.map(header => {
+      const field = mapping[header.toLowerCase()];
+      return `<tr><td>${esc(header)}</td>` +
+        (field ? `<td title="${esc(field)}">${esc(field)}</td>` : '<td title="Unmapped">Unmapped</td>') + '</tr>';
+    }).join('');
+  }
+
+  function next() {
+    if (wizard.step === 0) {
+      const file = fileInput.files[0];
+      if (!wizard.entity || !wizard.action || !wizard.source || !file) {
+        showError('Choose the data to import, what to do and a CSV file.');
+        return;
+      }
+      const reader = new FileReader();
+      reader.onload = () => {
+        Object.assign(wizard, parseCsv(reader.result));
+        renderMapping();
+        showStep(1);
+      };
+      reader.onerror = () => showError(`Could not read ${file.name}`);
+      reader.readAsText(file, charset.value);
+    } else if (wizard.step === 1) {
+      const unmapped = document.querySelectorAll('#mapping td[title="Unmapped"]').length;
+      document.getElementById('review-summary').textContent =
+        `${wizard.entityLabel}: ${wizard.rowCount} record(s), ${wizard.headers.length - unmapped} mapped field(s), ${unmapped} unmapped field(s)`;
+      showStep(2);
+    }
+  }
+
+  function startImport() {
+    const result = document.getElementById('import-result');
+    MockAura.call(MockAura.IMPORT, { entity: wizard.entity, operation: wizard.action, charset: charset.value, rowCount: wizard.rowCount })
+      .then(() => (result.textContent = `Your import has started. ${wizard.rowCount} record(s) will be processed.`))
+      .catch(e => showError(e.message));
+  }
+
+  document.addEventListener('click', event => {
+    const link = event.target.closest('a');
+    if (!link) return;
+    event.preventDefault();
+
+    if (link.dataset.entity) {
+      select(document.getElementById('entities'), link);
+      wizard.entity = link.dataset.entity;
+      wizard.entityLabel = link.textContent.trim();
+      document.getElementById('actions').hidden = false;
+    } else if (link.dataset.importAction) {
+      select(document.getElementById('actions'), link);
+      wizard.action = link.dataset.importAction;
+      document.getElementById('sources').hidden = false;
+    } else if (link.dataset.source) {
+      select(document.getElementById('sources'), link);
+      wizard.source = link.dataset.source;
+      document.getElementById('file-options').hidden = false;
+    } else if (link.dataset.nav === 'next') {
+      next();
+    } else if (link.dataset.nav === 'previous') {
+      showStep(Math.max(wizard.step - 1, 0));
+    } else if (link.dataset.nav === 'cancel') {
+      window.top.location.href = '/lightning/o/MANAERP__Event_Master__c/home';
+    } else if (link.hasAttribute('data-start-import')) {
+      startImport();
+    }
+  });
+})();
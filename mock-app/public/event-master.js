@@ -0,0 +1,605 @@
+/**
+ * Event Master list view of the mock app
+ * Same markup as the org (lst-list-view-manager-header, lazy-loading grid, records-lwc-detail-panel modal,
+ * toasts), so EventMasterPage, DataTable and EventMasterFacade drive it unchanged.
+ * Records are kept in sessionStorage: a new browser context starts from SEED_RECORDS.
+ */
+(function () {
+  'use strict';
+
+  const OBJECT = 'MANAERP__Event_Master__c';
+  const STORAGE_KEY = 'mock-app:event-masters';
+  const PAGE_SIZE = 20;
+  const TOAST_MS = 8000;
+
+  const FIELDS = {
+    name: 'Name',
+    eventType: 'MANAERP__Event_Type__c',
+    sendTo: 'MANAERP__Send_To__c',
+    whoCanReserve: 'MANAERP__Who_Can_Reserve__c',
+    reminder: 'MANAERP__Reminders__c',
+    maxEventPerStudent: 'MANAERP__Max_Event_Per_Student__c',
+    description: 'MANAERP__Description__c',
+  };
+
+  const COLUMNS = [
+    { label: 'Event Master Name', field: FIELDS.name },
+    { label: 'Event Type', field: FIELDS.eventType },
+    { label: 'Send To', field: FIELDS.sendTo },
+    { label: 'Who Can Reserve', field: FIELDS.whoCanReserve },
+    { label: 'Reminders', field: FIELDS.reminder },
+    { label: 'Max Event Per Student', field: FIELDS.maxEventPerStudent },
+  ];
+
+  const REQUIRED = [
+    { field: FIELDS.name, label: 'Event Master Name' },
+    { field: FIELDS.eventType, label: 'Event Type' },
+    { field: FIELDS.sendTo, label: 'Send To' },
+  ];
+
+  /** Send To → Who Can Reserve (set by the org's picklist dependency) */
+  const WHO_CAN_RESERVE = {
+    'Parent only': 'Parent Only',
+    'Student only': 'Student Only',
+    'Parent & Student': 'Parent & Student',
+  };
+
+  const PICKLISTS = {
+    [FIELDS.eventType]: () => ['Free', 'Paid'],
+    [FIELDS.sendTo]: () => Object.keys(WHO_CAN_RESERVE),
+    [FIELDS.whoCanReserve]: () => Object.values(WHO_CAN_RESERVE),
+  };
+
+  const USERS = ['Admin User', 'linh nguyen', 'Mock Teacher', 'Mock Staff'];
+
+  const SEED_RECORDS = [
+    seed('edit_updated', 'Free', 'Parent only', '2', '3'),
+    seed('Paid-Parent only', 'Paid', 'Parent only', '5', '1'),
+    seed('Sample Event', 'Free', 'Parent & Student', '1', '10'),
+    seed('Student only', 'Free', 'Student only', '', '2'),
+    ...Array.from({ length: 30 }, (_, i) =>
+      seed(`Seed Event ${String(i + 1).padStart(2, '0')}`, i % 2 ? 'Paid' : 'Free', Object.keys(WHO_CAN_RESERVE)[i % 3], String(i % 11), String(i + 1))),
+  ];
+
+  const header = document.getElementById('header-row');
+  const rows = document.getElementById('rows');
+  const scroller = document.getElementById('scroller');
+  const grid = document.querySelector('.forceListViewManagerGrid');
+  const status = document.getElementById('list-status');
+  const emptyState = document.getElementById('empty-state');
+  const searchInput = document.querySelector('input[name="Event Master-search-input"]');
+  const toasts = document.getElementById('toasts');
+  const overlay = document.getElementById('overlay');
+
+  const store = loadStore();
+  const view = { term: '', sortBy: null, sortDirection: 'none', shown: PAGE_SIZE, loading: false };
+  const selected = new Set();
+  let editing = null;
+  let toastTimer = null;
+  let toastUndo = null;
+
+  // ===== DATA =====
+
+  function seed(name, eventType, sendTo, reminder, maxEventPerStudent) {
+    return {
+      [FIELDS.name]: name,
+      [FIELDS.eventType]: eventType,
+      [FIELDS.sendTo]: sendTo,
+      [FIELDS.whoCanReserve]: WHO_CAN_RESERVE[sendTo],
+      [FIELDS.reminder]: reminder,
+      [FIELDS.maxEventPerStudent]: maxEventPerStudent,
+      [FIELDS.description]: '',
+      Owner: 'Admin User',
+    };
+  }
+
+  function loadStore() {
+    const saved = sessionStorage.getItem(STORAGE_KEY);
+    if (saved) return JSON.parse(saved);
+    return { nextId: SEED_RECORDS.length + 1, records: SEED_RECORDS.map((record, i) => ({ Id: recordId(i + 1), ...record })) };
+  }
+
+  function saveStore() {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  }
+
+  function recordId(n) {
+    return `a0B${String(n).padStart(15, '0')}`;
+  }
+
+  function findRecord(id) {
+    return store.records.find(record => record.Id === id);
+  }
+
+  /** Records of the list view: search term (name contains, case-insensitive) then sort */
+  function visibleRecords() {
+    const term = view.term.toLowerCase();
+    const records = store.records.filter(record => record[FIELDS.name].toLowerCase().includes(term));
+    if (!view.sortBy) return records;
+    const direction = view.sortDirection === 'descending' ? -1 : 1;
+    return records.sort((a, b) =>
+      direction * String(a[view.sortBy]).localeCompare(String(b[view.sortBy]), undefined, { sensitivity: 'base', numeric: true }));
+  }
+
+  function esc(value) {
+    return String(value ?? '').replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]));
+  }
+
+  // ===== LIST VIEW =====
+
+  function renderHeader() {
+    header.innerHTML = '<th scope="col" style="width:32px"><span class="slds-assistive-text">Choose a Row</span></th>' +
+      COLUMNS.map(column => {
+        const sort = view.sortBy === column.field ? view.sortDirection : 'none';
+        const arrow = sort === 'ascending' ? ' ▲' : sort === 'descending' ? ' ▼' : '';
+        return `<th scope="col" aria-label="${esc(column.label)}" aria-sort="${sort}">` +
+          `<a class="slds-th__action" href="#" role="button" data-sort="${column.field}">${esc(column.label)}${arrow}</a></th>`;
+      }).join('') +
+      '<th scope="col" style="width:48px"><span class="slds-assistive-text">Actions</span></th>';
+  }
+
+  function renderRows() {
+    const records = visibleRecords();
+    const shown = records.slice(0, view.shown);
+    rows.innerHTML = shown.map((record, i) => `
+      <tr data-row-key-value="${record.Id}">
+        <td role="gridcell">
+          <label class="slds-checkbox">
+            <input type="checkbox" data-id="${record.Id}"${selected.has(record.Id) ? ' checked' : ''}>
+            <span class="slds-checkbox_faux"></span>
+            <span class="slds-form-element__label slds-assistive-text">Select Item ${i + 1}</span>
+          </label>
+        </td>
+        <th scope="row" data-label="Event Master Name"><a href="#" title="${esc(record[FIELDS.name])}">${esc(record[FIELDS.name])}</a></th>
+        ${COLUMNS.slice(1).map(column => `<td data-label="${esc(column.label)}">${esc(record[column.field])}</td>`).join('')}
+        <td role="gridcell">
+          <button type="button" class="slds-button slds-button_icon-border slds-button_icon-x-small" aria-haspopup="true" data-menu="${record.Id}">
+            ▾<span class="slds-assistive-text">Show Actions</span>
+          </button>
+        </td>
+      </tr>`).join('');
+
+    const sortColumn = COLUMNS.find(column => column.field === view.sortBy);
+    const count = shown.length < records.length ? `${shown.length}+` : String(records.length);
+    status.textContent = `${count} item${records.length === 1 ? '' : 's'}` +
+      (sortColumn ? ` • Sorted by ${sortColumn.label}` : '') + ' • Filtered by All event masters';
+    emptyState.hidden = records.length > 0;
+  }
+
+  function showLoading(container) {
+    const indicator = document.createElement('div');
+    indicator.className = 'slds-is-loading';
+    indicator.setAttribute('role', 'status');
+    indicator.textContent = 'Loading...';
+    container.appendChild(indicator);
+    return indicator;
+  }
+
+  /** Reload the list from the server (search, sort, after a save): first page again */
+  function reloadList() {
+    const indicator = showLoading(grid);
+    return MockAura.call(MockAura.LIST, { objectApiName: OBJECT, listViewApiName: 'All', searchTerm: view.term, sortBy: view.sortBy })
+      .then(() => {
+        view.shown = PAGE_SIZE;
+        renderHeader();
+        renderRows();
+        scroller.scrollTop = 0;
+      })
+      .catch(error => showToast(error.message, { theme: 'error' }))
+      .finally(() => indicator.remove());
+  }
+
+  /** Lazy-load the next page when the grid is scrolled to the bottom */
+  function loadMore() {
+    if (view.loading || view.shown >= visibleRecords().length) return;
+    if (scroller.scrollTop + scroller.clientHeight < scroller.scrollHeight - 4) return;
+
+    view.loading = true;
+    const indicator = showLoading(scroller);
+    MockAura.call(MockAura.LIST, { objectApiName: OBJECT, listViewApiName: 'All', searchTerm: view.term, offset: view.shown })
+      .then(() => {
+        view.shown += PAGE_SIZE;
+        renderRows();
+      })
+      .finally(() => {
+        indicator.remove();
+        view.loading = false;
+      });
+  }
+
+  function sortBy(field) {
+    view.sortDirection = view.sortBy === field && view.sortDirection === 'ascending' ? 'descending' : 'ascending';
+    view.sortBy = field;
+    reloadList();
+  }
+
+  // ===== POPUPS (row menu, picklists, lookup) =====
+
+  function closePopups() {
+    document.querySelectorAll('.slds-dropdown').forEach(dropdown => dropdown.remove());
+    document.querySelectorAll('[aria-expanded="true"]').forEach(trigger => trigger.setAttribute('aria-expanded', 'false'));
+  }
+
+  function openRowMenu(button) {
+    const wasOpen = button.getAttribute('aria-expanded') === 'true';
+    closePopups();
+    if (wasOpen) return;
+    button.setAttribute('aria-expanded', 'true');
+    button.insertAdjacentHTML('afterend', `
+      <ul class="slds-dropdown slds-dropdown_right" role="menu" data-record="${button.dataset.menu}">
+        <li role="presentation"><a href="#" role="menuitem" title="Edit" data-row-action="edit">Edit</a></li>
+        <li role="presentation"><a href="#" role="menuitem" title="Delete" data-row-action="delete">Delete</a></li>
+      </ul>`);
+  }
+
+  function openPicklist(button) {
+    const wasOpen = button.getAttribute('aria-expanded') === 'true';
+    closePopups();
+    if (wasOpen) return;
+    const field = button.closest('[data-combobox]').dataset.combobox;
+    const options = ['', ...PICKLISTS[field]()];
+    button.setAttribute('aria-expanded', 'true');
+    button.insertAdjacentHTML('afterend', `
+      <div class="slds-dropdown slds-dropdown_fluid slds-listbox" role="listbox">
+        ${options.map(option => `
+          <div role="option" class="slds-listbox__option" data-value="${esc(option)}" aria-selected="${option === button.dataset.value}">
+            <span class="slds-truncate" title="${esc(option || '--None--')}">${esc(option || '--None--')}</span>
+          </div>`).join('')}
+      </div>`);
+  }
+
+  function setPicklistValue(field, value) {
+    const button = overlay.querySelector(`[data-combobox="${field}"] button[role="combobox"]`);
+    button.dataset.value = value;
+    button.querySelector('.slds-truncate').textContent = value || '--None--';
+    // Picklist dependency of the org
+    if (field === FIELDS.sendTo) setPicklistValue(FIELDS.whoCanReserve, WHO_CAN_RESERVE[value] || '');
+  }
+
+  // ===== NEW / EDIT MODAL =====
+
+  function requiredMark(required) {
+    return required ? '<abbr class="slds-required" title="required">*</abbr>' : '';
+  }
+
+  function textField(field, label, value, { required = false, maxlength } = {}) {
+    return `
+      <div class="slds-form-element" data-field="${field}">
+        <label class="slds-form-element__label" for="input-${field}">${requiredMark(required)}${esc(label)}</label>
+        <div class="slds-form-element__control">
+          <input class="slds-input" type="text" id="input-${field}" name="${field}" value="${esc(value)}"` +
+            `${maxlength ? ` maxlength="${maxlength}"` : ''}${required ? ' aria-required="true"' : ''}>
+        </div>
+      </div>`;
+  }
+
+  function picklistField(field, label, value, { required = false } = {}) {
+    return `
+      <div class="slds-form-element" data-field="${field}">
+        <label class="slds-form-element__label" for="input-${field}">${requiredMark(required)}${esc(label)}</label>
+        <div class="slds-form-element__control">
+          <div class="slds-combobox" data-combobox="${field}">
+            <button type="button" role="combobox" id="input-${field}" class="slds-input_faux" aria-label="${esc(label)}"
+              aria-haspopup="listbox" aria-expanded="false" data-value="${esc(value)}"><span class="slds-truncate">${esc(value || '--None--')}</span></button>
+          </div>
+        </div>
+      </div>`;
+  }
+
+  function richTextField(field, label, value) {
+    return `
+      <div class="slds-form-element" data-field="${field}">
+        <label class="slds-form-element__label">${esc(label)}</label>
+        <div class="slds-form-element__control">
+          <div class="slds-rich-text-editor" role="group" aria-label="${esc(label)}">
+            <div class="slds-rich-text-editor__toolbar" role="toolbar"><b>B</b> <i>I</i> <u>U</u></div>
+            <div class="slds-rich-text-area__content">
+              <div class="ql-editor" contenteditable="true" role="textbox" aria-multiline="true" aria-label="Compose text" data-field="${field}">${value || ''}</div>
+            </div>
+          </div>
+        </div>
+      </div>`;
+  }
+
+  function openRecordModal(record) {
+    editing = record || null;
+    const values = record || {};
+    overlay.innerHTML = `
+      <div class="slds-backdrop slds-backdrop_open"></div>
+      <div class="modal-container slds-modal__container" role="dialog" aria-modal="true" aria-labelledby="record-modal-title">
+        <div class="slds-modal__header">
+          <button type="button" class="slds-button slds-modal__close" title="Close" data-modal="cancel">✕<span class="slds-assistive-text">Close</span></button>
+          <h2 id="record-modal-title" class="header slds-modal__title slds-hyphenate">${record ? `Edit ${esc(record[FIELDS.name])}` : 'New Event Master'}</h2>
+        </div>
+        <div class="slds-modal__content">
+          <records-lwc-detail-panel>
+            <div class="pageErrors" hidden></div>
+            ${textField(FIELDS.name, 'Event Master Name', values[FIELDS.name], { required: true, maxlength: 80 })}
+            ${picklistField(FIELDS.eventType, 'Event Type', values[FIELDS.eventType], { required: true })}
+            ${picklistField(FIELDS.sendTo, 'Send To', values[FIELDS.sendTo], { required: true })}
+            ${picklistField(FIELDS.whoCanReserve, 'Who Can Reserve', values[FIELDS.whoCanReserve])}
+            ${textField(FIELDS.reminder, 'Reminders', values[FIELDS.reminder])}
+            ${textField(FIELDS.maxEventPerStudent, 'Max Event Per Student', values[FIELDS.maxEventPerStudent])}
+            ${richTextField(FIELDS.description, 'Description', values[FIELDS.description])}
+          </records-lwc-detail-panel>
+        </div>
+        <div class="slds-modal__footer">
+          <button type="button" class="slds-button slds-button_neutral" apiname="CancelEdit" data-modal="cancel">Cancel</button>
+          ${record ? '' : '<button type="button" class="slds-button slds-button_neutral" apiname="SaveAndNew" data-modal="save-new">Save &amp; New</button>'}
+          <button type="button" class="slds-button slds-button_brand" apiname="SaveEdit" data-modal="save">Save</button>
+        </div>
+      </div>`;
+  }
+
+  function closeModal() {
+    overlay.innerHTML = '';
+    editing = null;
+  }
+
+  function readForm() {
+    const fields = {};
+    overlay.querySelectorAll('input.slds-input[name]').forEach(input => (fields[input.name] = input.value.trim()));
+    overlay.querySelectorAll('[data-combobox]').forEach(combobox => (fields[combobox.dataset.combobox] = combobox.querySelector('button').dataset.value));
+    const editor = overlay.querySelector('.ql-editor');
+    fields[editor.dataset.field] = editor.textContent.trim() ? editor.innerHTML : '';
+    return fields;
+  }
+
+  /** "Complete this field." under every empty required field, as lightning-input does */
+  function checkRequired(fields) {
+    overlay.querySelectorAll('.slds-form-element.slds-has-error').forEach(element => {
+      element.classList.remove('slds-has-error');
+      element.querySelector('.slds-form-element__help').remove();
+    });
+    const missing = REQUIRED.filter(({ field }) => !fields[field]);
+    for (const { field, label } of missing) {
+      const element = overlay.querySelector(`.slds-form-element[data-field="${field}"]`);
+      element.classList.add('slds-has-error');
+      element.querySelector('.slds-form-element__control').insertAdjacentHTML('afterend',
+        `<div class="slds-form-element__help" aria-live="assertive"><span class="slds-assistive-text">${esc(label)}</span> Complete this field.</div>`);
+    }
+    return missing.length === 0;
+  }
+
+  function showPageErrors(messages) {
+    const pageErrors = overlay.querySelector('.pageErrors');
+    pageErrors.innerHTML = '<h2 class="slds-text-heading_small">We hit a snag.</h2>' +
+      `<ul class="errorsList slds-list_dotted slds-m-left_medium">${messages.map(message => `<li>${esc(message)}</li>`).join('')}</ul>`;
+    pageErrors.hidden = false;
+  }
+
+  function saveRecord(andNew) {
+    const fields = readForm();
+    if (!checkRequired(fields)) return;
+    overlay.querySelector('.pageErrors').hidden = true;
+
+    const record = editing;
+    const descriptor = record ? MockAura.UPDATE : MockAura.CREATE;
+    withSpinner(MockAura.call(descriptor, { apiName: OBJECT, recordId: record ? record.Id : undefined, fields }))
+      .then(() => {
+        if (record) {
+          Object.assign(record, fields);
+        } else {
+          store.records.unshift({ Id: recordId(store.nextId++), ...fields, Owner: 'Admin User' });
+        }
+        saveStore();
+        showToast(`Event Master "${fields[FIELDS.name]}" was ${record ? 'saved' : 'created'}.`);
+        if (andNew) openRecordModal();
+        else closeModal();
+        renderRows();
+      })
+      .catch(error => showPageErrors(error.messages || [error.message]));
+  }
+
+  // ===== DELETE / UNDO =====
+
+  function openDeleteDialog(record) {
+    overlay.innerHTML = `
+      <div class="slds-backdrop slds-backdrop_open"></div>
+      <div class="modal-container slds-modal__container" role="alertdialog" aria-modal="true" aria-labelledby="delete-title" data-record="${record.Id}">
+        <div class="modal-header slds-modal__header"><h2 id="delete-title" class="title slds-text-heading--medium">Delete Event Master</h2></div>
+        <div class="modal-body slds-modal__content">Are you sure you want to delete this Event Master?</div>
+        <div class="modal-footer slds-modal__footer">
+          <button type="button" class="slds-button slds-button_neutral" title="Cancel" data-dialog="cancel">Cancel</button>
+          <button type="button" class="slds-button slds-button_brand" title="Delete" data-dialog="delete">Delete</button>
+        </div>
+      </div>`;
+  }
+
+  function deleteRecord(id) {
+    const index = store.records.findIndex(record => record.Id === id);
+    const record = store.records[index];
+    withSpinner(MockAura.call(MockAura.DELETE, { recordId: id }))
+      .then(() => {
+        store.records.splice(index, 1);
+        selected.delete(id);
+        saveStore();
+        closeModal();
+        renderRows();
+        showToast(`Event Master "${record[FIELDS.name]}" was deleted.`, { undo: () => restoreRecord(record, index) });
+      })
+      .catch(error => showToast(error.message, { theme: 'error' }));
+  }
+
+  function restoreRecord(record, index) {
+    withSpinner(MockAura.call(MockAura.UNDELETE, { recordId: record.Id }))
+      .then(() => {
+        store.records.splice(Math.min(index, store.records.length), 0, record);
+        saveStore();
+        renderRows();
+        showToast(`Event Master "${record[FIELDS.name]}" was restored.`);
+      })
+      .catch(error => showToast(error.message, { theme: 'error' }));
+  }
+
+  // ===== CHANGE OWNER =====
+
+  function openChangeOwner() {
+    if (selected.size === 0) {
+      showToast('Select at least one record and try again.', { theme: 'error' });
+      return;
+    }
+    overlay.innerHTML = `
+      <div class="slds-backdrop slds-backdrop_open"></div>
+      <div class="modal-container slds-modal__container" role="dialog" aria-modal="true" aria-labelledby="owner-title">
+        <div class="slds-modal__header"><h2 id="owner-title" class="slds-modal__title">Change Owner</h2></div>
+        <div class="slds-modal__content">
+          <div class="slds-form-element" data-field="OwnerId">
+            <label class="slds-form-element__label" for="owner-search">Select New Owner *</label>
+            <div class="slds-form-element__control">
+              <div class="slds-combobox" data-lookup>
+                <input id="owner-search" class="slds-input" type="text" role="combobox" aria-autocomplete="list"
+                  aria-expanded="false" autocomplete="off" placeholder="Search Users...">
+              </div>
+            </div>
+          </div>
+        </div>
+        <div class="slds-modal__footer">
+          <button type="button" class="slds-button slds-button_neutral" data-owner="cancel">Cancel</button>
+          <button type="button" class="slds-button slds-button_brand" data-owner="submit">Submit</button>
+        </div>
+      </div>`;
+  }
+
+  function searchUsers(input) {
+    const term = input.value.trim().toLowerCase();
+    delete input.dataset.owner;
+    MockAura.call(MockAura.LOOKUP, { sobjectType: 'User', searchTerm: term }).then(() => {
+      if (!input.isConnected) return;
+      closePopups();
+      const users = USERS.filter(user => user.toLowerCase().includes(term));
+      input.setAttribute('aria-expanded', 'true');
+      input.insertAdjacentHTML('afterend', `
+        <div class="slds-dropdown slds-dropdown_fluid slds-listbox" role="listbox">
+          ${users.map(user => `<div role="option" class="slds-listbox__option" data-value="${esc(user)}" aria-selected="false">${esc(user)}</div>`).join('')}
+        </div>`);
+    });
+  }
+
+  function onOwnerKeydown(event) {
+    const options = [...overlay.querySelectorAll('[data-lookup] .slds-listbox__option')];
+    if (options.length === 0) return;
+    const current = options.findIndex(option => option.classList.contains('slds-has-focus'));
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const next = event.key === 'ArrowDown' ? Math.min(current + 1, options.length - 1) : Math.max(current - 1, 0);
+      options.forEach((option, i) => option.classList.toggle('slds-has-focus', i === next));
+    } else if (event.key === 'Enter' && current >= 0) {
+      event.preventDefault();
+      chooseOwner(options[current].dataset.value);
+    }
+  }
+
+  function chooseOwner(user) {
+    const input = overlay.querySelector('#owner-search');
+    input.value = user;
+    input.dataset.owner = user;
+    closePopups();
+  }
+
+  function submitOwner() {
+    const owner = overlay.querySelector('#owner-search').dataset.owner;
+    if (!owner) {
+      showToast('Select a new owner.', { theme: 'error' });
+      return;
+    }
+    const ids = [...selected];
+    withSpinner(MockAura.call(MockAura.UPDATE, { apiName: OBJECT, recordIds: ids, fields: { Owner: owner } }))
+      .then(() => {
+        ids.forEach(id => (findRecord(id).Owner = owner));
+        selected.clear();
+        saveStore();
+        closeModal();
+        renderRows();
+        showToast(`Owner of ${ids.length} Event Master record(s) changed to ${owner}.`);
+      })
+      .catch(error => showToast(error.message, { theme: 'error' }));
+  }
+
+  // ===== TOAST / SPINNER =====
+
+  function showToast(message, { theme = 'success', undo = null } = {}) {
+    clearTimeout(toastTimer);
+    toastUndo = undo;
+    toasts.innerHTML = `
+      <div class="slds-notify slds-notify--toast slds-theme--${theme} forceToastMessage" role="${theme === 'error' ? 'alert' : 'status'}">
+        <div class="toastContent slds-notify__content">
+          <span class="toastMessage slds-text-heading--small">${esc(message)}${undo ? ' <a href="#" title="Undo" data-toast="undo">Undo</a>' : ''}</span>
+        </div>
+        <button type="button" class="slds-button slds-notify__close" title="Close" data-toast="close">✕<span class="slds-assistive-text">Close</span></button>
+      </div>`;
+    toastTimer = setTimeout(() => (toasts.innerHTML = ''), TOAST_MS);
+  }
+
+  function withSpinner(promise) {
+    const spinner = document.createElement('div');
+    spinner.className = 'slds-spinner_container';
+    spinner.innerHTML = '<div class="slds-spinner" role="status"><span class="slds-assistive-text">Loading</span></div>';
+    document.body.appendChild(spinner);
+    return promise.finally(() => spinner.remove());
+  }
+
+  // ===== EVENTS =====
+
+  document.addEventListener('click', event => {
+    const target = event.target.closest('a, button, [role="option"]');
+    if (target && target.matches('a[href="#"]')) event.preventDefault();
+    if (!target) {
+      closePopups();
+      return;
+    }
+
+    const { action, sort, menu, rowAction, modal, dialog, toast, owner } = target.dataset;
+    if (action === 'new') openRecordModal();
+    else if (action === 'import') location.href = `/one/one.app?entity=${OBJECT}`;
+    else if (action === 'change-owner') openChangeOwner();
+    else if (sort) sortBy(sort);
+    else if (menu) return openRowMenu(target);
+    else if (rowAction) {
+      const record = findRecord(target.closest('[data-record]').dataset.record);
+      closePopups();
+      if (rowAction === 'edit') openRecordModal(record);
+      else openDeleteDialog(record);
+      return;
+    } else if (target.matches('button[role="combobox"]')) return openPicklist(target);
+    else if (target.matches('[data-combobox] [role="option"]')) {
+      setPicklistValue(target.closest('[data-combobox]').dataset.combobox, target.dataset.value);
+    } else if (target.matches('[data-lookup] [role="option"]')) chooseOwner(target.dataset.value);
+    else if (modal === 'cancel') closeModal();
+    else if (modal) saveRecord(modal === 'save-new');
+    else if (dialog === 'cancel') closeModal();
+    else if (dialog === 'delete') deleteRecord(target.closest('[data-record]').dataset.record);
+    else if (owner === 'cancel') closeModal();
+    else if (owner === 'submit') submitOwner();
+    else if (toast === 'undo' && toastUndo) {
+      const undo = toastUndo;
+      toasts.innerHTML = '';
+      undo();
+    } else if (toast === 'close') toasts.innerHTML = '';
+    closePopups();
+  });
+
+  document.addEventListener('change', event => {
+    if (!event.target.matches('#rows input[type="checkbox"]')) return;
+    if (event.target.checked) selected.add(event.target.dataset.id);
+    else selected.delete(event.target.dataset.id);
+  });
+
+  document.addEventListener('input', event => {
+    if (event.target.id === 'owner-search') searchUsers(event.target);
+  });
+
+  document.addEventListener('keydown', event => {
+    if (event.target === searchInput && event.key === 'Enter') {
+      view.term = searchInput.value.trim();
+      reloadList();
+    } else if (event.target.id === 'owner-search') {
+      onOwnerKeydown(event);
+    }
+  });
+
+  scroller.addEventListener('scroll', loadMore);
+
+  renderHeader();
+  reloadList();
+})();
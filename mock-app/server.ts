@@ -0,0 +1,146 @@
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { loadAppConfig } from '../src/config/appConfig';
+import { CommonConstants } from '../src/constants/commonConstants';
+import { EventMasterFields, SObjects } from '../src/constants/salesforceConstants';
+
+/**
+ * Offline Lightning mock app
+ * Reproduces the Event Master UI of the org with its SLDS markup, so page objects, components and facades
+ * run without Salesforce (ENV=mock, Playwright project "mock"):
+ * - List view: search, sort, lazy-loaded rows, row actions menu, empty state, Change Owner
+ * - New / Edit modal: rich text area, comboboxes with listbox, `.slds-form-element__help` and errorsList errors
+ * - Toasts (Undo after delete), delete confirm dialog
+ * - Classic data import wizard in an iframe (/one/one.app)
+ * - Every save / load is an `/aura?` POST answered after MOCK_APP_LATENCY ms (default 300), so
+ *   Lightning idle waits and Aura diagnostics behave as against the org
+ *
+ * Records live in the browser (sessionStorage): every test context starts from the seed data.
+ * Host and port come from src/config/mock.env (PAGE_URL).
+ *
+ * Usage:
+ *   npm run mock:app
+ *   MOCK_APP_LATENCY=1500 npm run mock:app
+ */
+
+const PUBLIC_DIR = path.join(__dirname, 'public');
+const LATENCY_MS = Number(process.env.MOCK_APP_LATENCY || 300);
+const MAX_NUMBER_DIGITS = 18;
+const MAX_REMINDERS = 10;
+
+/** Lightning URL → page of the mock app */
+const PAGES: { pattern: RegExp; file: string }[] = [
+  { pattern: new RegExp(`^/lightning/o/${SObjects.EVENT_MASTER}/(home|list)$`), file: 'event-master.html' },
+  { pattern: /^\/one\/one\.app$/, file: 'one.html' },
+  { pattern: /^\/dataimporter$/, file: 'data-importer.html' },
+];
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+};
+
+interface AuraAction {
+  id?: string;
+  descriptor?: string;
+  params?: { fields?: Record<string, string> };
+}
+
+/**
+ * Answer an Aura POST (`message={"actions":[...]}`): record saves are validated like the org does,
+ * every other action succeeds
+ */
+function handleAura(body: string): object {
+  const message = new URLSearchParams(body).get('message');
+  const actions: AuraAction[] = message ? JSON.parse(message).actions ?? [] : [];
+  return {
+    actions: actions.map(action => {
+      const errors = /ACTION\$(createRecord|updateRecord)$/.test(action.descriptor ?? '') ? validateRecord(action.params?.fields ?? {}) : [];
+      return errors.length > 0
+        ? { id: action.id, state: 'ERROR', returnValue: null, error: errors.map(error => ({ message: error })) }
+        : { id: action.id, state: 'SUCCESS', returnValue: action.params ?? null, error: [] };
+    }),
+  };
+}
+
+/** Server-side validation rules of Event Master (required fields are checked by the form) */
+function validateRecord(fields: Record<string, string>): string[] {
+  const errors: string[] = [];
+  const reminders = fields[EventMasterFields.reminder];
+  if (reminders) {
+    if (!/^\d+$/.test(reminders)) errors.push(`Reminders: value not of required type: ${reminders}`);
+    else if (Number(reminders) > MAX_REMINDERS) errors.push(`The maximum number of reminder days is ${MAX_REMINDERS}.`);
+  }
+  const maxPerStudent = fields[EventMasterFields.maxEventPerStudent];
+  if (maxPerStudent && (!/^\d+$/.test(maxPerStudent) || maxPerStudent.length > MAX_NUMBER_DIGITS)) {
+    errors.push(`Max Event Per Student: value outside of valid range on numeric field: ${maxPerStudent}`);
+  }
+  return errors;
+}
+
+function sendFile(res: http.ServerResponse, file: string): void {
+  const fullPath = path.join(PUBLIC_DIR, file);
+  if (!fullPath.startsWith(PUBLIC_DIR + path.sep) || !fs.existsSync(fullPath)) {
+    sendNotFound(res);
+    return;
+  }
+  res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream', 'Cache-Control': 'no-store' });
+  fs.createReadStream(fullPath).pipe(res);
+}
+
+function sendNotFound(res: http.ServerResponse): void {
+  res.writeHead(404, { 'Content-Type': CONTENT_TYPES['.html'] });
+  res.end('<!DOCTYPE html><title>Page not found</title><h1>Page not found in the mock app</h1>');
+}
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url ?? '/', 'http://mock');
+
+  if (req.method === 'POST' && url.pathname === '/aura') {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      setTimeout(() => {
+        // Answer built first: headers are written once, with the status of the outcome
+        let status = 200;
+        let payload: object;
+        try {
+          payload = handleAura(body);
+        } catch (error) {
+          status = 400;
+          payload = { message: `Bad Aura message: ${(error as Error).message}` };
+        }
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(payload));
+      }, LATENCY_MS);
+    });
+    return;
+  }
+
+  if (req.method !== 'GET') {
+    res.writeHead(405).end();
+    return;
+  }
+  if (url.pathname === '/health') {
+    res.writeHead(200, { 'Content-Type': 'text/plain' }).end('ok');
+    return;
+  }
+  if (url.pathname.startsWith('/assets/')) {
+    sendFile(res, url.pathname.slice('/assets/'.length));
+    return;
+  }
+  const page = PAGES.find(p => p.pattern.test(url.pathname));
+  if (page) sendFile(res, page.file);
+  else sendNotFound(res);
+});
+
+const { hostname, port } = new URL(loadAppConfig(CommonConstants.MOCK).urls.base);
+server.listen(Number(port), hostname, () => {
+  console.log(`🧪 Lightning mock app on http://${hostname}:${port} (Aura latency ${LATENCY_MS}ms)`);
+});
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => server.close(() => process.exit(0)));
+}
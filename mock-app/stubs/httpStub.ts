@@ -0,0 +1,96 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+/** Request received by a stub, as the handler and the assertions see it */
+export interface StubRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: http.IncomingHttpHeaders;
+  body: unknown;
+}
+
+/** Answer of a stub handler: `body` is sent as JSON, no body = empty response (EX: 204) */
+export interface StubResponse {
+  status: number;
+  body?: unknown;
+}
+
+export type StubHandler = (request: StubRequest) => StubResponse;
+
+export interface HttpStub {
+  /** Base URL, EX: http://127.0.0.1:53117 */
+  url: string;
+  /** Every request received, in order */
+  requests: StubRequest[];
+  close(): Promise<void>;
+}
+
+/**
+ * Local HTTP stub server for API checks without a network (ENV=mock)
+ * - Listens on a free port of 127.0.0.1, so checks can run in parallel
+ * - JSON request bodies are parsed, every request is recorded for assertions
+ * - A handler that throws answers 500 with the error message
+ *
+ * @example
+ * ```typescript
+ * const stub = await startHttpStub(request => ({ status: 200, body: { ok: true } }));
+ * const client = new SalesforceClient({ instanceUrl: stub.url, accessToken: 'token' });
+ * expect(stub.requests[0].method).toBe('GET');
+ * await stub.close();
+ * ```
+ */
+export async function startHttpStub(handler: StubHandler): Promise<HttpStub> {
+  const requests: StubRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      const url = new URL(req.url ?? '/', 'http://stub');
+      const request: StubRequest = {
+        method: req.method ?? 'GET',
+        path: url.pathname,
+        query: url.searchParams,
+        headers: req.headers,
+        body: parseBody(raw),
+      };
+      requests.push(request);
+
+      // Answer is built first: headers are sent once, whatever the handler does
+      let response: StubResponse;
+      try {
+        response = handler(request);
+      } catch (error) {
+        response = { status: 500, body: { message: (error as Error).message } };
+      }
+      if (response.body === undefined) {
+        res.writeHead(response.status).end();
+        return;
+      }
+      res.writeHead(response.status, { 'Content-Type': 'application/json' }).end(JSON.stringify(response.body));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()));
+      // Keep-alive connections of the client would hold the server open
+      server.closeAllConnections();
+    }),
+  };
+}
+
+function parseBody(raw: string): unknown {
+  if (!raw) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
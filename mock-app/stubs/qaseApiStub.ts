@@ -0,0 +1,61 @@
+import { TestCase } from 'qaseio';
+import { HttpStub, startHttpStub, StubRequest, StubResponse } from './httpStub';
+
+export interface QaseApiStub extends HttpStub {
+  /** Cases by ID, as stored by the stub */
+  cases: Map<number, TestCase>;
+  /** API token the stub accepts; any other `Token` header gets 401 */
+  token: string;
+}
+
+export interface QaseApiStubOptions {
+  token?: string;
+  /** Cases of the project at start */
+  cases?: TestCase[];
+}
+
+/**
+ * Local stub of the Qase API (test cases) for QaseCaseClient / qase:sync checks
+ * - GET /v1/case/:project/:id, POST /v1/case/:project, PATCH /v1/case/:project/:id
+ * - Answers in the Qase shape: { status: true, result } or { status: false, errorMessage }
+ * - Point the client at it with QASE_TESTOPS_API_HOST=<stub.url>
+ *
+ * @example
+ * ```typescript
+ * const stub = await startQaseApiStub({ cases: [{ id: 1, title: 'Login' }] });
+ * const client = new QaseCaseClient(stub.token, 'PX', stub.url);
+ * ```
+ */
+export async function startQaseApiStub(options: QaseApiStubOptions = {}): Promise<QaseApiStub> {
+  const token = options.token ?? 'stub-qase-token';
+  const cases = new Map<number, TestCase>((options.cases ?? []).map(c => [c.id!, c]));
+
+  const error = (status: number, errorMessage: string): StubResponse => ({ status, body: { status: false, errorMessage } });
+
+  const handle = (request: StubRequest): StubResponse => {
+    if (request.headers.token !== token) return error(401, 'Unauthenticated.');
+    const [, version, resource, , id] = request.path.split('/');
+    if (version !== 'v1' || resource !== 'case') return error(404, `Unknown endpoint ${request.path}`);
+
+    if (!id && request.method === 'POST') {
+      const newId = Math.max(0, ...cases.keys()) + 1;
+      cases.set(newId, { ...(request.body as TestCase), id: newId });
+      return { status: 200, body: { status: true, result: { id: newId } } };
+    }
+
+    const testCase = cases.get(Number(id));
+    if (!testCase) return error(404, 'TestCase not found');
+    switch (request.method) {
+      case 'GET':
+        return { status: 200, body: { status: true, result: testCase } };
+      case 'PATCH':
+        cases.set(testCase.id!, { ...testCase, ...(request.body as TestCase) });
+        return { status: 200, body: { status: true, result: { id: testCase.id } } };
+      default:
+        return error(405, `Method ${request.method} not allowed`);
+    }
+  };
+
+  const stub = await startHttpStub(handle);
+  return { ...stub, cases, token };
+}
@@ -0,0 +1,118 @@
+import { HttpStub, startHttpStub, StubRequest, StubResponse } from './httpStub';
+import { SalesforceConstants } from '../../src/constants/salesforceConstants';
+import { SObjectRecord } from '../../src/type/SalesforceSession';
+
+export interface SalesforceApiStub extends HttpStub {
+  /** Records by Id, as stored by the stub */
+  records: Map<string, SObjectRecord>;
+  /** Access token the stub accepts; any other bearer token gets 401 INVALID_SESSION_ID */
+  accessToken: string;
+}
+
+export interface SalesforceApiStubOptions {
+  accessToken?: string;
+  /** Records per query page: smaller results come back in one page, larger ones through nextRecordsUrl */
+  pageSize?: number;
+  /** REST API version served (default: the client's default version) */
+  apiVersion?: string;
+}
+
+/**
+ * Local stub of the Salesforce REST API (sobjects + query) for SalesforceClient checks
+ * - POST /sobjects/:type → 201 { id, success, errors }, GET / PATCH / DELETE /sobjects/:type/:id
+ * - GET /query?q=SELECT ... FROM :type [WHERE Name = / LIKE '...'] with nextRecordsUrl paging
+ * - Errors in the Salesforce shape: [{ message, errorCode, fields }]
+ *
+ * @example
+ * ```typescript
+ * const stub = await startSalesforceApiStub({ pageSize: 2 });
+ * const client = new SalesforceClient({ instanceUrl: stub.url, accessToken: stub.accessToken });
+ * ```
+ */
+export async function startSalesforceApiStub(options: SalesforceApiStubOptions = {}): Promise<SalesforceApiStub> {
+  const accessToken = options.accessToken ?? 'stub-access-token';
+  const pageSize = options.pageSize ?? 2000;
+  const records = new Map<string, SObjectRecord>();
+  const cursors = new Map<string, SObjectRecord[]>();
+  const basePath = `/services/data/${options.apiVersion ?? SalesforceConstants.DEFAULT_API_VERSION}`;
+  let lastId = 0;
+
+  const error = (status: number, errorCode: string, message: string): StubResponse =>
+    ({ status, body: [{ message, errorCode, fields: [] }] });
+
+  /** One query page; the rest is kept behind a cursor */
+  const page = (rows: SObjectRecord[], totalSize: number): StubResponse => {
+    const done = rows.length <= pageSize;
+    let nextRecordsUrl: string | undefined;
+    if (!done) {
+      nextRecordsUrl = `${basePath}/query/01gSTUB${cursors.size + 1}-${pageSize}`;
+      cursors.set(nextRecordsUrl, rows.slice(pageSize));
+    }
+    return { status: 200, body: { totalSize, done, records: rows.slice(0, pageSize), ...(nextRecordsUrl ? { nextRecordsUrl } : {}) } };
+  };
+
+  const handle = (request: StubRequest): StubResponse => {
+    if (request.headers.authorization !== `Bearer ${accessToken}`) {
+      return error(401, 'INVALID_SESSION_ID', 'Session expired or invalid');
+    }
+    if (!request.path.startsWith(`${basePath}/`)) {
+      return error(404, 'NOT_FOUND', `The requested resource does not exist: ${request.path}`);
+    }
+    const [resource, sobject, id] = request.path.slice(basePath.length + 1).split('/');
+
+    if (resource === 'query' && request.method === 'GET') {
+      if (sobject) {
+        const rest = cursors.get(request.path);
+        if (!rest) return error(400, 'INVALID_QUERY_LOCATOR', 'invalid query locator');
+        cursors.delete(request.path);
+        return page(rest, rest.length);
+      }
+      const rows = queryRecords(request.query.get('q') ?? '');
+      return rows ? page(rows, rows.length) : error(400, 'MALFORMED_QUERY', 'unexpected token');
+    }
+
+    if (resource !== 'sobjects' || !sobject) {
+      return error(404, 'NOT_FOUND', `The requested resource does not exist: ${request.path}`);
+    }
+    if (!id && request.method === 'POST') {
+      const newId = `a0STUB${String(++lastId).padStart(12, '0')}`;
+      records.set(newId, { ...(request.body as Record<string, unknown>), Id: newId, attributes: { type: sobject, url: `${basePath}/sobjects/${sobject}/${newId}` } });
+      return { status: 201, body: { id: newId, success: true, errors: [] } };
+    }
+
+    const record = id ? records.get(id) : undefined;
+    if (!record || record.attributes?.type !== sobject) {
+      return error(404, 'NOT_FOUND', 'The requested resource does not exist');
+    }
+    switch (request.method) {
+      case 'GET':
+        return { status: 200, body: record };
+      case 'PATCH':
+        records.set(id, { ...record, ...(request.body as Record<string, unknown>) });
+        return { status: 204 };
+      case 'DELETE':
+        records.delete(id);
+        return { status: 204 };
+      default:
+        return error(405, 'METHOD_NOT_ALLOWED', `HTTP Method '${request.method}' not allowed`);
+    }
+  };
+
+  /** Only what the framework sends: FROM <type> and an optional WHERE Name = '<value>' or Name LIKE '<pattern>' */
+  const queryRecords = (soql: string): SObjectRecord[] | undefined => {
+    const from = soql.match(/\bFROM\s+(\w+)/i);
+    if (!from) return undefined;
+    const where = soql.match(/\bWHERE\s+Name\s*(=|\bLIKE\b)\s*'((?:[^'\\]|\\.)*)'/i);
+    const value = where?.[2].replace(/\\(.)/g, '$1');
+    const matches = (name: unknown): boolean => {
+      if (!where || value === undefined) return true;
+      if (where[1] === '=') return name === value;
+      const pattern = value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.');
+      return new RegExp(`^${pattern}$`, 'i').test(String(name ?? ''));
+    };
+    return [...records.values()].filter(r => r.attributes?.type === from[1] && matches(r.Name));
+  };
+
+  const stub = await startHttpStub(handle);
+  return { ...stub, records, accessToken };
+}
@@ -1,8 +1,10 @@
 // ===== IMPORTS =====
 import { defineConfig, devices } from '@playwright/test';
-import * as dotenv from 'dotenv';
 import path from 'path';
 import { register } from 'tsconfig-paths';
+import { getConfig } from './src/config/appConfig';
+import { CommonConstants } from './src/constants/commonConstants';
+import { installConsoleRedaction, maskSecret } from './src/utils/redactionHelper';
 
 // ===== TYPESCRIPT PATH MAPPING =====
 // Register @src/* alias for cleaner imports in test files
@@ -13,29 +15,36 @@ register({
   }
 });
 
+// ===== SECRET REDACTION =====
+// This file is loaded by the runner AND every worker: mask secrets in all console output
+// (list / html reporters and Qase captured logs included)
+installConsoleRedaction();
+
 // ===== ENVIRONMENT SETUP =====
 // Determine which environment to use (dev-staging, pre-prod, etc.)
-const ENV = process.env.ENV?.trim() || 'dev-staging';  // 🌍 Default to dev-staging if not specified
+// Typed + validated config: base.env → <ENV>.env → qase.env (when QASE_MODE is set) → process.env
+const config = getConfig();                       // 📋 Fails fast listing every missing/invalid key
+const ENV = config.env;                           // 🌍 Default to dev-staging if not specified
 const storageStatePath = path.resolve(__dirname, 'storage', `storageState.${ENV}.json`);
 
-// Load environment-specific configuration (URLs, credentials, etc.)
-dotenv.config({ path: path.resolve(__dirname, `src/config/${ENV}.env`) });  // 📋 Load main environment config
-
-// Load QASE configuration only when QASE integration is enabled
-if (process.env.QASE_MODE) {
-  dotenv.config({ path: path.resolve(__dirname, 'src/config/qase.env') });   // 📊 Load QASE TestOps config
-}
-
+// ===== RUN ID =====
+// Shared by the runner and all workers: tags tracked test data (see src/utils/testDataRegistry.ts)
+process.env.TEST_RUN_ID = process.env.TEST_RUN_ID || String(Date.now());
 
+// ===== OFFLINE MOCK APP =====
+// ENV=mock: only the "mock" project, against mock-app/server.ts (started by webServer)
+// Records live in the browser, there is nothing to clean up through the API
+const isMock = ENV === CommonConstants.MOCK;
+if (isMock) process.env.CLEANUP_MODE = process.env.CLEANUP_MODE || 'none';
 
 // ===== DEBUG LOGGING =====
-// Show environment variables in CI or debug mode (security: only show first 6 chars of token)
+// Show environment variables in CI or debug mode (security: token is never printed, only whether it is set)
 if (process.env.CI || process.env.DEBUG) {
-  console.log(' QASE_TESTOPS_API_TOKEN:', process.env.QASE_TESTOPS_API_TOKEN?.slice(0, 6) + '...');  // 🔑 API token (masked)
-  console.log(' QASE_TESTOPS_PROJECT:', process.env.QASE_TESTOPS_PROJECT);   // 📊 QASE project ID
-  console.log(' QASE_TESTOPS_API_HOST:', process.env.QASE_TESTOPS_API_HOST); // 🌐 QASE API endpoint
-  console.log(' QASE_MODE:', process.env.QASE_MODE);                        // 📋 QASE integration mode
-  console.log(' QASE_CAPTURE_LOGS:', process.env.QASE_CAPTURE_LOGS);        // 📝 QASE logging level
+  console.log(' QASE_TESTOPS_API_TOKEN:', maskSecret(config.qase.token));  // 🔑 API token (masked)
+  console.log(' QASE_TESTOPS_PROJECT:', config.qase.project);   // 📊 QASE project ID
+  console.log(' QASE_TESTOPS_API_HOST:', config.qase.host);     // 🌐 QASE API endpoint
+  console.log(' QASE_MODE:', config.qase.mode);                 // 📋 QASE integration mode
+  console.log(' QASE_CAPTURE_LOGS:', config.qase.captureLogs);  // 📝 QASE logging level
 }
 
 // ===== TIMESTAMP GENERATION =====
@@ -51,31 +60,35 @@ export default defineConfig({
   forbidOnly: !!process.env.CI,
   retries: process.env.CI ? 2 : 1,
   workers: process.env.CI ? 1 : 2,
-  reporter: process.env.QASE_MODE ? [
+  reporter: config.qase.mode ? [
     // ===== WITH QASE INTEGRATION =====
     ['list'],                            // 📝 Real-time console output during test execution
     ['html', { open: 'never' }],         // 📊 Interactive HTML report (don't auto-open browser)
     ['json', { outputFile: 'test-results.json'}], // 📋 Machine-readable JSON results for CI/CD
+    ['./src/reporters/permissionMatrixReporter.ts'], // 🔐 Role × action grid (permission matrix specs only)
+    ['./src/reporters/flakyHistoryReporter.ts'],     // ⚠️ Run history per env + "most flaky" report
+    ['./src/reporters/failureClassifierReporter.ts'], // 🩺 Failure categories (auth, locator, network, ...) + summary
+    ['./src/reporters/quarantineReporter.ts'],       // 🚧 Quarantined tests: ignored failures, releases, expiries
     [
       'playwright-qase-reporter',        // 📊 QASE TestOps integration reporter
       {
-        mode: process.env.QASE_MODE || 'testops',           // 📋 Integration mode: 'testops' or 'report'
-        fallback: process.env.QASE_FALLBACK || 'report',    // 🔄 Fallback mode if TestOps fails
-        environment: process.env.QASE_ENVIRONMENT || ENV,   // 🌍 Test environment identifier
+        mode: config.qase.mode,                             // 📋 Integration mode: 'testops' or 'report'
+        fallback: config.qase.fallback,                     // 🔄 Fallback mode if TestOps fails
+        environment: config.qase.environment || ENV,        // 🌍 Test environment identifier
         debug: true,                                        // 🔍 Enable debug logging for troubleshooting
-        captureLogs: process.env.QASE_CAPTURE_LOGS === 'true', // 📝 Capture console logs in QASE
+        captureLogs: config.qase.captureLogs,               // 📝 Capture console logs in QASE
         
         testops: {                       // 📊 QASE TestOps API configuration
           api: {
-            token: process.env.QASE_TESTOPS_API_TOKEN!,      // 🔑 API authentication token (required)
-            host: process.env.QASE_TESTOPS_API_HOST || 'api.qase.io', // 🌐 QASE API endpoint
+            token: config.qase.token!,                       // 🔑 API authentication token (required in testops mode)
+            host: config.qase.host,                          // 🌐 QASE API endpoint
           },
-          project: process.env.QASE_TESTOPS_PROJECT!,       // 📊 QASE project identifier (e.g., 'PX')
+          project: config.qase.project!,                     // 📊 QASE project identifier (e.g., 'PX')
           run: {
-            id: process.env.QASE_TESTOPS_RUN_ID || undefined,   // 🔗 Attach vào run có sẵn
-            complete: process.env.QASE_TESTOPS_RUN_COMPLETE !== 'false', // ✅ Auto-complete test run
-            title: process.env.QASE_TESTOPS_RUN_TITLE || `Automated Playwright Run - ${ENV} - ${now}`, // 📝 Test run title with timestamp
-            description: process.env.QASE_TESTOPS_RUN_DESCRIPTION || 'Playwright automated run', // 📝 Run description
+            id: config.qase.run.id,                          // 🔗 Attach vào run có sẵn
+            complete: config.qase.run.complete,              // ✅ Auto-complete test run
+            title: config.qase.run.title || `Automated Playwright Run - ${ENV} - ${now}`, // 📝 Test run title with timestamp
+            description: config.qase.run.description,        // 📝 Run description
           },
           framework: {                   // 🎭 Framework-specific settings
             browser: {
@@ -87,10 +100,10 @@ export default defineConfig({
         },
         
         report: {                        // 📋 Local report configuration (fallback mode)
-          driver: process.env.QASE_REPORT_DRIVER || 'local',           // 💾 Report storage driver
+          driver: config.qase.report.driver,           // 💾 Report storage driver
           connection: {
-            path: process.env.QASE_REPORT_CONNECTION_PATH || './build/qase-report', // 📁 Local report path
-            format: process.env.QASE_REPORT_CONNECTION_FORMAT || 'json',            // 📋 Report format
+            path: config.qase.report.path,             // 📁 Local report path
+            format: config.qase.report.format,         // 📋 Report format
           },
         },
       },
@@ -100,11 +113,22 @@ export default defineConfig({
     ['list'],                            // 📝 Console output only
     ['html', { open: 'never' }],         // 📊 HTML report only
     ['json', { outputFile: 'test-results.json'}], // 📋 JSON results only
+    ['./src/reporters/permissionMatrixReporter.ts'], // 🔐 Role × action grid (permission matrix specs only)
+    ['./src/reporters/flakyHistoryReporter.ts'],     // ⚠️ Run history per env + "most flaky" report
+    ['./src/reporters/failureClassifierReporter.ts'], // 🩺 Failure categories (auth, locator, network, ...) + summary
+    ['./src/reporters/quarantineReporter.ts'],       // 🚧 Quarantined tests: ignored failures, releases, expiries
   ],
   globalSetup: require.resolve('./setup/global-setup'),
+  globalTeardown: require.resolve('./setup/global-teardown'),
   timeout: 10 * 10000,
+  webServer: isMock ? {
+    command: 'npx ts-node mock-app/server.ts',    // 🧪 Offline Lightning mock app
+    url: `${config.urls.base}/health`,
+    reuseExistingServer: !process.env.CI,
+    timeout: 60000,
+  } : undefined,
    use: {
-     baseURL: process.env.PAGE_URL,
+     baseURL: config.urls.base,
      trace: 'on-first-retry',
      screenshot: 'only-on-failure',
      video: 'retain-on-failure',
@@ -114,7 +138,17 @@ export default defineConfig({
   
   // ===== PROJECT CONFIGURATIONS =====
   // Multiple projects allow different test configurations (with/without authentication, different browsers, etc.)
-   projects: [
+   projects: isMock ? [
+     {
+       name: 'mock',
+       testDir: path.resolve(__dirname, 'tests/mock'),
+       testMatch: '**/*.spec.ts',
+       use: {
+         ...devices['Desktop Chrome'],
+         storageState: undefined,
+       },
+     },
+   ] : [
      {
        name: 'scheduling',
        testDir: path.resolve(__dirname, 'tests/scheduling'),
@@ -152,6 +186,6 @@ export default defineConfig({
 // 🌍 Environment: Loads config based on ENV variable (dev-staging, pre-prod, etc.)
 // 🔐 Authentication: Uses StorageHelper to manage login state across test runs
 // 📊 QASE Integration: Conditionally loads based on QASE_MODE environment variable
-// 🖥️ Projects: 3 different configurations for various test scenarios
+// 🖥️ Projects: 3 different configurations for various test scenarios (ENV=mock: the offline "mock" project only)
 // 🔍 Debugging: Screenshots, videos, and traces captured on failures
 // 🚀 Performance: Optimized settings for both local development and CI/CD
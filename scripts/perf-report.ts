@@ -0,0 +1,92 @@
+import fs from 'fs';
+import path from 'path';
+import { RunLogger, RUN_LOG_DIR } from '../src/utils/runLogger';
+import { getEnvName } from '../src/config/appConfig';
+import {
+  PERF_DIR, BASELINE_RUNS, REGRESSION_THRESHOLD,
+  collectTimings, compareWithBaseline, loadBaseline, saveToBaseline,
+} from '../src/utils/performanceHelper';
+import { RunLogEntry } from '../src/type/RunLog';
+import { StepTrend } from '../src/type/PerformanceBudget';
+
+/**
+ * Performance trend report
+ * - Takes the @TrackTime durations of a run (default: latest merged run in build/logs)
+ * - Compares each step's p50 / p90 with the baseline of the last PERF_BASELINE_RUNS runs of the same ENV
+ * - Flags steps whose p90 is more than PERF_REGRESSION_THRESHOLD slower (default 0.2 = 20%)
+ * - Adds the run to the baseline (PERF_SAVE_BASELINE=false to skip)
+ *
+ * Usage:
+ *   ENV=dev-staging npm run report:perf
+ *   ENV=pre-prod PERF_RUN_ID=1760000000000 PERF_FAIL_ON_REGRESSION=true npm run report:perf
+ */
+function latestRunId(): string | undefined {
+  if (!fs.existsSync(RUN_LOG_DIR)) return undefined;
+  return fs.readdirSync(RUN_LOG_DIR, { withFileTypes: true })
+    .filter(d => d.isDirectory() && d.name.startsWith('run.'))
+    .map(d => d.name.replace(/^run\./, ''))
+    .sort()
+    .pop();
+}
+
+function readRunEntries(runId: string): RunLogEntry[] {
+  const runDir = path.join(RUN_LOG_DIR, `run.${runId}`);
+  if (!fs.existsSync(runDir)) return RunLogger.readRun(runId); // not merged yet
+  return fs.readdirSync(runDir)
+    .filter(f => f.endsWith('.jsonl'))
+    .flatMap(f => fs.readFileSync(path.join(runDir, f), 'utf-8').split('\n'))
+    .filter(line => line.trim())
+    .map(line => JSON.parse(line) as RunLogEntry);
+}
+
+function toMarkdown(env: string, runId: string, trends: StepTrend[], baselineRuns: number): string {
+  const fmt = (ms?: number) => (ms === undefined ? '–' : `${(ms / 1000).toFixed(2)}s`);
+  const lines = [
+    `## ⏱️ Performance trend — ${env} (run ${runId})`,
+    '',
+    `Baseline: last ${baselineRuns} run(s) · regression when p90 is more than ${Math.round(REGRESSION_THRESHOLD * 100)}% slower`,
+    '',
+    '| Step | Calls | p50 | p90 | Baseline p50 | Baseline p90 | Δ p90 | |',
+    '|------|------:|----:|----:|-------------:|-------------:|------:|-|',
+    ...trends.map(t => `| ${t.step} | ${t.samples} | ${fmt(t.p50)} | ${fmt(t.p90)} | ${fmt(t.baselineP50)} | ${fmt(t.baselineP90)} | ${
+      t.change === undefined ? 'new' : `${t.change > 0 ? '+' : ''}${Math.round(t.change * 100)}%`
+    } | ${t.regression ? '🔺 regression' : '✅'} |`),
+  ];
+  return lines.join('\n') + '\n';
+}
+
+(() => {
+  const env = getEnvName();
+  const runId = process.env.PERF_RUN_ID || latestRunId();
+  if (!runId) {
+    console.error(`❌ No run logs found in ${RUN_LOG_DIR}. Run the tests first.`);
+    process.exit(1);
+  }
+
+  const current = collectTimings(readRunEntries(runId), runId, env);
+  if (Object.keys(current.steps).length === 0) {
+    console.warn(`⚠️ Run ${runId} has no @TrackTime timings`);
+    return;
+  }
+
+  const baseline = loadBaseline(env);
+  const trends = compareWithBaseline(current, baseline);
+  const markdown = toMarkdown(env, runId, trends, baseline.filter(r => r.runId !== runId).length);
+  console.log(markdown);
+
+  fs.mkdirSync(PERF_DIR, { recursive: true });
+  const reportFile = path.join(PERF_DIR, `perf-report.${env}.md`);
+  fs.writeFileSync(reportFile, markdown, 'utf-8');
+  console.log(`📊 Report written to ${reportFile}`);
+
+  if (process.env.PERF_SAVE_BASELINE !== 'false') {
+    saveToBaseline(current, BASELINE_RUNS);
+    console.log(`🗄️ Run ${runId} added to baseline (${env}, keeping last ${BASELINE_RUNS})`);
+  }
+
+  const regressions = trends.filter(t => t.regression);
+  if (regressions.length > 0) {
+    console.warn(`🔺 ${regressions.length} step(s) slower than baseline: ${regressions.map(r => r.step).join(', ')}`);
+    if (process.env.PERF_FAIL_ON_REGRESSION === 'true') process.exit(1);
+  }
+})();
@@ -0,0 +1,62 @@
+import fs from 'fs';
+import path from 'path';
+import { QaseCaseClient } from '../src/api/QaseCaseClient';
+import { findSpecFiles, NON_QASE_SPEC_DIRS, parseSpecFile } from '../src/utils/qaseSpecParser';
+import { lintSpecCases, loadLintConfig } from '../src/utils/qaseLint';
+import { QaseLintReport } from '../src/type/QaseLint';
+
+/**
+ * Lint Qase metadata in specs (static, nothing runs)
+ * - Duplicate / placeholder Qase IDs, tests without an ID, tags outside the allowed list, title mismatches
+ * - Prints a JSON report on stdout (QASE_LINT_FORMAT=text for a readable list), exits 1 when a rule at "error" fails
+ * - QASE_LINT_REMOTE=true also compares titles with the Qase cases (needs the Qase config, see qase:sync)
+ *
+ * Usage:
+ *   npm run lint:qase
+ *   QASE_LINT_FORMAT=text QASE_LINT_PATHS=tests/scheduling npm run lint:qase
+ *   QASE_LINT_OUT=build/qase-lint.json npm run lint:qase
+ */
+(async () => {
+  const specPaths = (process.env.QASE_LINT_PATHS || 'tests').split(',').map(p => p.trim()).filter(Boolean);
+  const config = loadLintConfig();
+  // tests/mock specs are framework self-tests, not Qase cases
+  const files = findSpecFiles(specPaths, NON_QASE_SPEC_DIRS);
+  const cases = files.flatMap(file => parseSpecFile(file));
+
+  const qaseTitles = new Map<number, string>();
+  if (process.env.QASE_LINT_REMOTE === 'true') {
+    const client = QaseCaseClient.fromEnvironment();
+    for (const id of new Set(cases.flatMap(c => c.ids))) {
+      const remote = await client.getCase(id);
+      if (remote?.title) qaseTitles.set(id, remote.title);
+    }
+  }
+
+  const issues = lintSpecCases(cases, config, qaseTitles);
+  const report: QaseLintReport = {
+    generatedAt: new Date().toISOString(),
+    files: files.length,
+    tests: cases.length,
+    errors: issues.filter(i => i.severity === 'error').length,
+    warnings: issues.filter(i => i.severity === 'warn').length,
+    issues,
+  };
+
+  if (process.env.QASE_LINT_OUT) {
+    fs.mkdirSync(path.dirname(process.env.QASE_LINT_OUT), { recursive: true });
+    fs.writeFileSync(process.env.QASE_LINT_OUT, JSON.stringify(report, null, 2), 'utf-8');
+  }
+
+  if (process.env.QASE_LINT_FORMAT === 'text') {
+    for (const issue of issues) {
+      console.log(`${issue.severity === 'error' ? '❌' : '⚠️'} ${issue.file}:${issue.line} [${issue.rule}] ${issue.message}`);
+    }
+    console.log(`📋 ${report.tests} test(s) in ${report.files} file(s): ${report.errors} error(s), ${report.warnings} warning(s)`);
+  } else {
+    console.log(JSON.stringify(report, null, 2));
+  }
+  if (report.errors > 0) process.exit(1);
+})().catch(error => {
+  console.error(`❌ Qase lint failed: ${error.message}`);
+  process.exit(2);
+});
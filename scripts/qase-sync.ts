@@ -0,0 +1,169 @@
+import fs from 'fs';
+import path from 'path';
+import { TestCase, TestStep, TestStepCreate } from 'qaseio';
+import { QaseCaseClient } from '../src/api/QaseCaseClient';
+import { NON_QASE_SPEC_DIRS, parseSpecFiles } from '../src/utils/qaseSpecParser';
+import { getConfig } from '../src/config/appConfig';
+import { CaseFieldChange, CaseSyncAction, CaseSyncEntry, CaseSyncReport, SpecCase, SpecStep, SyncedField } from '../src/type/QaseCase';
+
+/**
+ * Sync Qase cases from spec metadata
+ * 1. Parse specs (TypeScript compiler API): qase ID, title, description, pre/postconditions, tags,
+ *    test.step titles (+ expected result / data of qaseStep steps)
+ * 2. Compare with the Qase case: update changed fields, create cases for tests without a qase ID
+ * 3. Write the diff to build/qase-sync/diff.<project>.json (QASE_SYNC_OUT to override)
+ *
+ * Only fields written in the spec are synced: a test without qase.fields() keeps its Qase description.
+ *
+ * Usage:
+ *   QASE_MODE=testops npm run qase:sync:dry                         # diff only, nothing written to Qase
+ *   QASE_MODE=testops npm run qase:sync
+ *   QASE_TESTOPS_API_HOST=http://localhost:4010 QASE_TESTOPS_API_TOKEN=stub QASE_TESTOPS_PROJECT=PX npm run qase:sync
+ *   QASE_SYNC_PATHS=tests/scheduling QASE_SYNC_CREATE=false npm run qase:sync
+ */
+
+type SyncedValues = Partial<Record<SyncedField, unknown>>;
+
+/** Spec side, in the shape compared with Qase (undefined = not managed by the spec) */
+function specValues(spec: SpecCase): SyncedValues {
+  return {
+    title: spec.title,
+    description: spec.description,
+    preconditions: spec.preconditions,
+    postconditions: spec.postconditions,
+    tags: spec.tags.length > 0 ? [...spec.tags].sort() : undefined,
+    steps: spec.steps.length > 0 ? toQaseSteps(spec.steps) : undefined,
+  };
+}
+
+function qaseValues(remote: TestCase): SyncedValues {
+  return {
+    title: remote.title ?? '',
+    description: remote.description ?? undefined,
+    preconditions: remote.preconditions ?? undefined,
+    postconditions: remote.postconditions ?? undefined,
+    tags: (remote.tags ?? []).map(t => t.title ?? '').filter(Boolean).sort(),
+    steps: toQaseSteps((remote.steps ?? []).map(toSpecStep)),
+  };
+}
+
+function toSpecStep(step: TestStep): SpecStep {
+  return {
+    title: step.action ?? '',
+    expected: step.expected_result || undefined,
+    data: step.data || undefined,
+    steps: ((step.steps ?? []) as TestStep[]).map(toSpecStep),
+    line: 0,
+  };
+}
+
+/** Steps in the Qase shape, without empty fields, so both sides compare as JSON */
+function toQaseSteps(steps: SpecStep[]): TestStepCreate[] {
+  return steps.map(s => ({
+    action: s.title,
+    ...(s.expected ? { expected_result: s.expected } : {}),
+    ...(s.data ? { data: s.data } : {}),
+    ...(s.steps.length > 0 ? { steps: toQaseSteps(s.steps) } : {}),
+  }));
+}
+
+function diff(spec: SyncedValues, remote: SyncedValues): Partial<Record<SyncedField, CaseFieldChange>> {
+  const changes: Partial<Record<SyncedField, CaseFieldChange>> = {};
+  for (const field of Object.keys(spec) as SyncedField[]) {
+    if (spec[field] === undefined) continue;
+    if (JSON.stringify(spec[field]) !== JSON.stringify(remote[field] ?? (field === 'tags' || field === 'steps' ? [] : ''))) {
+      changes[field] = { qase: remote[field] ?? null, spec: spec[field] };
+    }
+  }
+  return changes;
+}
+
+/** Qase payload for the given fields of a spec case */
+function toPayload(spec: SpecCase, fields: SyncedField[]) {
+  const payload: Record<string, unknown> = {};
+  for (const field of fields) {
+    if (field === 'steps') payload.steps = toQaseSteps(spec.steps);
+    else if (field === 'tags') payload.tags = spec.tags;
+    else payload[field] = spec[field];
+  }
+  return payload;
+}
+
+async function syncCase(client: QaseCaseClient, spec: SpecCase, id: number | undefined, dryRun: boolean, create: boolean): Promise<CaseSyncEntry> {
+  const entry: CaseSyncEntry = { action: 'unchanged', id, title: spec.title, file: spec.file, line: spec.line, changes: {} };
+  const values = specValues(spec);
+
+  if (id === undefined) {
+    entry.changes = diff(values, {});
+    if (!create) return { ...entry, action: 'notFound', error: 'No qase ID in spec (QASE_SYNC_CREATE=false)' };
+    if (spec.title.includes('${')) {
+      // generated in a loop: one Qase case per generated test cannot be created from source
+      return { ...entry, action: 'notFound', error: 'No qase ID and the title is built at runtime: link it with qase(id, ...) by hand' };
+    }
+    entry.action = 'create';
+    if (!dryRun) {
+      entry.id = await client.createCase({
+        ...(toPayload(spec, Object.keys(entry.changes) as SyncedField[]) as { title: string }),
+        automation: 2, // automated
+      });
+      console.log(`🆕 Created case ${client.project}-${entry.id} for "${spec.title}" → add qase(${entry.id}, ...) to ${spec.file}:${spec.line}`);
+    }
+    return entry;
+  }
+
+  const remote = await client.getCase(id);
+  if (!remote) {
+    return { ...entry, action: 'notFound', error: `Case ${client.project}-${id} does not exist in Qase` };
+  }
+  entry.changes = diff(values, qaseValues(remote));
+  const fields = Object.keys(entry.changes) as SyncedField[];
+  if (fields.length === 0) return entry;
+
+  entry.action = 'update';
+  if (!dryRun) {
+    await client.updateCase(id, toPayload(spec, fields));
+    console.log(`✏️ Updated case ${client.project}-${id}: ${fields.join(', ')}`);
+  }
+  return entry;
+}
+
+(async () => {
+  const dryRun = process.env.QASE_SYNC_DRY_RUN === 'true';
+  const create = process.env.QASE_SYNC_CREATE !== 'false';
+  const specPaths = (process.env.QASE_SYNC_PATHS || 'tests').split(',').map(p => p.trim()).filter(Boolean);
+
+  const client = QaseCaseClient.fromEnvironment(getConfig().env);
+  const specCases = parseSpecFiles(specPaths, process.cwd(), NON_QASE_SPEC_DIRS);
+  console.log(`🔎 Found ${specCases.length} test(s) in ${specPaths.join(', ')}${dryRun ? ' (dry run)' : ''}`);
+
+  const cases: CaseSyncEntry[] = [];
+  for (const spec of specCases) {
+    // A test linked to several cases keeps all of them in sync
+    for (const id of spec.ids.length > 0 ? spec.ids : [undefined]) {
+      try {
+        cases.push(await syncCase(client, spec, id, dryRun, create));
+      } catch (error) {
+        cases.push({ action: 'error', id, title: spec.title, file: spec.file, line: spec.line, changes: {}, error: (error as Error).message });
+      }
+    }
+  }
+
+  const summary = { create: 0, update: 0, unchanged: 0, notFound: 0, error: 0 } as Record<CaseSyncAction, number>;
+  cases.forEach(c => summary[c.action]++);
+  const report: CaseSyncReport = { project: client.project, dryRun, generatedAt: new Date().toISOString(), summary, cases };
+
+  const outFile = process.env.QASE_SYNC_OUT || path.join('build', 'qase-sync', `diff.${client.project}.json`);
+  fs.mkdirSync(path.dirname(outFile), { recursive: true });
+  fs.writeFileSync(outFile, JSON.stringify(report, null, 2), 'utf-8');
+
+  for (const c of cases.filter(c => c.action === 'notFound' || c.action === 'error')) {
+    console.warn(`⚠️ ${c.file}:${c.line} "${c.title}": ${c.error}`);
+  }
+  const verb = dryRun ? 'would be ' : '';
+  console.log(`📋 ${summary.create} ${verb}created, ${summary.update} ${verb}updated, ${summary.unchanged} unchanged, ${summary.notFound} not found, ${summary.error} error(s)`);
+  console.log(`📝 Diff written to ${outFile}`);
+  if (summary.error > 0) process.exit(1);
+})().catch(error => {
+  console.error(`❌ Qase sync failed: ${error.message}`);
+  process.exit(1);
+});
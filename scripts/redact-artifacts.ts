@@ -0,0 +1,21 @@
+import fs from 'fs';
+import path from 'path';
+import { redactFiles } from '../src/utils/redactionHelper';
+
+/**
+ * Redact secrets in CI artifacts before they are zipped / uploaded
+ * - Rewrites text files (json, jsonl, md, txt, log, html, xml) in place with secrets masked
+ * - Binary files (screenshots, videos, traces) are left untouched
+ *
+ * Usage:
+ *   npx ts-node scripts/redact-artifacts.ts artifacts/scheduling-dev-staging-2025-01-01-10-00-00
+ */
+(() => {
+  const target = process.argv[2];
+  if (!target || !fs.existsSync(target)) {
+    console.error(`❌ Artifact folder not found: ${target}`);
+    process.exit(1);
+  }
+  const changed = redactFiles(path.resolve(target));
+  console.log(`🔒 Redacted secrets in ${changed} artifact file(s) under ${target}`);
+})();
@@ -2,18 +2,17 @@ import { chromium } from '@playwright/test';
 import { LoginAction } from '../src/utils/loginHelper';
 import { StorageHelper } from '../src/utils/storageHelper';
 import { loadConfig } from '../src/utils/configHelpers';
-import * as dotenv from 'dotenv';
-import path from 'path'
+import { getEnvName } from '../src/config/appConfig';
 
 (async () => {
-  const ENV = process.env.ENV?.trim() || 'dev-staging';
-  dotenv.config({ path: path.resolve(__dirname, `src/config/${ENV}.env`) });
+  const ENV = getEnvName();
       console.log(`🌍 Environment: ${ENV}`);
-      await loadConfig(ENV)
+      const config = await loadConfig(ENV)
   const browser = await chromium.launch();
   const page = await browser.newPage();
-  await LoginAction(page, process.env.USER_TYPE || 'admin');
+  const role = config.userType;
+  await LoginAction(page, role);
   await page.waitForURL('**/lightning/**');
-  await StorageHelper.saveStorageState(page,ENV);
+  await StorageHelper.saveStorageState(page, ENV, role);
   await browser.close();
 })();
@@ -0,0 +1,295 @@
+import { spawn } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { QaseAttachmentClient } from '../src/api/QaseAttachmentClient';
+import { getConfig } from '../src/config/appConfig';
+import { LOG_FILE } from '../src/utils/runLogger';
+import { redactFiles } from '../src/utils/redactionHelper';
+import { zipDirectory } from '../src/utils/zipHelper';
+import globalSetup from '../setup/global-setup';
+
+/**
+ * CI test runner for Playwright + QASE integration
+ * - Builds the Playwright command from ENV, PROJECT, TAG and SHARD and exits with Playwright's exit code
+ * - SHARDS=N runs N shards in parallel on this machine (global setup once, before the shards); SHARD=i/N runs one shard (one CI job per shard)
+ * - Sharded runs write blob reports, merged into one HTML + JSON report with the playwright.config.ts
+ *   reporters (Qase, flaky history, failure categories report once, for the whole run)
+ * - Then: run summary (scripts/run-summary.ts), artifacts copied, redacted and zipped with Node APIs
+ *
+ * Env:
+ *   ENV=dev-staging           PROJECT=scheduling[,order]      TAG=@Smoke[,@Regression] | @All
+ *   SHARDS=3                  3 shards in parallel locally, then merge
+ *   SHARD=2/3                 shard 2 of 3 only: blob report in blob-report/ for a later merge job
+ *   MERGE_ONLY=true           merge the blob reports in BLOB_DIR (default blob-report): the CI merge job
+ *   QASE_MODE, QASE_TESTOPS_API_TOKEN, QASE_TESTOPS_PROJECT
+ *
+ * Usage:
+ *   npm run test:ci
+ *   SHARDS=3 PROJECT=scheduling TAG=@Regression npm run test:ci
+ *   SHARD=1/3 npm run test:ci          (every shard job, upload blob-report/)
+ *   MERGE_ONLY=true npm run test:ci    (merge job, after downloading every blob-report/*.zip into blob-report/)
+ */
+
+interface Shard {
+  index: number;
+  total: number;
+}
+
+interface CiOptions {
+  env: string;
+  projects: string[];
+  tags: string[];
+  /** This job runs one shard of a CI matrix */
+  shard?: Shard;
+  /** Shards run in parallel by this process */
+  parallelShards: number;
+  mergeOnly: boolean;
+  blobDir: string;
+  runTitle: string;
+  qaseToken: string;
+  qaseProject: string;
+}
+
+const PLAYWRIGHT_CLI = require.resolve('@playwright/test/cli');
+const SHARD_DIR = path.join('build', 'shards');
+
+function log(message: string): void {
+  console.log(`\x1b[36m${message}\x1b[0m`);
+}
+
+// Never echo secrets passed on the command line
+function maskSecrets(text: string): string {
+  const secrets = [process.env.QASE_TESTOPS_API_TOKEN, process.env.SF_ACCESS_TOKEN].filter((s): s is string => Boolean(s));
+  return secrets.reduce((result, secret) => result.split(secret).join('***'), text);
+}
+
+/**
+ * Run a command without a shell, output streamed to the console
+ * @returns Exit code (1 when the process could not start or was killed)
+ */
+function run(command: string, args: string[], env: NodeJS.ProcessEnv = {}): Promise<number> {
+  log(`> ${maskSecrets([path.basename(command), ...args].join(' '))}`);
+  return new Promise(resolve => {
+    const child = spawn(command, args, { stdio: 'inherit', env: { ...process.env, ...env } });
+    child.on('error', error => {
+      console.warn(`⚠️ Cannot start ${path.basename(command)}: ${error.message}`);
+      resolve(1);
+    });
+    child.on('close', code => resolve(code ?? 1));
+  });
+}
+
+function playwright(args: string[], env: NodeJS.ProcessEnv = {}): Promise<number> {
+  return run(process.execPath, [PLAYWRIGHT_CLI, ...args], env);
+}
+
+// ---------- STEP 1. Collect envs ----------
+function readOptions(timestamp: string): CiOptions {
+  const list = (value: string) => value.split(',').map(v => v.trim()).filter(Boolean);
+  const env = process.env.ENV || 'dev-staging';
+  const projects = list(process.env.PROJECT || 'scheduling');
+  const tags = list(process.env.TAG || '@Smoke');
+
+  let shard: Shard | undefined;
+  if (process.env.SHARD) {
+    const match = process.env.SHARD.match(/^(\d+)\/(\d+)$/);
+    if (!match || Number(match[1]) < 1 || Number(match[1]) > Number(match[2])) {
+      throw new Error(`❌ SHARD must look like "2/4" (got "${process.env.SHARD}")`);
+    }
+    shard = { index: Number(match[1]), total: Number(match[2]) };
+  }
+
+  const parallelShards = Number(process.env.SHARDS || 1);
+  if (!Number.isInteger(parallelShards) || parallelShards < 1) {
+    throw new Error(`❌ SHARDS must be a positive integer (got "${process.env.SHARDS}")`);
+  }
+  if (shard && parallelShards > 1) {
+    throw new Error('❌ Use either SHARD (one shard per CI job) or SHARDS (parallel shards on this machine), not both');
+  }
+
+  return {
+    env,
+    projects,
+    tags,
+    shard,
+    parallelShards,
+    mergeOnly: process.env.MERGE_ONLY === 'true',
+    blobDir: process.env.BLOB_DIR || 'blob-report',
+    runTitle: `${projects.join('+')}-${env}-${timestamp}`,
+    qaseToken: process.env.QASE_TESTOPS_API_TOKEN || '',
+    qaseProject: process.env.QASE_TESTOPS_PROJECT || projects[0],
+  };
+}
+
+/** `playwright test` arguments: projects, tag filter, shard */
+function testArgs(options: CiOptions, shard?: Shard): string[] {
+  const args = ['test', ...options.projects.map(project => `--project=${project}`)];
+  if (!options.tags.includes('@All')) {
+    args.push('--grep', options.tags.join('|'));
+  }
+  if (shard) {
+    // Blob report for the merge + live console output (the config reporters run once, on merge)
+    args.push(`--shard=${shard.index}/${shard.total}`, '--reporter=list,blob');
+  }
+  return args;
+}
+
+// ---------- STEP 3. Run Playwright ----------
+/**
+ * N shards in parallel, each with its own run ID, output folder, run logs and blob report
+ * - Global setup (login, storage state, API session) runs once here: N shards would log in N times
+ *   and write the same storage file at once
+ * - Run IDs stay epoch numbers (base + shard - 1): test data names and cleanup rely on them
+ * @returns First non-zero exit code of the shards (0 when all passed)
+ */
+async function runParallelShards(options: CiOptions): Promise<number> {
+  const baseRunId = Number(process.env.TEST_RUN_ID || Date.now());
+  fs.rmSync(SHARD_DIR, { recursive: true, force: true });
+
+  process.env.ENV = options.env;
+  await globalSetup();
+
+  const codes = await Promise.all(Array.from({ length: options.parallelShards }, (_, i) => {
+    const shard = { index: i + 1, total: options.parallelShards };
+    const shardDir = path.join(SHARD_DIR, `shard-${shard.index}`);
+    return playwright([...testArgs(options, shard), `--output=${path.join(shardDir, 'test-results')}`], {
+      TEST_RUN_ID: String(baseRunId + i),
+      SKIP_GLOBAL_SETUP: 'true',
+      // Own run log folder: each shard's teardown merges and prunes it without racing the others
+      RUN_LOG_DIR: path.join(shardDir, 'logs'),
+      LOG_FILE: path.join(shardDir, 'test-logs.json'),
+      PLAYWRIGHT_BLOB_OUTPUT_DIR: path.join(shardDir, 'blob-report'),
+    });
+  }));
+  codes.forEach((code, i) => console.log(`${code === 0 ? '✅' : '❌'} Shard ${i + 1}/${options.parallelShards} exited with ${code}`));
+
+  // One blob folder to merge, one step log for the run summary
+  fs.rmSync(options.blobDir, { recursive: true, force: true });
+  fs.mkdirSync(options.blobDir, { recursive: true });
+  const stepLogs: string[] = [];
+  for (let index = 1; index <= options.parallelShards; index++) {
+    const shardDir = path.join(SHARD_DIR, `shard-${index}`);
+    const blobs = path.join(shardDir, 'blob-report');
+    if (fs.existsSync(blobs)) {
+      fs.readdirSync(blobs).filter(f => f.endsWith('.zip')).forEach(f => fs.copyFileSync(path.join(blobs, f), path.join(options.blobDir, f)));
+    }
+    const stepLog = path.join(shardDir, 'test-logs.json');
+    if (fs.existsSync(stepLog)) stepLogs.push(fs.readFileSync(stepLog, 'utf-8'));
+  }
+  fs.writeFileSync(LOG_FILE, stepLogs.join(''), 'utf-8');
+
+  return codes.find(code => code !== 0) ?? 0;
+}
+
+/** Blob reports → one report with the reporters of playwright.config.ts (html, json, Qase, ...) */
+async function mergeReports(options: CiOptions): Promise<number> {
+  const blobs = fs.existsSync(options.blobDir) ? fs.readdirSync(options.blobDir).filter(f => f.endsWith('.zip')) : [];
+  if (blobs.length === 0) {
+    console.error(`❌ No blob reports to merge in ${options.blobDir}`);
+    return 1;
+  }
+  log(`🔀 Merging ${blobs.length} blob report(s) from ${options.blobDir}`);
+  const code = await playwright(['merge-reports', '--config', 'playwright.config.ts', options.blobDir]);
+  if (code !== 0) return code;
+
+  // merge-reports exits 0 whatever the tests did: the merged results decide
+  const results = fs.existsSync('test-results.json') ? JSON.parse(fs.readFileSync('test-results.json', 'utf-8')) : undefined;
+  return (results?.stats?.unexpected ?? 0) > 0 ? 1 : 0;
+}
+
+// ---------- STEP 4. Collect reports ----------
+function collectArtifacts(outputDir: string): void {
+  const sources = [
+    'playwright-report',
+    '.playwright-report',
+    'test-results',
+    'test-results.json',
+    'test-logs.json',
+    'blob-report',
+    'build/logs',
+    'build/shards',
+    'build/flaky-report.md',
+    'build/flaky-report.json',
+    'build/failure-summary.md',
+    'build/failure-summary.json',
+    'build/quarantine-report.md',
+    'build/summary',
+  ].filter(source => fs.existsSync(source));
+
+  if (sources.length === 0) {
+    console.warn('⚠️ No report folders found');
+    return;
+  }
+  fs.mkdirSync(outputDir, { recursive: true });
+  for (const source of sources) {
+    fs.cpSync(source, path.join(outputDir, path.basename(source)), { recursive: true });
+  }
+  log(`📁 Collected ${sources.join(', ')}`);
+}
+
+(async () => {
+  const timestamp = new Date().toISOString().replace(/[:T]/g, '-').split('.')[0];
+  const options = readOptions(timestamp);
+
+  process.env.QASE_TESTOPS_RUN_TITLE = options.runTitle;
+  process.env.QASE_TESTOPS_PROJECT = options.qaseProject;
+  process.env.QASE_CAPTURE_LOGS = 'false';
+
+  // ---------- STEP 2. Show summary ----------
+  console.log('\n=== 🧪 Test Run Configuration ===');
+  console.log(`ENVIRONMENT : ${options.env}`);
+  console.log(`PROJECT     : ${options.projects.join(', ')}`);
+  console.log(`TAG         : ${options.tags.join(', ')}`);
+  console.log(`SHARDING    : ${options.mergeOnly ? 'merge only' : options.shard ? `shard ${options.shard.index}/${options.shard.total}` : `${options.parallelShards} parallel shard(s)`}`);
+  console.log(`RUN_TITLE   : ${options.runTitle}`);
+  console.log(`QASE_PROJECT: ${options.qaseProject}`);
+  console.log('=================================\n');
+
+  let exitCode: number;
+  if (options.mergeOnly) {
+    exitCode = await mergeReports(options);
+  } else if (options.shard) {
+    // One shard of a CI matrix: the merge job builds the reports
+    exitCode = await playwright(testArgs(options, options.shard));
+  } else if (options.parallelShards > 1) {
+    const testsCode = await runParallelShards(options);
+    const mergeCode = await mergeReports(options);
+    exitCode = testsCode || mergeCode;
+  } else {
+    exitCode = await playwright(testArgs(options));
+  }
+
+  // ---------- STEP 3b. Readable summary + JUnit XML ----------
+  if (!options.shard && fs.existsSync('test-results.json')) {
+    await run(process.execPath, [require.resolve('ts-node/dist/bin'), 'scripts/run-summary.ts']);
+  }
+
+  const name = options.shard ? `${options.runTitle}-shard-${options.shard.index}-of-${options.shard.total}` : options.runTitle;
+  const outputDir = path.resolve('artifacts', name);
+  const zipFile = `${outputDir}.zip`;
+  collectArtifacts(outputDir);
+
+  if (fs.existsSync(outputDir)) {
+    // ---------- STEP 4b. Redact secrets in collected artifacts ----------
+    console.log(`🔒 Redacted secrets in ${redactFiles(outputDir)} artifact file(s)`);
+
+    // ---------- STEP 5. Zip artifacts ----------
+    console.log(`🗜️ Zipped ${zipDirectory(outputDir, zipFile)} file(s) into ${path.relative(process.cwd(), zipFile)}`);
+
+    // ---------- STEP 6. (Optional) Upload to QASE via API ----------
+    if (options.qaseToken) {
+      try {
+        const hash = await new QaseAttachmentClient(options.qaseToken, options.qaseProject, getConfig(options.env).qase.host).uploadAttachment(zipFile);
+        console.log(`📤 Uploaded ${path.basename(zipFile)} to QASE project ${options.qaseProject} (${hash})`);
+      } catch (error) {
+        console.warn(maskSecrets(`⚠️ Upload to QASE failed: ${(error as Error).message}`));
+      }
+    }
+  }
+
+  console.log(`${exitCode === 0 ? '✅' : '❌'} Done (exit code ${exitCode}). Artifacts: ${fs.existsSync(zipFile) ? path.relative(process.cwd(), zipFile) : 'none'}`);
+  process.exitCode = exitCode;
+})().catch(error => {
+  console.error(maskSecrets(`❌ CI run failed: ${error.message}`));
+  process.exitCode = 2;
+});
@@ -0,0 +1,54 @@
+import fs from 'fs';
+import path from 'path';
+import { getConfig, getEnvName } from '../src/config/appConfig';
+import { LOG_FILE } from '../src/utils/runLogger';
+import { buildRunSummary, readResults, readStepLog, toJUnit, toMarkdown } from '../src/utils/runSummary';
+
+/**
+ * Run summary for reviewers and CI
+ * - Reads test-results.json (json reporter) and the merged step log (test-logs.json)
+ * - Writes build/summary/summary.md (counts per project / tag, failed tests + Qase links, slowest steps),
+ *   summary.json and junit.xml
+ * - Appends the Markdown to $GITHUB_STEP_SUMMARY when it is set
+ *
+ * Usage:
+ *   npm run report:summary
+ *   SUMMARY_RESULTS=artifacts/run/test-results.json SUMMARY_OUT_DIR=artifacts/run/summary npm run report:summary
+ *   SUMMARY_TOP_STEPS=20 npm run report:summary
+ */
+(() => {
+  const env = getEnvName();
+  const resultsFile = process.env.SUMMARY_RESULTS || 'test-results.json';
+  const outputDir = process.env.SUMMARY_OUT_DIR || path.join('build', 'summary');
+  if (!fs.existsSync(resultsFile)) {
+    console.error(`❌ ${resultsFile} not found. Run the tests with the json reporter first.`);
+    process.exit(1);
+  }
+
+  const summary = buildRunSummary(readResults(resultsFile), readStepLog(process.env.SUMMARY_STEP_LOG || LOG_FILE), {
+    env,
+    topSteps: Number(process.env.SUMMARY_TOP_STEPS || 10),
+  });
+  const markdown = toMarkdown(summary, { qaseProject: qaseProject(env), qaseUrl: process.env.SUMMARY_QASE_URL });
+
+  fs.mkdirSync(outputDir, { recursive: true });
+  fs.writeFileSync(path.join(outputDir, 'summary.md'), markdown, 'utf-8');
+  fs.writeFileSync(path.join(outputDir, 'summary.json'), JSON.stringify(summary, null, 2), 'utf-8');
+  fs.writeFileSync(path.join(outputDir, 'junit.xml'), toJUnit(summary), 'utf-8');
+  if (process.env.GITHUB_STEP_SUMMARY) {
+    fs.appendFileSync(process.env.GITHUB_STEP_SUMMARY, markdown, 'utf-8');
+  }
+
+  console.log(markdown);
+  console.log(`📄 Summary written to ${outputDir} (summary.md, summary.json, junit.xml)`);
+})();
+
+/** Qase project code for case links; the summary is still written without it */
+function qaseProject(env: string): string | undefined {
+  try {
+    return getConfig(env).qase.project;
+  } catch (error) {
+    console.warn(`⚠️ No Qase links: ${(error as Error).message.split('\n')[0]}`);
+    return undefined;
+  }
+}
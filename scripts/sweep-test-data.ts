@@ -0,0 +1,35 @@
+import { SalesforceClient } from '../src/api/SalesforceClient';
+import { TestDataRegistry } from '../src/utils/testDataRegistry';
+import { getConfig } from '../src/config/appConfig';
+
+/**
+ * Sweep test data left behind by previous (crashed) runs
+ * 1. Records listed in leftover registry files (build/test-data/registry.*.json)
+ * 2. Records whose name matches the marker pattern "<name> PWT-<epoch ms>" (testDataName) older than SWEEP_OLDER_THAN_HOURS
+ *
+ * Usage:
+ *   ENV=dev-staging npm run sweep:test-data
+ *   ENV=dev-staging SWEEP_DRY_RUN=true SWEEP_OLDER_THAN_HOURS=48 npm run sweep:test-data
+ */
+(async () => {
+  const ENV = getConfig().env;
+  const olderThanHours = Number(process.env.SWEEP_OLDER_THAN_HOURS || 24);
+  const dryRun = process.env.SWEEP_DRY_RUN === 'true';
+
+  console.log(`🌍 Environment: ${ENV}`);
+  console.log(`🧹 Sweeping test data older than ${olderThanHours}h${dryRun ? ' (dry run)' : ''}`);
+  const client = SalesforceClient.fromEnvironment(ENV);
+
+  if (!dryRun) {
+    const fromFiles = await TestDataRegistry.cleanupFiles(client);
+    console.log(`✅ Deleted ${fromFiles} record(s) from leftover registry files`);
+  }
+
+  const stale = await TestDataRegistry.sweepByNamePattern(client, olderThanHours, dryRun);
+  for (const record of stale) {
+    console.log(`   ${dryRun ? 'would delete' : 'deleted'} ${record.sobject} ${record.id} "${record.name}" (${record.createdAt})`);
+  }
+})().catch(error => {
+  console.error(`❌ Sweep failed: ${error.message}`);
+  process.exit(1);
+});
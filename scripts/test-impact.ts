@@ -0,0 +1,72 @@
+import { execFileSync, spawnSync } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { buildImportGraph, selectImpactedSpecs } from '../src/utils/testImpact';
+
+/**
+ * Specs impacted by changed files (static import graph, see src/utils/testImpact.ts)
+ * - Changed files: IMPACT_CHANGED (comma / newline separated) or `git diff` against IMPACT_BASE
+ *   (merge base with HEAD, default HEAD) + uncommitted and untracked files
+ * - Prints the specs to run with the import chain that pulled each one in (IMPACT_FORMAT=list: paths only,
+ *   json: full report), IMPACT_OUT also writes the JSON report
+ * - IMPACT_RUN=true runs them with Playwright; extra arguments after `--` are passed on
+ *
+ * Usage:
+ *   npm run test:impact
+ *   IMPACT_BASE=origin/main npm run test:impact
+ *   IMPACT_CHANGED=src/base/BasePage.ts,src/locators/eventLocators.ts npm run test:impact
+ *   IMPACT_RUN=true IMPACT_BASE=origin/main npm run test:impact -- --project=scheduling --grep @Smoke
+ */
+
+function changedFiles(): string[] {
+  if (process.env.IMPACT_CHANGED !== undefined) {
+    return process.env.IMPACT_CHANGED.split(/[,\n]/).map(f => f.trim()).filter(Boolean);
+  }
+  const git = (...args: string[]) => execFileSync('git', args, { encoding: 'utf-8' }).split('\n').map(f => f.trim()).filter(Boolean);
+  const base = process.env.IMPACT_BASE || 'HEAD';
+  const [mergeBase] = git('merge-base', base, 'HEAD');
+  return [...git('diff', '--name-only', mergeBase), ...git('ls-files', '--others', '--exclude-standard')];
+}
+
+try {
+  const roots = (process.env.IMPACT_ROOTS || 'tests').split(',').map(p => p.trim()).filter(Boolean);
+  const graph = buildImportGraph(roots);
+  const impact = selectImpactedSpecs(graph, changedFiles());
+
+  if (process.env.IMPACT_OUT) {
+    fs.mkdirSync(path.dirname(process.env.IMPACT_OUT), { recursive: true });
+    fs.writeFileSync(process.env.IMPACT_OUT, JSON.stringify({ generatedAt: new Date().toISOString(), ...impact }, null, 2), 'utf-8');
+  }
+
+  const format = process.env.IMPACT_FORMAT || 'text';
+  if (format === 'json') {
+    console.log(JSON.stringify(impact, null, 2));
+  } else if (format === 'list') {
+    impact.specs.forEach(spec => console.log(spec));
+  } else {
+    console.log(`📝 ${impact.changed.length} changed file(s), ${Object.keys(graph.imports).length} file(s) in the import graph of ${graph.specs.length} spec(s)`);
+    if (impact.runAll) {
+      console.log(`🌐 Every spec runs: ${impact.runAllReason}`);
+    } else {
+      for (const { spec, chain } of impact.impacted) {
+        console.log(`🎯 ${spec}${chain.length > 1 ? `\n     → ${chain.slice(1).join(' → ')}` : ' (changed)'}`);
+      }
+      if (impact.unrelated.length > 0) console.log(`➖ Not used by any spec: ${impact.unrelated.join(', ')}`);
+    }
+    console.log(`✅ ${impact.specs.length} of ${graph.specs.length} spec(s) to run`);
+  }
+
+  if (process.env.IMPACT_RUN === 'true') {
+    if (impact.specs.length === 0) {
+      console.log('⏭️ No impacted specs, nothing to run');
+    } else {
+      // Every spec: no file filter, so the projects' testMatch / grep decide as in a full run
+      const files = impact.runAll ? [] : impact.specs;
+      const result = spawnSync(process.execPath, [require.resolve('@playwright/test/cli'), 'test', ...files, ...process.argv.slice(2)], { stdio: 'inherit' });
+      process.exitCode = result.status ?? 1;
+    }
+  }
+} catch (error) {
+  console.error(`❌ Test impact failed: ${(error as Error).message}`);
+  process.exit(2);
+}
@@ -1,12 +1,10 @@
 import { chromium, FullConfig, Browser, Page } from '@playwright/test';
-import * as dotenv from 'dotenv';
-import path from 'path';
 import { execSync } from 'child_process';
 import { LoginAction } from '../src/utils/loginHelper';
 import { loadConfig, getOrgAlias } from '../src/utils/configHelpers';
-import { UserConstants } from "../src/constants/userConstants";
 import { StorageHelper } from '../src/utils/storageHelper';
-dotenv.config();
+import { getEnvName } from '../src/config/appConfig';
+import { CommonConstants } from '../src/constants/commonConstants';
 // Constants
 const TIMEOUTS = {
   LIGHTNING_LOAD: 30000, // Reduced from 60s
@@ -33,11 +31,10 @@ const BROWSER_ARGS = {
 
 
 /**
- * Load environment configuration
+ * Load and validate environment configuration (fails fast on missing/invalid keys)
  */
-async function loadEnvironmentConfig(ENV: string): Promise<void> {
-  dotenv.config({ path: path.resolve(__dirname, `../src/config/${ENV}.env`) });
-  await loadConfig(ENV);
+async function loadEnvironmentConfig(ENV: string) {
+  return loadConfig(ENV);
 }
 
 
@@ -69,6 +66,12 @@ async function attemptSfdxLogin(page: Page, alias: string, env: string): Promise
     await StorageHelper.saveStorageState(page, env);
     console.log(`✅ StorageState saved: ${StorageHelper.getStorageFilePath(env)}`);
 
+    // Keep the API session so the REST client can seed/clean data without the UI
+    StorageHelper.saveSession(
+      { instanceUrl: orgInfo.instanceUrl, accessToken: orgInfo.accessToken, username: orgInfo.username },
+      env
+    );
+
     return true;
   } catch (error: any) {
     console.error(`⚠️ SFDX login failed for alias ${alias}: ${error.message}`);
@@ -152,17 +155,28 @@ function parseSfdxOutput(rawOutput: string) {
 
 /**
  * Main global setup function
+ * - Also called once by scripts/run-ci.ts before parallel shards, which then run with SKIP_GLOBAL_SETUP=true
  */
-async function globalSetup(config: FullConfig): Promise<void> {
+async function globalSetup(config?: FullConfig): Promise<void> {
+  if (process.env.SKIP_GLOBAL_SETUP === 'true') {
+    console.log('⏭️ SKIP_GLOBAL_SETUP=true — login already done by the CI runner.');
+    return;
+  }
   console.log('🚀 Global setup starting...');
-  const ENV = process.env.ENV?.trim() || 'dev-staging';
- const SFDX_ALIAS = getOrgAlias(process.env.SFDX_ALIAS || 'myOrgAlias', ENV);
-  await loadEnvironmentConfig(ENV);
-  const userType = process.env.USER_TYPE || UserConstants.USR_DEFAULT;
+  const ENV = getEnvName();
+  const appConfig = await loadEnvironmentConfig(ENV);
+  const SFDX_ALIAS = getOrgAlias(appConfig.orgAlias, appConfig.env);
+  const userType = appConfig.userType;
 
   console.log(`🌍 ENV: ${ENV}`);
   console.log(`🔑 Alias: ${SFDX_ALIAS}`);
 
+  // Offline mock app (mock-app/server.ts): no org, no session to create
+  if (ENV === CommonConstants.MOCK) {
+    console.log('🧪 ENV=mock — skip login.');
+    return;
+  }
+
   // Check if storage refresh is needed
   const shouldRefresh = StorageHelper.shouldRefreshStorageState(ENV, true);
   if (!shouldRefresh) {
@@ -1,11 +1,39 @@
-import {FullConfig } from '@playwright/test';
+import { FullConfig } from '@playwright/test';
+import { SalesforceClient } from '../src/api/SalesforceClient';
+import { TestDataRegistry, getCleanupMode, getRunId } from '../src/utils/testDataRegistry';
+import { RunLogger } from '../src/utils/runLogger';
 
-async function globalTeardown(config: FullConfig) {
-    //await QaseReporterManager.completeRun();
-  console.log("afterAll");
+/**
+ * Main global teardown function
+ * - Deletes test data still tracked for this run (CLEANUP_MODE=global, or leftovers of failed per-test cleanup)
+ * - Merges the per-worker run logs (build/logs) into one ordered log per test
+ */
+async function globalTeardown(config: FullConfig): Promise<void> {
+  console.log('🧹 Global teardown starting...');
+  const runId = getRunId();
+  const leftovers = TestDataRegistry.loadFiles(runId);
 
-  console.log('✅ Global teardown done. (No browser to close, Playwright auto manages it)');
+  if (getCleanupMode() === 'none') {
+    console.log(`⏭️ CLEANUP_MODE=none — keeping test data of run ${runId}`);
+  } else if (leftovers.length === 0) {
+    console.log(`✅ No tracked test data left for run ${runId}`);
+  } else {
+    try {
+      const deleted = await TestDataRegistry.cleanupFiles(SalesforceClient.fromEnvironment(), runId);
+      console.log(`✅ Deleted ${deleted} tracked record(s) of run ${runId}`);
+    } catch (error) {
+      console.warn(`⚠️ Global cleanup failed: ${(error as Error).message}. Run "npm run sweep:test-data" later.`);
+    }
+  }
+
+  // Merge per-worker JSONL logs into one ordered log per test
+  try {
+    RunLogger.mergeRun(runId);
+  } catch (error) {
+    console.warn(`⚠️ Run log merge failed: ${(error as Error).message}`);
+  }
 
+  console.log('✅ Global teardown done. (No browser to close, Playwright auto manages it)');
 }
 
-export default globalTeardown;
\ No newline at end of file
+export default globalTeardown;
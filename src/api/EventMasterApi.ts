@@ -0,0 +1,106 @@
+import { SalesforceClient } from './SalesforceClient';
+import { EventData } from '../type/EventData';
+import { SObjectRecord } from '../type/SalesforceSession';
+import { EventMasterFields, SObjects } from '../constants/salesforceConstants';
+import { normalizeToArray } from '../utils/arrayHelper';
+import { testDataRegistry } from '../utils/testDataRegistry';
+
+/**
+ * API service: Event Master
+ * Provides Event Master CRUD on top of SalesforceClient, speaking `EventData`
+ * so specs can seed and clean preconditions without clicking through the UI.
+ *
+ * @example
+ * ```typescript
+ * const ids = await eventMasterApi.createEventMasters(eventsToUse);
+ * await eventMasterApi.deleteEventMasters(ids);
+ * ```
+ */
+export class EventMasterApi {
+  private readonly client: SalesforceClient;
+
+  constructor(client: SalesforceClient) {
+    this.client = client;
+  }
+
+  /**
+   * Convert EventData into Event Master API fields
+   * - Numeric UI strings ("5") are sent as numbers
+   * - Undefined optional fields are omitted
+   */
+  static toRecord(event: Partial<EventData>): Record<string, unknown> {
+    const record: Record<string, unknown> = {};
+    for (const [key, apiName] of Object.entries(EventMasterFields)) {
+      const value = event[key as keyof EventData];
+      if (value === undefined) continue;
+      record[apiName] = key === 'reminder' || key === 'maxEventPerStudent'
+        ? (value === '' ? null : Number(value))
+        : value;
+    }
+    return record;
+  }
+
+  /**
+   * Convert an Event Master record back into EventData
+   */
+  static fromRecord(record: SObjectRecord): EventData {
+    const toText = (value: unknown) => (value === null || value === undefined ? '' : String(value));
+    return {
+      eventMasterName: toText(record[EventMasterFields.eventMasterName]),
+      eventType: toText(record[EventMasterFields.eventType]),
+      sendTo: toText(record[EventMasterFields.sendTo]),
+      reminder: toText(record[EventMasterFields.reminder]),
+      maxEventPerStudent: toText(record[EventMasterFields.maxEventPerStudent]),
+      description: record[EventMasterFields.description] ?? undefined,
+    };
+  }
+
+  /**
+   * Create one Event Master
+   * @returns Record Id
+   */
+  async createEventMaster(event: EventData): Promise<string> {
+    if (!event?.eventMasterName?.trim()) {
+      throw new Error('Event Master Name is required');
+    }
+    const id = await this.client.create(SObjects.EVENT_MASTER, EventMasterApi.toRecord(event));
+    testDataRegistry.track({ sobject: SObjects.EVENT_MASTER, id, name: event.eventMasterName });
+    return id;
+  }
+
+  /**
+   * Create one or many Event Masters
+   * @returns Record Ids, in the same order as the input
+   */
+  async createEventMasters(events: EventData | EventData[]): Promise<string[]> {
+    const ids: string[] = [];
+    for (const event of normalizeToArray(events)) {
+      ids.push(await this.createEventMaster(event));
+    }
+    return ids;
+  }
+
+  /**
+   * Read an Event Master by Id
+   */
+  async getEventMaster(id: string): Promise<EventData> {
+    const record = await this.client.get(SObjects.EVENT_MASTER, id, Object.values(EventMasterFields));
+    return EventMasterApi.fromRecord(record);
+  }
+
+  /**
+   * Update some fields of an Event Master
+   */
+  async updateEventMaster(id: string, changes: Partial<EventData>): Promise<void> {
+    await this.client.update(SObjects.EVENT_MASTER, id, EventMasterApi.toRecord(changes));
+  }
+
+  /**
+   * Delete one or many Event Masters (already deleted records are ignored)
+   */
+  async deleteEventMasters(ids: string | string[]): Promise<void> {
+    for (const id of normalizeToArray(ids)) {
+      await this.client.delete(SObjects.EVENT_MASTER, id);
+    }
+  }
+}
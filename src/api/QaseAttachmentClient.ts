@@ -0,0 +1,61 @@
+import axios from 'axios';
+import FormData from 'form-data';
+import fs from 'fs';
+import path from 'path';
+import { AttachmentsApi, Configuration } from 'qaseio';
+import { getConfig, getEnvName } from '../config/appConfig';
+import { QaseCaseClient } from './QaseCaseClient';
+
+/**
+ * Qase API client: attachments
+ * Purpose:
+ * - Upload files (e.g. the zipped CI artifacts) to one Qase project through the `qaseio` client
+ * - The token only travels in the request header, never on a command line
+ *
+ * @example
+ * ```typescript
+ * const client = QaseAttachmentClient.fromEnvironment();
+ * const hash = await client.uploadAttachment('artifacts/scheduling-dev-staging.zip');
+ * ```
+ */
+export class QaseAttachmentClient {
+  private readonly attachments: AttachmentsApi;
+  readonly project: string;
+
+  constructor(token: string, project: string, host: string = 'api.qase.io') {
+    if (!token || !project) {
+      throw new Error('❌ Qase client requires QASE_TESTOPS_API_TOKEN and QASE_TESTOPS_PROJECT');
+    }
+    this.project = project;
+    // The generated multipart code calls getBoundary(): Node's global FormData has none
+    this.attachments = new AttachmentsApi(
+      new Configuration({ apiKey: token, basePath: QaseCaseClient.toBasePath(host), formDataCtor: FormData }),
+    );
+  }
+
+  /**
+   * Create a client from the env config (QASE_TESTOPS_API_TOKEN / QASE_TESTOPS_PROJECT / QASE_TESTOPS_API_HOST)
+   */
+  static fromEnvironment(environment: string = getEnvName()): QaseAttachmentClient {
+    const { token, project, host } = getConfig(environment).qase;
+    return new QaseAttachmentClient(token ?? '', project ?? '', host);
+  }
+
+  /**
+   * Upload a file
+   * @returns hash of the stored attachment
+   */
+  async uploadAttachment(filePath: string): Promise<string> {
+    const name = path.basename(filePath);
+    try {
+      const { data } = await this.attachments.uploadAttachment(this.project, [{ name, value: fs.createReadStream(filePath) }]);
+      const hash = data.result?.[0]?.hash;
+      if (!hash) throw new Error('response has no attachment hash');
+      return hash;
+    } catch (error) {
+      const response = axios.isAxiosError<{ errorMessage?: string; message?: string }>(error) ? error.response : undefined;
+      const detail = response?.data?.errorMessage ?? response?.data?.message ?? (error as Error).message;
+      throw new Error(`❌ Qase ${this.project}: cannot upload ${name}${response ? ` (HTTP ${response.status})` : ''}: ${detail}`);
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import axios from 'axios';
+import { CasesApi, Configuration, TestCase, TestCaseCreate, TestCaseUpdate } from 'qaseio';
+import { getConfig, getEnvName } from '../config/appConfig';
+
+/**
+ * Qase API client: test cases
+ * Purpose:
+ * - Read / create / update the cases of one Qase project through the `qaseio` client
+ * - Works against any base URL, so it can point at a local HTTP stub of the Qase API
+ *   (QASE_TESTOPS_API_HOST=http://localhost:4010)
+ *
+ * @example
+ * ```typescript
+ * const client = QaseCaseClient.fromEnvironment();
+ * const remote = await client.getCase(661);        // undefined when the case does not exist
+ * await client.updateCase(661, { title: 'New title' });
+ * ```
+ */
+export class QaseCaseClient {
+  private readonly cases: CasesApi;
+  readonly project: string;
+
+  constructor(token: string, project: string, host: string = 'api.qase.io') {
+    if (!token || !project) {
+      throw new Error('❌ Qase client requires QASE_TESTOPS_API_TOKEN and QASE_TESTOPS_PROJECT');
+    }
+    this.project = project;
+    this.cases = new CasesApi(new Configuration({ apiKey: token, basePath: QaseCaseClient.toBasePath(host) }));
+  }
+
+  /**
+   * Create a client from the env config (QASE_TESTOPS_API_TOKEN / QASE_TESTOPS_PROJECT / QASE_TESTOPS_API_HOST)
+   */
+  static fromEnvironment(environment: string = getEnvName()): QaseCaseClient {
+    const { token, project, host } = getConfig(environment).qase;
+    return new QaseCaseClient(token ?? '', project ?? '', host);
+  }
+
+  /**
+   * Same host rules as the Qase reporter, plus explicit http(s) URLs for local stubs
+   */
+  static toBasePath(host: string): string {
+    if (/^https?:\/\//.test(host)) return host.replace(/\/+$/, '');
+    if (['qase.io', 'api.qase.io'].includes(host)) return 'https://api.qase.io';
+    return `https://${host}`;
+  }
+
+  /**
+   * Get a case
+   * @returns undefined when the case does not exist (404)
+   */
+  async getCase(id: number): Promise<TestCase | undefined> {
+    try {
+      const { data } = await this.cases.getCase(this.project, id);
+      return data.result;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) return undefined;
+      throw this.toError(error, `get case ${id}`);
+    }
+  }
+
+  /**
+   * Create a case
+   * @returns ID of the created case
+   */
+  async createCase(testCase: TestCaseCreate): Promise<number> {
+    try {
+      const { data } = await this.cases.createCase(this.project, testCase);
+      const id = data.result?.id;
+      if (id === undefined) throw new Error('response has no case ID');
+      return id;
+    } catch (error) {
+      throw this.toError(error, `create case "${testCase.title}"`);
+    }
+  }
+
+  async updateCase(id: number, changes: TestCaseUpdate): Promise<void> {
+    try {
+      await this.cases.updateCase(this.project, id, changes);
+    } catch (error) {
+      throw this.toError(error, `update case ${id}`);
+    }
+  }
+
+  /** Turn Qase error payloads (`{ status: false, errorMessage }`) into readable errors */
+  private toError(error: unknown, action: string): Error {
+    const response = axios.isAxiosError<{ errorMessage?: string; message?: string }>(error) ? error.response : undefined;
+    const detail = response?.data?.errorMessage ?? response?.data?.message ?? (error as Error).message;
+    return new Error(`❌ Qase ${this.project}: cannot ${action}${response ? ` (HTTP ${response.status})` : ''}: ${detail}`);
+  }
+}
@@ -0,0 +1,112 @@
+import { expect } from '@playwright/test';
+import { SalesforceClient } from './SalesforceClient';
+import { EventMasterApi } from './EventMasterApi';
+import { EventData } from '../type/EventData';
+import { SObjectRecord } from '../type/SalesforceSession';
+import { EventMasterFields, SObjects } from '../constants/salesforceConstants';
+import { buildSelect } from '../utils/soqlHelper';
+
+export interface PollOptions {
+  /** Max time to wait for the org to reflect the change (default: 15000 ms) */
+  timeout?: number;
+
+  /** Poll intervals in ms (default: 500, 1000, 2000) */
+  intervals?: number[];
+}
+
+const DEFAULT_POLL: Required<PollOptions> = { timeout: 15000, intervals: [500, 1000, 2000] };
+
+/**
+ * Record verifier
+ * Purpose:
+ * - Assert what was actually persisted after a UI action, instead of trusting the toast
+ * - Runs SOQL through the org session and polls for eventual consistency
+ *
+ * @example
+ * ```typescript
+ * await recordVerifier.verifyEventMasterExists('Paid event 17xxx', {
+ *   eventType: 'Paid', reminder: '5', sendTo: 'Parent only',
+ * });
+ * await recordVerifier.verifyEventMasterNotExists('test delete 17xxx');
+ * ```
+ */
+export class RecordVerifier {
+  private readonly client: SalesforceClient;
+
+  constructor(client: SalesforceClient) {
+    this.client = client;
+  }
+
+  /**
+   * Poll a SOQL query until it returns the expected number of records
+   * @returns Records of the last successful poll
+   */
+  async waitForRecordCount<T extends SObjectRecord = SObjectRecord>(
+    soql: string,
+    expectedCount: number,
+    options: PollOptions = {}
+  ): Promise<T[]> {
+    const { timeout, intervals } = { ...DEFAULT_POLL, ...options };
+    let records: T[] = [];
+
+    await expect.poll(async () => {
+      records = await this.client.query<T>(soql);
+      return records.length;
+    }, { message: `Expected ${expectedCount} record(s) for: ${soql}`, timeout, intervals }).toBe(expectedCount);
+
+    return records;
+  }
+
+  /**
+   * Assert an Event Master with this name exists and its fields match
+   * @param eventMasterName - Exact record name
+   * @param expected - Fields to compare (only the given ones are checked)
+   * @returns The persisted Event Master
+   */
+  async verifyEventMasterExists(
+    eventMasterName: string,
+    expected: Partial<EventData> = {},
+    options: PollOptions = {}
+  ): Promise<EventData> {
+    const { timeout, intervals } = { ...DEFAULT_POLL, ...options };
+    const soql = this.eventMasterQuery(eventMasterName);
+    const keys = Object.keys(expected) as (keyof EventData)[];
+    let actual: EventData | undefined;
+
+    await expect.poll(async () => {
+      const [record] = await this.client.query(soql);
+      actual = record ? EventMasterApi.fromRecord(record) : undefined;
+      return actual ? this.pick(actual, keys) : null;
+    }, {
+      message: `Event Master "${eventMasterName}" should be persisted with ${JSON.stringify(expected)}`,
+      timeout,
+      intervals,
+    }).toEqual(this.pick(expected, keys));
+
+    console.log(`✅ Verified persisted Event Master "${eventMasterName}"`);
+    return actual!;
+  }
+
+  /**
+   * Assert no Event Master with this name exists (e.g. after delete)
+   */
+  async verifyEventMasterNotExists(eventMasterName: string, options: PollOptions = {}): Promise<void> {
+    await this.waitForRecordCount(this.eventMasterQuery(eventMasterName), 0, options);
+    console.log(`✅ Verified Event Master "${eventMasterName}" no longer exists`);
+  }
+
+  private eventMasterQuery(eventMasterName: string): string {
+    return buildSelect(SObjects.EVENT_MASTER, Object.values(EventMasterFields), {
+      [EventMasterFields.eventMasterName]: eventMasterName,
+    }, 1);
+  }
+
+  /** Keep only the compared keys, as strings, so the poll diff is field-by-field */
+  private pick(data: Partial<EventData>, keys: (keyof EventData)[]): Record<string, string> {
+    const picked: Record<string, string> = {};
+    for (const key of keys) {
+      picked[key] = data[key] === undefined || data[key] === null ? '' : String(data[key]);
+    }
+    return picked;
+  }
+}
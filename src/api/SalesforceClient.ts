@@ -0,0 +1,179 @@
+import axios, { AxiosError, AxiosInstance, AxiosRequestConfig } from 'axios';
+import { SalesforceConstants } from '../constants/salesforceConstants';
+import { SalesforceSession, SObjectRecord } from '../type/SalesforceSession';
+import { StorageHelper } from '../utils/storageHelper';
+import { getConfig, getEnvName } from '../config/appConfig';
+
+/** One entry of a Salesforce REST error payload: `[{ message, errorCode, fields }]` */
+type SalesforceErrorEntry = { message?: string; errorCode?: string; fields?: string[] };
+
+/**
+ * Failed Salesforce REST call
+ * - `status`: HTTP status (undefined when no response, EX: timeout)
+ * - `errorCode`: first Salesforce error code of the payload (EX: NOT_FOUND, INVALID_SESSION_ID)
+ */
+export class SalesforceApiError extends Error {
+  readonly status?: number;
+  readonly errorCode?: string;
+
+  constructor(message: string, status?: number, errorCode?: string) {
+    super(message);
+    this.name = 'SalesforceApiError';
+    this.status = status;
+    this.errorCode = errorCode;
+  }
+}
+
+/**
+ * Salesforce REST API client
+ * Purpose:
+ * - Create / read / update / delete SObject records without going through the UI
+ * - Reuse the session obtained by global setup (sf CLI) or the saved storage state
+ * - Works against any base URL, so it can point at a local HTTP stub server
+ *
+ * @example
+ * ```typescript
+ * const client = SalesforceClient.fromEnvironment('dev-staging');
+ * const id = await client.create('MANAERP__Event_Master__c', { Name: 'Demo' });
+ * await client.delete('MANAERP__Event_Master__c', id);
+ * ```
+ */
+export class SalesforceClient {
+  private readonly http: AxiosInstance;
+  readonly session: SalesforceSession;
+
+  constructor(session: SalesforceSession, apiVersion: string = SalesforceConstants.DEFAULT_API_VERSION) {
+    if (!session?.instanceUrl || !session?.accessToken) {
+      throw new Error('❌ Salesforce session requires instanceUrl and accessToken');
+    }
+    this.session = session;
+    this.http = axios.create({
+      baseURL: `${session.instanceUrl.replace(/\/+$/, '')}/services/data/${apiVersion}`,
+      timeout: SalesforceConstants.REQUEST_TIMEOUT,
+      headers: {
+        Authorization: `Bearer ${session.accessToken}`,
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+      },
+    });
+  }
+
+  /**
+   * Build a client from the session of an environment
+   * - An explicit session in the config (SF_INSTANCE_URL + SF_ACCESS_TOKEN) wins (CI / stub server)
+   * - Otherwise use the session saved by global setup or the storage state `sid` cookie
+   * - API version from the config (SF_API_VERSION)
+   * @param environment - Environment name (default: ENV or dev-staging)
+   */
+  static fromEnvironment(environment: string = getEnvName()): SalesforceClient {
+    const { apiVersion, instanceUrl, accessToken } = getConfig(environment).salesforce;
+    if (instanceUrl && accessToken) {
+      return new SalesforceClient({ instanceUrl, accessToken }, apiVersion);
+    }
+
+    const session = StorageHelper.loadSession(environment);
+    if (!session) {
+      throw new Error(
+        `❌ No Salesforce session for env '${environment}'. Run global setup (sf CLI or UI login) first.`
+      );
+    }
+    return new SalesforceClient(session, apiVersion);
+  }
+
+  /**
+   * Create a record
+   * @returns Id of the created record
+   */
+  async create(sobject: string, fields: Record<string, unknown>): Promise<string> {
+    const data = await this.request<{ id: string; success: boolean }>({
+      method: 'POST',
+      url: `/sobjects/${sobject}`,
+      data: fields,
+    });
+    console.log(`✅ Created ${sobject}: ${data.id}`);
+    return data.id;
+  }
+
+  /**
+   * Read a record by Id
+   * @param fields - Fields to return (default: all)
+   */
+  async get<T extends SObjectRecord = SObjectRecord>(sobject: string, id: string, fields?: string[]): Promise<T> {
+    return this.request<T>({
+      method: 'GET',
+      url: `/sobjects/${sobject}/${id}`,
+      params: fields?.length ? { fields: fields.join(',') } : undefined,
+    });
+  }
+
+  /**
+   * Update fields of a record
+   */
+  async update(sobject: string, id: string, fields: Record<string, unknown>): Promise<void> {
+    await this.request({ method: 'PATCH', url: `/sobjects/${sobject}/${id}`, data: fields });
+    console.log(`✅ Updated ${sobject}: ${id}`);
+  }
+
+  /**
+   * Delete a record
+   * @param ignoreMissing - Do not fail when the record is already deleted (default: true)
+   */
+  async delete(sobject: string, id: string, ignoreMissing = true): Promise<void> {
+    try {
+      await this.request({ method: 'DELETE', url: `/sobjects/${sobject}/${id}` });
+      console.log(`🗑️ Deleted ${sobject}: ${id}`);
+    } catch (error) {
+      if (ignoreMissing && error instanceof SalesforceApiError && error.status === 404) {
+        console.warn(`⚠️ ${sobject} ${id} already deleted`);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run a SOQL query and follow `nextRecordsUrl` until every record is fetched
+   */
+  async query<T extends SObjectRecord = SObjectRecord>(soql: string): Promise<T[]> {
+    type QueryResult = { records: T[]; done: boolean; nextRecordsUrl?: string };
+    let page = await this.request<QueryResult>({ method: 'GET', url: '/query', params: { q: soql } });
+    const records = [...page.records];
+
+    while (!page.done && page.nextRecordsUrl) {
+      // nextRecordsUrl is absolute from the instance root (/services/data/vXX.X/query/...)
+      page = await this.request<QueryResult>({
+        method: 'GET',
+        baseURL: this.session.instanceUrl.replace(/\/+$/, ''),
+        url: page.nextRecordsUrl,
+      });
+      records.push(...page.records);
+    }
+    return records;
+  }
+
+  /**
+   * Send a request and turn Salesforce error payloads into SalesforceApiError
+   */
+  private async request<T = unknown>(config: AxiosRequestConfig): Promise<T> {
+    try {
+      const response = await this.http.request<T>(config);
+      return response.data;
+    } catch (err) {
+      if (!axios.isAxiosError(err)) throw err;
+      const error = err as AxiosError<unknown>;
+      const status = error.response?.status;
+      const body = error.response?.data;
+      // Salesforce returns: [{ message, errorCode, fields }]
+      const entries = Array.isArray(body) ? (body as SalesforceErrorEntry[]) : [];
+      const detail = entries.length > 0
+        ? entries.map(e => `${e.errorCode}: ${e.message}`).join('; ')
+        : body ? JSON.stringify(body) : error.message;
+
+      throw new SalesforceApiError(
+        `❌ Salesforce ${config.method} ${config.url} failed${status ? ` (${status})` : ''}: ${detail}`,
+        status,
+        entries[0]?.errorCode
+      );
+    }
+  }
+}
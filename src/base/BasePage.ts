@@ -1,21 +1,37 @@
 import { Page, Locator, expect } from '@playwright/test';
 import { LocatorOptions } from '@src/type/LocatorOptions';
 import { SiteLocators } from '../locators/siteLocators';
+import { DataTableLocators } from '../locators/dataTableLocators';
 import { normalizeWhitespace, escapeRegExp, normalizeToString } from '../utils/stringHelper';
 import { normalizeLocator } from '../utils/locatorHelper';
 import { normalizeToArray } from '../utils/arrayHelper';
+import { trackLightningRequests, waitForLightningIdle } from '../utils/lightningIdleHelper';
+import { trackPageDiagnostics } from '../utils/pageDiagnostics';
+import { LightningIdleOptions } from '../type/LightningIdle';
+import { softAssert } from '../utils/softAssert';
 
 /**
  * BasePage
  * - Acts as the parent class for all Page Objects
  * - Provides common actions: click, type, verify, select dropdown...
  * - Helps keep code clean, reduces duplication, and improves maintainability
+ * - Verifications are soft inside `softAssert.scope()` (failures collected, thrown at the end of the scope)
  */
 export class BasePage {
   protected page: Page;
 
   constructor(page: Page) {
     this.page = page;
+    trackLightningRequests(page);
+    trackPageDiagnostics(page);
+  }
+
+  /**
+   * Wait until Lightning is settled: no pending Aura / UI API XHR, no spinner, no list view refresh
+   * - Use instead of fixed `waitForTimeout` sleeps
+   */
+  async waitForLightningIdle(options: LightningIdleOptions = {}): Promise<boolean> {
+    return waitForLightningIdle(this.page, options);
   }
 
   /**
@@ -25,6 +41,11 @@ export class BasePage {
     return normalizeLocator(this.page, locator);
   }
 
+  /** Readable locator for reports (EX: "getByRole('button', { name: 'Save' })") */
+  protected describeLocator(locator: string | Locator | LocatorOptions): string {
+    return typeof locator === 'string' ? locator : this.normalizeLocator(locator).toString();
+  }
+
   /**
    * Normalize input into an array using utility function
    */
@@ -45,6 +66,8 @@ export class BasePage {
           throw new Error('Element is not enabled: ' + JSON.stringify(locator));
         }
         await loc.click();
+        // Let Save / Delete / menu actions finish their server round-trip (best effort)
+        await this.waitForLightningIdle({ timeout, strict: false });
         return; // ✅ success -> exit
       } catch (err) {
         console.warn(`⚠️ Click attempt ${attempt} failed for ${JSON.stringify(locator)}`, err);
@@ -176,19 +199,21 @@ export class BasePage {
   *   4. Throw error after max retries
   */
   async verifyData(locator: string | Locator | LocatorOptions, expectedText: string, retries = 3, retryDelay = 500) {
-    const loc = this.normalizeLocator(locator);
-    for (let i = 1; i <= retries; i++) {
-      try {
-        await loc.first().waitFor({ state: 'visible', timeout: 5000 });
-        await expect(loc).toContainText(expectedText, { timeout: 5000 });
-        console.log(`✅ Verified: "${expectedText}"`);
-        return;
-      } catch (e) {
-        console.warn(`⚠️ Attempt ${i} failed for locator: ${locator}`);
-        if (i < retries) await this.page.waitForTimeout(retryDelay);
-        else throw e;
+    await softAssert.check({ check: 'verifyData', field: this.describeLocator(locator), expected: expectedText }, async () => {
+      const loc = this.normalizeLocator(locator);
+      for (let i = 1; i <= retries; i++) {
+        try {
+          await loc.first().waitFor({ state: 'visible', timeout: 5000 });
+          await expect(loc).toContainText(expectedText, { timeout: 5000 });
+          console.log(`✅ Verified: "${expectedText}"`);
+          return;
+        } catch (e) {
+          console.warn(`⚠️ Attempt ${i} failed for locator: ${locator}`);
+          if (i < retries) await this.page.waitForTimeout(retryDelay);
+          else throw e;
+        }
       }
-    }
+    });
   }
   /**
      * Check mandatory field validation message for an LWC input
@@ -196,25 +221,30 @@ export class BasePage {
      * @param expectedMessage - Message (default = "Complete this field.")
      */
   async checkMandatoryField(label: string, expectedMessage = 'Complete this field.'): Promise<void> {
-    const errorMessage = this.page.locator('.slds-form-element', { has: this.page.getByLabel(label) }).locator('.slds-form-element__help');
-    await expect(errorMessage).toBeVisible();
-
-    // get all text reality
-    const actualText = await errorMessage.innerText();
-    console.log("message check", actualText);
-    // Verify text contains message
-    expect(actualText.replace(/\s+/g, ' ').trim()).toContain(`${label} ${expectedMessage}`);
+    await softAssert.check({ check: 'checkMandatoryField', field: label, expected: `${label} ${expectedMessage}` }, async () => {
+      const errorMessage = this.page.locator('.slds-form-element', { has: this.page.getByLabel(label) }).locator('.slds-form-element__help');
+      await expect(errorMessage).toBeVisible();
+
+      // get all text reality
+      const actualText = await errorMessage.innerText();
+      console.log("message check", actualText);
+      // Verify text contains message
+      expect(actualText.replace(/\s+/g, ' ').trim()).toContain(`${label} ${expectedMessage}`);
+    });
   }
 
   /**
    * Check mandatory validation messages for multiple fields
+   * - Every field is checked: the missing messages are reported together
    */
   async checkMultipleMandatoryFields(
     labels: string[]
   ): Promise<void> {
-    for (const label of labels) {
-      await this.checkMandatoryField(label);
-    }
+    await softAssert.scope(`Mandatory fields: ${labels.join(', ')}`, async () => {
+      for (const label of labels) {
+        await this.checkMandatoryField(label);
+      }
+    });
   }
 
   async searchData(locator: string | Locator | LocatorOptions, text: string | string[]) {
@@ -223,6 +253,22 @@ export class BasePage {
     const inputText = normalizeToString(text);
     await this.type(fieldSearch, inputText);
     await fieldSearch.press("Enter", { timeout: 5000 });
+    // Best effort like click(): an unrelated background request must not fail the search
+    await this.waitForLightningIdle({ strict: false });
+    await this.waitForListViewRefresh();
+  }
+
+  /**
+   * Wait until the list view shows its result: no loading indicator, and rows or the empty state
+   */
+  async waitForListViewRefresh(timeout = 10000): Promise<void> {
+    const loading = this.page.locator(DataTableLocators.LOADING_MORE);
+    const rows = this.page.locator(`${DataTableLocators.ROOT} ${DataTableLocators.ROW}`);
+    const emptyState = this.page.locator(DataTableLocators.EMPTY_STATE).first();
+    await expect.poll(async () => (await loading.count()) === 0 && ((await rows.count()) > 0 || (await emptyState.isVisible())), {
+      message: 'List view did not show rows or its empty state',
+      timeout,
+    }).toBe(true);
   }
 
   /**
@@ -310,9 +356,11 @@ export class BasePage {
    * @param expectedTitle The expected title text
    */
   async verifyModalTitle(locator: string | Locator | LocatorOptions, expectedTitle: string): Promise<void> {
-    const loc = this.normalizeLocator(locator);
-    await expect(loc).toHaveText(expectedTitle);
-    console.log(`✅ Verified modal title: "${expectedTitle}"`);
+    await softAssert.check({ check: 'verifyModalTitle', field: this.describeLocator(locator), expected: expectedTitle }, async () => {
+      const loc = this.normalizeLocator(locator);
+      await expect(loc).toHaveText(expectedTitle);
+      console.log(`✅ Verified modal title: "${expectedTitle}"`);
+    });
   }
 
   async verifyModalClose(locator: string | Locator | LocatorOptions): Promise<void> {
@@ -345,28 +393,30 @@ export class BasePage {
    * @param maxLength The maximum number of characters allowed
    */
   async checkMaxLengthByLabel(page: Page, labelText: string, maxLength: number) {
-    // Locate the input based on the label text
-    const input: Locator = page.locator(`label:has-text("${labelText}") + div input`);
-
-    // Try to fill more than maxLength characters
-    const longText = 'A'.repeat(maxLength + 20);
-    console.log("length of longText", longText.length); // 25
-    console.log("longText", longText); // "AAAAAAAAAAAAAAAAAAAAAAAAA" (25 word A)
-    await input.fill(longText);
-    const maxLengthAttr = await input.getAttribute('maxlength');
-    await expect(page.locator(`label:has-text("${labelText}")`)).toBeEnabled();
-    console.log("maxLengthAttr", maxLengthAttr);
-
-    // Get the actual value in the input
-    const actualValue = await input.inputValue();
-
-    // Assert the value length does not exceed maxLength
-    expect(Number(maxLengthAttr)).toBe(maxLength);
-    expect(actualValue.length).toBeLessThanOrEqual(maxLength);
-
+    await softAssert.check({ check: 'checkMaxLengthByLabel', field: labelText, expected: maxLength }, async () => {
+      // Locate the input based on the label text
+      const input: Locator = page.locator(`label:has-text("${labelText}") + div input`);
+
+      // Try to fill more than maxLength characters
+      const longText = 'A'.repeat(maxLength + 20);
+      console.log("length of longText", longText.length); // 25
+      console.log("longText", longText); // "AAAAAAAAAAAAAAAAAAAAAAAAA" (25 word A)
+      await input.fill(longText);
+      const maxLengthAttr = await input.getAttribute('maxlength');
+      await expect(page.locator(`label:has-text("${labelText}")`)).toBeEnabled();
+      console.log("maxLengthAttr", maxLengthAttr);
+
+      // Get the actual value in the input
+      const actualValue = await input.inputValue();
+
+      // Assert the value length does not exceed maxLength
+      expect(Number(maxLengthAttr)).toBe(maxLength);
+      expect(actualValue.length).toBeLessThanOrEqual(maxLength);
+    });
   }
   /** Show message after save success */
   async verifySuccessMessage(message: string, timeout = 5000): Promise<void> {
+    await this.waitForLightningIdle({ strict: false });
     await this.page.locator(SiteLocators.SUCCESS_TOAST).waitFor({ state: 'visible', timeout });
     const toastmessage = this.page.locator(SiteLocators.SUCCESS_TOAST, {
       hasText: new RegExp(escapeRegExp(message))
@@ -380,12 +430,12 @@ export class BasePage {
    * Select option in combobox with search functionality
    * @param comboboxName The accessible name of the combobox
    * @param searchText Text to search/filter options
-   * @param waitTime Optional wait time after typing (default 2000ms)
+   * @param timeout Max wait for the search results (default 10000ms)
    */
   async searchAndSelectComboboxOption(
     comboboxName: string,
     searchText: string,
-    waitTime: number = 2000
+    timeout: number = 10000
   ): Promise<void> {
     const combobox = this.page.getByRole('combobox', { name: comboboxName });
 
@@ -396,7 +446,8 @@ export class BasePage {
     await combobox.fill(searchText);
 
     // Wait for search results
-    await this.page.waitForTimeout(waitTime);
+    await this.waitForLightningIdle({ timeout });
+    await this.page.locator('.slds-listbox__option').filter({ visible: true }).first().waitFor({ state: 'visible', timeout });
 
     // Navigate to first option and select
     await combobox.press('ArrowDown');
@@ -464,38 +515,39 @@ export class BasePage {
     * - Otherwise → check label/static text containing expectedValue
   */
   async verifyInputValue(locatorInput: string | Locator, expectedValue: string) {
-    const locator = this.normalizeLocator(locatorInput);
-    await this.page.waitForTimeout(1000);
-    await expect(locator).toBeVisible({ timeout: 5000 });
-
-    // Detect maxlength attribute -> INPUT/textarea case
-    const maxLengthAttr = await locator.getAttribute('maxlength');
-
-    if (maxLengthAttr !== null) {
-      console.log(`🔍 Detected as INPUT-like field with maxlength = ${maxLengthAttr}`);
-      expect(maxLengthAttr).toBe(expectedValue);
-      console.log(`✅ Maxlength check passed = ${expectedValue}`);
-      return;
-    }
-    // If the element is in a notification container → it is defined as an error message
-    const hasNotificationClass = await locator.evaluate((el) =>
-      el.closest('.errorsList, .toastContainer, .slds-notify')
-    );
-
-    const textContent = (await locator.innerText()).trim();
+    await softAssert.check({ check: 'verifyInputValue', field: this.describeLocator(locatorInput), expected: expectedValue }, async () => {
+      const locator = this.normalizeLocator(locatorInput);
+      await this.waitForLightningIdle({ strict: false });
+      await expect(locator).toBeVisible({ timeout: 5000 });
+
+      // Detect maxlength attribute -> INPUT/textarea case
+      const maxLengthAttr = await locator.getAttribute('maxlength');
+
+      if (maxLengthAttr !== null) {
+        console.log(`🔍 Detected as INPUT-like field with maxlength = ${maxLengthAttr}`);
+        expect(maxLengthAttr).toBe(expectedValue);
+        console.log(`✅ Maxlength check passed = ${expectedValue}`);
+        return;
+      }
+      // If the element is in a notification container → it is defined as an error message
+      const hasNotificationClass = await locator.evaluate((el) =>
+        el.closest('.errorsList, .toastContainer, .slds-notify')
+      );
 
-    if (hasNotificationClass) {
-      console.log(`🔍 Detected ERROR/NOTIFICATION BLOCK -->`, textContent);
-      expect(textContent).toContain(expectedValue);
-      console.log(`✅ Passed error message check`);
-      return;
-    }
+      const textContent = (await locator.innerText()).trim();
 
-    // If not INPUT has maxlength and not NOTIFICATION → Fail clea
-    throw new Error(
-      ` Locator does not match expected patterns (input with maxlength OR notification block): ${locatorInput}`
-    );
+      if (hasNotificationClass) {
+        console.log(`🔍 Detected ERROR/NOTIFICATION BLOCK -->`, textContent);
+        expect(textContent).toContain(expectedValue);
+        console.log(`✅ Passed error message check`);
+        return;
+      }
 
+      // If not INPUT has maxlength and not NOTIFICATION → Fail clea
+      throw new Error(
+        ` Locator does not match expected patterns (input with maxlength OR notification block): ${locatorInput}`
+      );
+    });
   }
 
 }
@@ -0,0 +1,250 @@
+import { Page, Locator, expect } from '@playwright/test';
+import { BasePage } from '../base/BasePage';
+import { DataTableLocators } from '../locators/dataTableLocators';
+import { LocatorOptions } from '@src/type/LocatorOptions';
+import { DataTableLoadOptions, DataTableRow, RowPredicate, SortDirection } from '@src/type/DataTable';
+import { normalizeWhitespace } from '../utils/stringHelper';
+
+/** A lazy-load that has not started this long after the scroll is not coming (last page) */
+const LOAD_START_GRACE_MS = 1000;
+const POLL_INTERVAL = 250;
+
+/** Parsed row + its index among the rendered `tbody tr` (rows without cells are dropped) */
+type IndexedRow<T extends DataTableRow> = { row: T; domIndex: number };
+
+/**
+ * Component Object: Lightning DataTable
+ * Purpose:
+ * - Wrap the lazy-loading Lightning list view grid so any page can read it.
+ * - Scroll until every row is loaded, return typed rows keyed by `data-label`.
+ * - Sort by clicking column headers and report the current sort direction.
+ * - Select rows by predicate instead of by checkbox label text.
+ *
+ * @example
+ * ```typescript
+ * const table = new DataTable(page);
+ * const rows = await table.getAllRows();
+ * await table.sortBy('Event Master Name', 'descending');
+ * await table.selectRows(row => row['Event Type'] === 'Paid');
+ * ```
+ */
+export class DataTable extends BasePage {
+  readonly root: Locator;
+
+  constructor(page: Page, root: string | Locator | LocatorOptions = DataTableLocators.ROOT) {
+    super(page);
+    this.root = this.normalizeLocator(root).first();
+  }
+
+  /** All rendered body rows (only rows loaded so far) */
+  get rows(): Locator {
+    return this.root.locator(DataTableLocators.ROW);
+  }
+
+  /**
+   * Number of rows currently rendered in the grid
+   */
+  async getRowCount(): Promise<number> {
+    return this.rows.count();
+  }
+
+  /**
+   * Scroll the grid until no more rows are lazy-loaded
+   * @returns Number of rows loaded
+   */
+  async loadAllRows(options: DataTableLoadOptions = {}): Promise<number> {
+    const { maxRows, maxScrolls = 50, timeout = 5000 } = options;
+    await this.root.waitFor({ state: 'visible', timeout });
+
+    let count = await this.getRowCount();
+    for (let scroll = 1; scroll <= maxScrolls; scroll++) {
+      if (count === 0 || (maxRows !== undefined && count >= maxRows)) break;
+
+      await this.scrollToBottom();
+      const next = await this.waitForRowCountChange(count, timeout);
+      if (next === count) break; // nothing new → all rows loaded
+      console.log(`📜 Lazy-loaded rows: ${count} → ${next}`);
+      count = next;
+    }
+
+    console.log(`✅ Grid rows loaded: ${count}`);
+    return count;
+  }
+
+  /**
+   * Read every row of the grid as an object keyed by column `data-label`
+   * - Scrolls to load lazy rows first
+   */
+  async getAllRows<T extends DataTableRow = DataTableRow>(options: DataTableLoadOptions = {}): Promise<T[]> {
+    return (await this.readRows<T>(options)).map(({ row }) => row);
+  }
+
+  /**
+   * Read a single column of every row
+   * @param column - Column `data-label` (EX: "Event Master Name")
+   */
+  async getColumnValues(column: string, options: DataTableLoadOptions = {}): Promise<string[]> {
+    const rows = await this.getAllRows(options);
+    return rows.map(row => row[column] ?? '');
+  }
+
+  /**
+   * Return every row matching the predicate
+   */
+  async findRows<T extends DataTableRow = DataTableRow>(predicate: RowPredicate<T>): Promise<T[]> {
+    const rows = await this.getAllRows<T>();
+    return rows.filter(predicate);
+  }
+
+  /**
+   * Return the first row matching the predicate, or undefined
+   */
+  async findRow<T extends DataTableRow = DataTableRow>(predicate: RowPredicate<T>): Promise<T | undefined> {
+    const rows = await this.getAllRows<T>();
+    return rows.find(predicate);
+  }
+
+  /**
+   * Current sort direction of a column (from the header `aria-sort`)
+   * @param column - Header label (EX: "Event Master Name")
+   */
+  async getSortDirection(column: string): Promise<SortDirection> {
+    const header = this.headerCell(column);
+    await header.waitFor({ state: 'visible', timeout: 5000 });
+    const sort = await header.getAttribute('aria-sort');
+    return sort === 'ascending' || sort === 'descending' ? sort : 'none';
+  }
+
+  /**
+   * Sort the grid by clicking the column header until it reaches the wanted direction
+   * - Lightning toggles ascending ⇄ descending on each click
+   */
+  async sortBy(column: string, direction: Exclude<SortDirection, 'none'> = 'ascending'): Promise<void> {
+    for (let attempt = 1; attempt <= 2; attempt++) {
+      if ((await this.getSortDirection(column)) === direction) break;
+
+      const sortAction = this.headerCell(column).locator(DataTableLocators.HEADER_SORT_ACTION).first();
+      await this.click(sortAction);
+      await this.waitForLoadingDone();
+    }
+
+    const actual = await this.getSortDirection(column);
+    if (actual !== direction) {
+      throw new Error(`❌ Could not sort [${column}] ${direction}. Current sort: ${actual}`);
+    }
+    console.log(`✅ Sorted [${column}] ${direction}`);
+  }
+
+  /**
+   * Assert the loaded rows are ordered by a column
+   * @param compare - Custom comparator (default: case-insensitive locale compare)
+   */
+  async verifySortedBy(
+    column: string,
+    direction: Exclude<SortDirection, 'none'>,
+    compare: (a: string, b: string) => number = (a, b) => a.localeCompare(b, undefined, { sensitivity: 'base', numeric: true })
+  ): Promise<void> {
+    const values = await this.getColumnValues(column);
+    const expected = [...values].sort(compare);
+    if (direction === 'descending') expected.reverse();
+    expect(values, `Column [${column}] should be sorted ${direction}`).toEqual(expected);
+  }
+
+  /**
+   * Tick the row checkbox of every row matching the predicate
+   * @returns Number of selected rows
+   */
+  async selectRows<T extends DataTableRow = DataTableRow>(predicate: RowPredicate<T>): Promise<number> {
+    const rows = await this.readRows<T>();
+    let selected = 0;
+
+    for (const [i, { row, domIndex }] of rows.entries()) {
+      if (!predicate(row, i)) continue;
+      // DOM index, not the index among parsed rows: rows without cells are not in `rows`
+      await this.click(this.rows.nth(domIndex).locator(DataTableLocators.ROW_CHECKBOX));
+      selected++;
+    }
+
+    console.log(`✅ Selected ${selected} row(s)`);
+    return selected;
+  }
+
+  /**
+   * Assert the grid contains a row whose column equals the expected value
+   */
+  async verifyRowExists(column: string, expectedValue: string): Promise<DataTableRow> {
+    const expected = normalizeWhitespace(expectedValue);
+    const row = await this.findRow(r => r[column] === expected);
+    if (!row) {
+      throw new Error(`❌ No row found with [${column}] = "${expectedValue}"`);
+    }
+    return row;
+  }
+
+  // ===== PRIVATE HELPERS =====
+
+  /** Load every row, then parse the rows that have cells, keeping their DOM index */
+  private async readRows<T extends DataTableRow>(options: DataTableLoadOptions = {}): Promise<IndexedRow<T>[]> {
+    await this.loadAllRows(options);
+    const rows = await this.rows.evaluateAll((trs, cellSelector) =>
+      trs.map(tr => {
+        const data: Record<string, string> = {};
+        tr.querySelectorAll(cellSelector).forEach(cell => {
+          const label = cell.getAttribute('data-label');
+          // Keep the first cell for a label (avoid duplicates)
+          if (label && !(label in data)) {
+            data[label] = ((cell as HTMLElement).innerText || '').replace(/\s+/g, ' ').trim();
+          }
+        });
+        return data;
+      }),
+      DataTableLocators.CELL
+    );
+
+    const indexed = rows
+      .map((row, domIndex) => ({ row: row as T, domIndex }))
+      .filter(({ row }) => Object.keys(row).length > 0);
+    return options.maxRows !== undefined ? indexed.slice(0, options.maxRows) : indexed;
+  }
+
+  private headerCell(column: string): Locator {
+    return this.root.locator(DataTableLocators.HEADER_CELL_BY_LABEL(column)).first();
+  }
+
+  /** Scroll the closest scroll container (and the last row) to trigger lazy-load */
+  private async scrollToBottom(): Promise<void> {
+    await this.rows.last().scrollIntoViewIfNeeded();
+    await this.root.evaluate((table, scrollerSelector) => {
+      const scroller = table.closest(scrollerSelector) as HTMLElement | null;
+      if (scroller) scroller.scrollTop = scroller.scrollHeight;
+    }, DataTableLocators.SCROLLER);
+  }
+
+  /**
+   * Wait until the rendered row count differs from `previous`
+   * - Returns `previous` as soon as no lazy-load is running and the count is unchanged: after a
+   *   loading indicator went away, or when none started within LOAD_START_GRACE_MS (last page)
+   */
+  private async waitForRowCountChange(previous: number, timeout: number): Promise<number> {
+    const loading = this.page.locator(DataTableLocators.LOADING_MORE);
+    const start = Date.now();
+    let sawLoading = false;
+    while (Date.now() - start < timeout) {
+      // Indicator first: rows rendered while it disappears are counted below
+      const isLoading = (await loading.count()) > 0;
+      const current = await this.getRowCount();
+      if (current !== previous) return current;
+      if (isLoading) sawLoading = true;
+      else if (sawLoading || Date.now() - start >= LOAD_START_GRACE_MS) return previous;
+      await this.page.waitForTimeout(POLL_INTERVAL);
+    }
+    return previous;
+  }
+
+  private async waitForLoadingDone(timeout = 5000): Promise<void> {
+    const loading = this.page.locator(DataTableLocators.LOADING_MORE);
+    await expect(loading).toHaveCount(0, { timeout }).catch(() => {
+      console.warn('⚠️ Grid still loading after timeout');
+    });
+  }
+}
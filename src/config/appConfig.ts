@@ -0,0 +1,224 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as dotenv from 'dotenv';
+import { AppConfig, QaseMode } from '../type/AppConfig';
+import { CommonConstants } from '../constants/commonConstants';
+import { SalesforceConstants } from '../constants/salesforceConstants';
+
+/**
+ * Typed environment configuration
+ * - The ONLY place that reads config files / process.env for URLs, Qase settings, org alias and Salesforce API settings
+ * - Layers (last wins): base.env → <env>.env → qase.env (only when QASE_MODE is set) → process.env
+ * - Validates on load and reports EVERY missing or malformed key at once
+ *
+ * @example
+ * ```typescript
+ * import { getConfig } from '@src/config/appConfig';
+ * await page.goto(getConfig().urls.eventMaster);
+ * ```
+ */
+
+type RawConfig = Record<string, string | undefined>;
+
+type FieldRule = {
+  kind: 'url' | 'lightningUrl' | 'string' | 'boolean' | 'integer' | 'qaseMode' | 'apiVersion';
+  /** Required always, or only when the predicate returns true */
+  required?: boolean | ((raw: RawConfig) => boolean);
+};
+
+const CONFIG_DIR = __dirname;
+const QASE_MODES: QaseMode[] = ['testops', 'report', 'off'];
+const PLACEHOLDER_PATTERN = /^(your_|<).*|changeme/i;
+
+const isQaseTestOps = (raw: RawConfig) => raw.QASE_MODE === 'testops';
+/** Explicit API session: both keys or neither */
+const hasExplicitSession = (raw: RawConfig) => !!(raw.SF_INSTANCE_URL || raw.SF_ACCESS_TOKEN);
+
+/**
+ * Schema: every key the framework reads
+ */
+const SCHEMA: Record<string, FieldRule> = {
+  // Page URLs
+  PAGE_URL: { kind: 'url', required: true },
+  LIGHTNING_URL: { kind: 'url' },
+  EVENT_MASTER_URL: { kind: 'lightningUrl', required: true },
+  LESSONS_URL: { kind: 'lightningUrl', required: true },
+  ORDER_URL: { kind: 'lightningUrl', required: true },
+  TIMESHEET_URL: { kind: 'lightningUrl', required: true },
+
+  // Login / org
+  USER_TYPE: { kind: 'string', required: true },
+  SFDX_ALIAS: { kind: 'string', required: true },
+
+  // Salesforce REST API (explicit session for CI / stub servers, otherwise the session saved by global setup)
+  SF_API_VERSION: { kind: 'apiVersion' },
+  SF_INSTANCE_URL: { kind: 'url', required: hasExplicitSession },
+  SF_ACCESS_TOKEN: { kind: 'string', required: hasExplicitSession },
+
+  // Qase
+  QASE_MODE: { kind: 'qaseMode' },
+  QASE_FALLBACK: { kind: 'qaseMode', required: true },
+  QASE_TESTOPS_API_TOKEN: { kind: 'string', required: isQaseTestOps },
+  QASE_TESTOPS_PROJECT: { kind: 'string', required: isQaseTestOps },
+  QASE_TESTOPS_API_HOST: { kind: 'string', required: true },
+  QASE_TESTOPS_RUN_ID: { kind: 'integer' },
+  QASE_TESTOPS_RUN_TITLE: { kind: 'string' },
+  QASE_TESTOPS_RUN_DESCRIPTION: { kind: 'string' },
+  QASE_TESTOPS_RUN_COMPLETE: { kind: 'boolean' },
+  QASE_ENVIRONMENT: { kind: 'string' },
+  QASE_DEBUG: { kind: 'boolean' },
+  QASE_CAPTURE_LOGS: { kind: 'boolean' },
+  QASE_REPORT_DRIVER: { kind: 'string' },
+  QASE_REPORT_CONNECTION_PATH: { kind: 'string' },
+  QASE_REPORT_CONNECTION_FORMAT: { kind: 'string' },
+};
+
+let cached: AppConfig | undefined;
+
+/**
+ * Current environment name (ENV, default: dev-staging)
+ */
+export function getEnvName(): string {
+  return process.env.ENV?.trim() || CommonConstants.STAGING;
+}
+
+/**
+ * Get the validated config of the current (or given) environment, cached per process
+ */
+export function getConfig(env: string = getEnvName()): AppConfig {
+  if (!cached || cached.env !== env) {
+    cached = loadAppConfig(env);
+  }
+  return cached;
+}
+
+/**
+ * Load and validate the config of an environment (no cache)
+ * @param env - Environment name (matches src/config/<env>.env)
+ * @param overrides - Values that win over files (default: process.env)
+ * @throws Error listing every missing or malformed key
+ */
+export function loadAppConfig(env: string = getEnvName(), overrides: RawConfig = process.env): AppConfig {
+  const problems: string[] = [];
+  const envFile = path.join(CONFIG_DIR, `${env.trim()}.env`);
+  if (!fs.existsSync(envFile)) {
+    problems.push(`${env}.env: file not found (${envFile})`);
+  }
+
+  const raw: RawConfig = {
+    ...readEnvFile(path.join(CONFIG_DIR, 'base.env')),
+    ...readEnvFile(envFile),
+  };
+  if (overrides.QASE_MODE) {
+    Object.assign(raw, readEnvFile(path.join(CONFIG_DIR, 'qase.env')));
+  }
+  for (const key of Object.keys(SCHEMA)) {
+    if (overrides[key] !== undefined && overrides[key] !== '') raw[key] = overrides[key]!.trim();
+  }
+
+  problems.push(...validate(raw));
+  if (problems.length > 0) {
+    throw new Error(
+      `❌ Invalid configuration for env '${env}' (${problems.length} problem(s)):\n` +
+      problems.map(p => `   - ${p}`).join('\n')
+    );
+  }
+
+  return {
+    env,
+    userType: raw.USER_TYPE!,
+    orgAlias: raw.SFDX_ALIAS!,
+    salesforce: {
+      apiVersion: raw.SF_API_VERSION || SalesforceConstants.DEFAULT_API_VERSION,
+      instanceUrl: raw.SF_INSTANCE_URL,
+      accessToken: raw.SF_ACCESS_TOKEN,
+    },
+    urls: {
+      base: raw.PAGE_URL!,
+      lightning: (raw.LIGHTNING_URL || new URL(raw.EVENT_MASTER_URL!).origin).replace(/\/+$/, ''),
+      eventMaster: raw.EVENT_MASTER_URL!,
+      lessons: raw.LESSONS_URL!,
+      order: raw.ORDER_URL!,
+      timesheet: raw.TIMESHEET_URL!,
+    },
+    qase: {
+      mode: raw.QASE_MODE as QaseMode | undefined,
+      fallback: raw.QASE_FALLBACK as QaseMode,
+      token: raw.QASE_TESTOPS_API_TOKEN,
+      project: raw.QASE_TESTOPS_PROJECT,
+      host: raw.QASE_TESTOPS_API_HOST!,
+      environment: raw.QASE_ENVIRONMENT,
+      debug: raw.QASE_DEBUG === 'true',
+      captureLogs: raw.QASE_CAPTURE_LOGS === 'true',
+      run: {
+        id: raw.QASE_TESTOPS_RUN_ID ? Number(raw.QASE_TESTOPS_RUN_ID) : undefined,
+        title: raw.QASE_TESTOPS_RUN_TITLE,
+        description: raw.QASE_TESTOPS_RUN_DESCRIPTION || 'Playwright automated run',
+        complete: raw.QASE_TESTOPS_RUN_COMPLETE !== 'false',
+      },
+      report: {
+        driver: raw.QASE_REPORT_DRIVER || 'local',
+        path: raw.QASE_REPORT_CONNECTION_PATH || './build/qase-report',
+        format: raw.QASE_REPORT_CONNECTION_FORMAT || 'json',
+      },
+    },
+  };
+}
+
+/**
+ * Check every schema key, collecting all problems instead of stopping at the first
+ */
+function validate(raw: RawConfig): string[] {
+  const problems: string[] = [];
+
+  for (const [key, rule] of Object.entries(SCHEMA)) {
+    const value = raw[key];
+    const required = typeof rule.required === 'function' ? rule.required(raw) : !!rule.required;
+
+    if (value === undefined || value === '') {
+      if (required) problems.push(`${key}: missing`);
+      continue;
+    }
+
+    const error = checkValue(rule, value);
+    if (error) problems.push(`${key}: ${error} (got "${value}")`);
+    else if (required && rule.kind === 'string' && PLACEHOLDER_PATTERN.test(value)) {
+      problems.push(`${key}: placeholder value, set the real one`);
+    }
+  }
+  return problems;
+}
+
+function checkValue(rule: FieldRule, value: string): string | undefined {
+  switch (rule.kind) {
+    case 'url':
+    case 'lightningUrl': {
+      let url: URL;
+      try {
+        url = new URL(value);
+      } catch {
+        return 'not a valid URL';
+      }
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') return 'must be http(s)';
+      if (rule.kind === 'lightningUrl' && !/^\/lightning\/[onr]\/[A-Za-z0-9_]+\/(home|list|new|view)\b/.test(url.pathname)) {
+        return 'not a Lightning page URL (/lightning/o/<Object>/home|list)';
+      }
+      return undefined;
+    }
+    case 'boolean':
+      return value === 'true' || value === 'false' ? undefined : 'must be true or false';
+    case 'integer':
+      return /^\d+$/.test(value) ? undefined : 'must be a positive integer';
+    case 'apiVersion':
+      return /^v\d+\.\d+$/.test(value) ? undefined : 'must look like v59.0';
+    case 'qaseMode':
+      return (QASE_MODES as string[]).includes(value) ? undefined : `must be one of ${QASE_MODES.join(', ')}`;
+    default:
+      return undefined;
+  }
+}
+
+function readEnvFile(filePath: string): RawConfig {
+  if (!fs.existsSync(filePath)) return {};
+  return dotenv.parse(fs.readFileSync(filePath));
+}
@@ -3,7 +3,10 @@ export const CommonConstants = {
   SITE_TITLE: 'Lightning Experience',
   STAGING: 'dev-staging',
   PRE_PROD: 'pre-prod',
+  MOCK: 'mock',
   PAGE_EVENT_MASTER: 'event',
+  PAGE_EVENT_MASTER_RECORD: 'event-record',
+  PAGE_EVENT_MASTER_LIST: 'event-list',
   PAGE_LESSONS: 'lesson',
   PAGE_TIMESHEET: 'timesheet',
   PAGE_ORDER: 'order'
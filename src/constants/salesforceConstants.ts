@@ -0,0 +1,35 @@
+/**
+ * Salesforce API constants
+ * - SObject API names and REST settings used by the API client
+ */
+export const SalesforceConstants = {
+  /** REST API version when SF_API_VERSION is not set (see getConfig().salesforce) */
+  DEFAULT_API_VERSION: 'v59.0',
+  SESSION_COOKIE: 'sid',
+  INSTANCE_DOMAIN: 'my.salesforce.com',
+  REQUEST_TIMEOUT: 30000,
+} as const;
+
+/**
+ * SObject API names
+ */
+export const SObjects = {
+  EVENT_MASTER: 'MANAERP__Event_Master__c',
+  LESSON_MASTER: 'MANAERP__Lesson_Master__c',
+  ORDER: 'MANAERP__MOrder__c',
+  TIMESHEET_WINDOW: 'MANAERP__Timesheet_Window__c',
+} as const;
+
+export type SObjectName = typeof SObjects[keyof typeof SObjects];
+
+/**
+ * Event Master field API names, keyed by EventData property
+ */
+export const EventMasterFields = {
+  eventMasterName: 'Name',
+  eventType: 'MANAERP__Event_Type__c',
+  sendTo: 'MANAERP__Send_To__c',
+  reminder: 'MANAERP__Reminders__c',
+  maxEventPerStudent: 'MANAERP__Max_Event_Per_Student__c',
+  description: 'MANAERP__Description__c',
+} as const;
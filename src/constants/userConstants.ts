@@ -1,6 +1,9 @@
 export const UserConstants = {
   USR_DEFAULT: 'admin',
   USR_INVALID: 'invalid_user',
+  USR_TEACHER: 'teacher',
+  USR_STAFF: 'staff',
+  USR_PARENT: 'parent',
   USER_JSON_PATH: 'src/data/users.json',
 } as const;
 
@@ -0,0 +1,98 @@
+// src/decorators/captureOnFailure.ts
+import { test, Page } from '@playwright/test';
+import { LightningLocators } from '../locators/lightningLocators';
+import { getPageDiagnostics, trackPageDiagnostics } from '../utils/pageDiagnostics';
+import { redactString } from '../utils/redactionHelper';
+import { runLogger } from '../utils/runLogger';
+
+// ✅ CaptureOnFailure decorator
+// - Catches a failing facade / page method and attaches, under the step name:
+//   screenshot, outer HTML of the open modal, recent console errors, last Aura requests
+// - Attachments go to testInfo (HTML report) and are uploaded to the Qase result by the Qase reporter (uploadAttachments)
+// - Only the innermost failing decorated method captures: outer methods re-throw the same error without duplicates
+// - The error is always re-thrown
+//
+// Example usage (alongside @LogStep):
+// @LogStep('Delete event master')
+// @CaptureOnFailure()
+// async deletedEventMaster(...) { ... }
+
+interface CaptureOnFailureOptions {
+  /** Attachment prefix (default: method name) */
+  name?: string;
+  /** Full page screenshot (default: false) */
+  fullPage?: boolean;
+  /** How many console errors / Aura requests to keep (default: 20 / 10) */
+  maxConsoleErrors?: number;
+  maxAuraRequests?: number;
+}
+
+/** Errors already captured by an inner decorated method */
+const capturedErrors = new WeakSet<object>();
+
+export function CaptureOnFailure(options: CaptureOnFailureOptions = {}) {
+  return function <T extends (...args: any[]) => any>(
+    originalMethod: T,
+    context: ClassMethodDecoratorContext
+  ) {
+    const stepName = options.name ?? String(context.name);
+
+    async function replacement(this: any, ...args: Parameters<T>): Promise<ReturnType<T>> {
+      const page: Page | undefined = this?.page;
+      if (page) trackPageDiagnostics(page);
+
+      try {
+        return await originalMethod.apply(this, args);
+      } catch (err) {
+        if (page && !(err instanceof Object && capturedErrors.has(err))) {
+          if (err instanceof Object) capturedErrors.add(err);
+          await captureArtifacts(page, stepName, options).catch(captureError =>
+            console.warn(`⚠️ Could not capture failure artifacts for ${stepName}:`, captureError)
+          );
+        }
+        throw err;
+      }
+    }
+
+    return replacement as T;
+  };
+}
+
+async function captureArtifacts(page: Page, stepName: string, options: CaptureOnFailureOptions): Promise<void> {
+  let testInfo;
+  try {
+    testInfo = test.info();
+  } catch {
+    return; // called outside a running test
+  }
+  const attached: string[] = [];
+  const attach = async (suffix: string, body: string | Buffer, contentType: string) => {
+    await testInfo.attach(`${stepName} - ${suffix}`, { body, contentType });
+    attached.push(suffix);
+  };
+
+  if (!page.isClosed()) {
+    const screenshot = await page.screenshot({ fullPage: options.fullPage ?? false, timeout: 10000 }).catch(() => undefined);
+    if (screenshot) await attach('screenshot', screenshot, 'image/png');
+
+    const modal = page.locator(LightningLocators.MODAL_OPEN).filter({ visible: true }).last();
+    const modalHtml = (await modal.count().catch(() => 0)) > 0
+      ? await modal.evaluate(el => el.outerHTML, undefined, { timeout: 5000 }).catch(() => undefined)
+      : undefined;
+    if (modalHtml) await attach('modal.html', redactString(modalHtml), 'text/html');
+  }
+
+  const { consoleErrors, auraRequests } = getPageDiagnostics(page, {
+    consoleErrors: options.maxConsoleErrors ?? 20,
+    auraRequests: options.maxAuraRequests ?? 10,
+  });
+  if (consoleErrors.length > 0) {
+    await attach('console-errors.json', JSON.stringify(consoleErrors, null, 2), 'application/json');
+  }
+  if (auraRequests.length > 0) {
+    await attach('aura-requests.json', JSON.stringify(auraRequests, null, 2), 'application/json');
+  }
+
+  runLogger.log({ source: 'captureOnFailure', step: stepName, status: 'failed', data: { artifacts: attached, url: page.isClosed() ? undefined : page.url() } });
+  console.log(`📸 Captured failure artifacts for ${stepName}: ${attached.join(', ') || 'none'}`);
+}
@@ -1,3 +1,5 @@
+export * from './captureOnFailure';
 export * from './logStep';
 export * from './retry';
+export * from './retryPolicies';
 export * from './trackTime';
@@ -1,12 +1,12 @@
 // src/decorators/logStep.ts
 import { test } from '@playwright/test';
-import fs from 'fs';
-import path from 'path';
+import { runLogger } from '../utils/runLogger';
+import { redact, redactArgs } from '../utils/redactionHelper';
 
 
 /** This file defines a method decorator called LogStep.
 - It wraps any test step in Playwright with logging.
-- It logs input arguments, results, errors, and writes them both to the console (with colors) and to a JSON file.
+- It logs input arguments, results, errors, and writes them both to the console (with colors) and to the run log (src/utils/runLogger.ts).
 - It also uses test.step so that Playwright’s test report will show the decorated method as a named step. 
 # Example usage in EventMasterFacade.ts
 @LogStep('Create event')
@@ -23,8 +23,15 @@ You will see console logs like:
 📥 Args:
 { "eventMasterName": "My Test Event", "eventType": "Seminar", ... }
 ✅ SUCCESS: Create Event
-And in test-logs.json, you’ll get:
-{"step":"Create Event","args":[{"eventMasterName":"My Test Event","eventType":"Seminar","sendTo":"All","reminder":true,"maxEventPerStudent":5}],"status":"success","timestamp":"2025-09-10T01:23:45.678Z"}
+And in the run log (build/logs, merged into test-logs.json at the end of the run), you’ll get:
+{"timestamp":"2025-09-10T01:23:45.678Z","seq":1,"runId":"1757467425000","worker":0,"source":"logStep","step":"Create Event","status":"success","durationMs":812,"args":[{"eventMasterName":"My Test Event",...}],"test":{"testId":"...","title":"...","project":"scheduling","retry":0,"qaseIds":[10072]}}
+# Secrets
+- Args and results are redacted (src/utils/redactionHelper.ts) before they are printed or logged:
+  keys like password / accessToken / sid / token and secret-looking values become "***".
+- Declare sensitive parameters explicitly when their names say nothing:
+@LogStep({ name: 'Login', sensitiveArgs: [1] })          // 2nd parameter masked entirely
+async login(username: string, password: string) { ... }
+@LogStep({ name: 'Call API', sensitiveKeys: ['pin'] })   // mask `pin` inside object args
 */
 
 // Define allowed log levels
@@ -33,13 +40,14 @@ type LogLevel = 'debug' | 'info' | 'error' | 'none';
 // Current log level (from environment variable, default = 'info')
 const LOG_LEVEL: LogLevel = (process.env.LOG_LEVEL as LogLevel) || 'debug';
 
-// File path for writing logs (default = test-logs.json at project root)
-const LOG_FILE = process.env.LOG_FILE || path.join(process.cwd(), 'test-logs.json');
-
 //
 interface LogStepOptions {
   name?: string;
   level?: LogLevel;
+  /** Parameter positions masked entirely in logs (EX: [1] for `login(username, password)`) */
+  sensitiveArgs?: number[];
+  /** Extra object keys masked inside args / result (on top of the default sensitive keys) */
+  sensitiveKeys?: string[];
 }
 
 // Check if a log message should be printed based on the current log level
@@ -76,15 +84,6 @@ function prettyPrint(obj: any): string {
   return String(obj);
 }
 
-// Append log entry as JSON to the log file
-function appendToFile(entry: any) {
-  try {
-    fs.appendFileSync(LOG_FILE, JSON.stringify(entry) + '\n', 'utf-8');
-  } catch (err) {
-    console.error('Failed to write log:', err);
-  }
-}
-
 // Main decorator function
 // Usage: @LogStep('Step Name') above any async method
 export function LogStep(options?: string | LogStepOptions) {
@@ -95,11 +94,15 @@ export function LogStep(options?: string | LogStepOptions) {
     // Step name comes from argument or method name
     const stepName = typeof options === 'string' ? options : options?.name || String(context.name);
     const logLevel: LogLevel = typeof options === 'object' ? options.level ?? 'info' : 'info';
+    const sensitiveArgs = typeof options === 'object' ? options.sensitiveArgs ?? [] : [];
+    const sensitiveKeys = typeof options === 'object' ? options.sensitiveKeys ?? [] : [];
 
     // Replacement function that wraps the original method
     async function replacement(this: any, ...args: Parameters<T>): Promise<ReturnType<T>> {
       return await test.step(stepName, async () => {
-        const timestamp = new Date().toISOString();
+        const start = Date.now();
+        // Never print or store the raw args: mask secrets first
+        const safeArgs = redactArgs(args, sensitiveArgs, sensitiveKeys);
 
        // Start log
         if (shouldLog('info', logLevel)) {
@@ -107,24 +110,25 @@ export function LogStep(options?: string | LogStepOptions) {
         }
          // Log args if debug on
         if (shouldLog('debug', logLevel) && args.length > 0) {
-          console.log(`${colors.gray}   📥 Args:${colors.reset}\n${prettyPrint(args)}`);
+          console.log(`${colors.gray}   📥 Args:${colors.reset}\n${prettyPrint(safeArgs)}`);
         }
         try {
           // Call the original method
           const result = await originalMethod.apply(this, args);
+          const safeResult = redact(result, sensitiveKeys);
 
           // Log success entry
-          const logEntry = {
+          runLogger.log({
+            source: 'logStep',
             step: stepName,
-            args,
-            result,
             status: 'success',
-            timestamp
-          };
-          appendToFile(logEntry);
+            durationMs: Date.now() - start,
+            args: safeArgs,
+            result: safeResult,
+          });
 
           // Console: result (if debug) + success message
-          if (shouldLog('debug',logLevel) && result !== undefined) console.log(`${colors.gray}   📤 Result:${colors.reset}\n${prettyPrint(result)}`);
+          if (shouldLog('debug',logLevel) && result !== undefined) console.log(`${colors.gray}   📤 Result:${colors.reset}\n${prettyPrint(safeResult)}`);
           if (shouldLog('info',logLevel)) console.log(`${colors.green}✅ SUCCESS:${colors.reset} ${stepName}`);
 
           return result;
@@ -133,14 +137,14 @@ export function LogStep(options?: string | LogStepOptions) {
           const errorMessage = err instanceof Error ? err.message : String(err);
 
           // Log failure entry
-          const logEntry = {
+          runLogger.log({
+            source: 'logStep',
             step: stepName,
-            args,
-            error: errorMessage,
             status: 'failed',
-            timestamp
-          };
-          appendToFile(logEntry);
+            durationMs: Date.now() - start,
+            args: safeArgs,
+            error: errorMessage,
+          });
 
           // Console: failure message
           if (shouldLog('error',logLevel)) console.error(`${colors.red}❌ FAILED:${colors.reset} ${stepName}`, err);
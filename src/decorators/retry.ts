@@ -1,76 +1,90 @@
 // src/decorators/retry.ts
 import { test } from '@playwright/test';
-import fs from 'fs';
-import path from 'path';
+import { runLogger } from '../utils/runLogger';
+import { classifyRetryError, computeBackoffDelay } from './retryPolicies';
+import { RecoveryContext, RetryPolicy } from '../type/RetryPolicy';
 
 // ✅ Retry decorator
-// - Retries a method multiple times if it fails
-// - Logs each attempt to console + JSON file
-// - Works with async Playwright test steps
+// - Retries a method only on the error kinds of its policy (timeouts, detached element, toast not found, ...)
+// - NEVER retries assertion failures: a wrong value will not become right by trying again
+// - Waits with exponential backoff + jitter and runs recovery hooks (close modals, Escape, reload) before each retry
+// - Records every retry decision as a test annotation (type "retry") + run log entry
 //
 // Example usage:
-// @Retry(3, 1000)  // retry up to 3 times, 1 second delay between attempts
+// @Retry(RetryPolicies.MODAL_FORM)              // ready-made policy (see retryPolicies.ts)
+// @Retry({ maxAttempts: 3, retryOn: ['timeout'] })
+// @Retry(3, 1000)  // legacy: 3 attempts, fixed 1 second delay, transient errors only
+//                  // (behaviour change: it used to retry every error, assertion failures included)
 // async submitForm() {
 //   await this.page.click('button.submit');
 // }
 
-type LogEntry = {
-  step: string;
-  attempt: number;
-  status: string;
-  error?: string;
-  timestamp: string;
-};
+export const RETRY_ANNOTATION = 'retry';
 
-const LOG_FILE = process.env.LOG_FILE || path.join(process.cwd(), 'test-logs.json');
+const DEFAULT_POLICY: Required<Omit<RetryPolicy, 'name' | 'recover'>> = {
+  maxAttempts: 3,
+  retryOn: ['timeout', 'detached', 'toastNotFound'],
+  backoff: { baseDelayMs: 1000, factor: 2, maxDelayMs: 10000, jitter: 0.2 },
+};
 
-function appendToFile(entry: LogEntry) {
-  try {
-    fs.appendFileSync(LOG_FILE, JSON.stringify(entry) + '\n', 'utf-8');
-  } catch (err) {
-    console.error('Failed to write retry log:', err);
-  }
-}
+export function Retry(policyOrMaxRetries: RetryPolicy | number = DEFAULT_POLICY.maxAttempts, delayMs = 1000) {
+  // Legacy signature: Retry(maxRetries, delayMs) = total attempts with a fixed delay
+  const policy: RetryPolicy = typeof policyOrMaxRetries === 'number'
+    ? { maxAttempts: policyOrMaxRetries, backoff: { baseDelayMs: delayMs, factor: 1, jitter: 0 } }
+    : policyOrMaxRetries;
+  const maxAttempts = Math.max(1, policy.maxAttempts ?? DEFAULT_POLICY.maxAttempts);
+  const retryOn = policy.retryOn ?? DEFAULT_POLICY.retryOn;
+  const backoff = { ...DEFAULT_POLICY.backoff, ...policy.backoff };
 
-export function Retry(maxRetries = 3, delayMs = 1000) {
   return function <T extends (...args: any[]) => any>(
     originalMethod: T,
     context: ClassMethodDecoratorContext
   ) {
     const stepName = String(context.name);
+    const label = policy.name ? `${stepName} [${policy.name}]` : stepName;
 
     async function replacement(this: any, ...args: Parameters<T>): Promise<ReturnType<T>> {
       return await test.step(`Retry: ${stepName}`, async () => {
-        for (let attempt = 1; attempt <= maxRetries; attempt++) {
+        for (let attempt = 1; attempt <= maxAttempts; attempt++) {
           try {
             const result = await originalMethod.apply(this, args);
 
-            appendToFile({
+            runLogger.log({
+              source: 'retry',
               step: stepName,
               attempt,
               status: 'success',
-              timestamp: new Date().toISOString(),
             });
 
             console.log(`✅ SUCCESS [${stepName}] (attempt ${attempt})`);
             return result;
           } catch (err) {
-            appendToFile({
+            const kind = classifyRetryError(err);
+            const retryable = kind !== 'assertion' && (typeof retryOn === 'function' ? retryOn(err, kind) : retryOn.includes(kind));
+            const willRetry = retryable && attempt < maxAttempts;
+            const delay = willRetry ? computeBackoffDelay(attempt, backoff) : 0;
+            const error = err instanceof Error ? err.message : String(err);
+
+            const decision = willRetry
+              ? `retry in ${delay}ms`
+              : !retryable ? `no retry (${kind} is not retryable)` : `no retry (${maxAttempts} attempts used)`;
+            annotate(`${label} attempt ${attempt}/${maxAttempts} failed with ${kind} → ${decision}`);
+
+            runLogger.log({
+              source: 'retry',
               step: stepName,
               attempt,
-              status: 'failed',
-              error: err instanceof Error ? err.message : String(err),
-              timestamp: new Date().toISOString(),
+              status: willRetry ? 'retry' : 'failed',
+              error,
+              data: { kind, policy: policy.name, delayMs: delay },
             });
 
-            console.warn(`⚠️ FAILED [${stepName}] attempt ${attempt}:`, err);
+            console.warn(`⚠️ FAILED [${stepName}] attempt ${attempt} (${kind}):`, err);
+            if (!willRetry) throw err;
 
-            if (attempt < maxRetries) {
-              await new Promise((r) => setTimeout(r, delayMs));
-              console.log(`🔄 Retrying ${stepName} (attempt ${attempt + 1})...`);
-            } else {
-              throw err;
-            }
+            await runRecovery(policy, { page: this?.page, step: stepName, attempt, error: err });
+            await new Promise((r) => setTimeout(r, delay));
+            console.log(`🔄 Retrying ${stepName} (attempt ${attempt + 1})...`);
           }
         }
         throw new Error(`Unexpected exit in Retry for ${stepName}`);
@@ -80,3 +94,22 @@ export function Retry(maxRetries = 3, delayMs = 1000) {
     return replacement as T;
   };
 }
+
+/** Run recovery hooks in order; a failing hook must not hide the original error */
+async function runRecovery(policy: RetryPolicy, context: RecoveryContext): Promise<void> {
+  for (const action of policy.recover ?? []) {
+    try {
+      await action(context);
+    } catch (err) {
+      console.warn(`⚠️ Recovery "${action.name}" failed before retrying ${context.step}:`, err);
+    }
+  }
+}
+
+function annotate(description: string): void {
+  try {
+    test.info().annotations.push({ type: RETRY_ANNOTATION, description });
+  } catch {
+    // called outside a running test
+  }
+}
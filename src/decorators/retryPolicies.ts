@@ -0,0 +1,120 @@
+// src/decorators/retryPolicies.ts
+import { LightningLocators } from '../locators/lightningLocators';
+import { SiteLocators } from '../locators/siteLocators';
+import { waitForLightningIdle } from '../utils/lightningIdleHelper';
+import { BackoffOptions, RecoveryAction, RetryErrorKind, RetryPolicy } from '../type/RetryPolicy';
+
+// ✅ Retry policies for @Retry
+// - classifyRetryError: turns an error into a RetryErrorKind (timeout, detached, toast not found, ...)
+// - RecoveryActions: hooks that clean the UI before the next attempt
+// - RetryPolicies: ready-made policies for common facade / page situations
+//
+// Example usage:
+// @Retry(RetryPolicies.MODAL_FORM)
+// private async openNewForm(event: EventData) { ... }
+
+/**
+ * Classify an error for retry decisions
+ * - Assertion failures (expect) are detected first: they are never retried
+ */
+export function classifyRetryError(error: unknown): RetryErrorKind {
+  const err = error as { name?: string; message?: string; matcherResult?: unknown };
+  const message = err?.message ?? String(error);
+
+  if (err?.matcherResult !== undefined || err?.name === 'AssertionError' || err?.name === 'SoftAssertionError' || /^(Error: )?expect\(/m.test(message)) {
+    return 'assertion';
+  }
+  if (message.includes(SiteLocators.SUCCESS_TOAST) || message.includes(SiteLocators.ERROR_TOAST) || /toast/i.test(message)) {
+    return 'toastNotFound';
+  }
+  if (/detached|not attached to the DOM|Element is not attached|stale element|Execution context was destroyed/i.test(message)) {
+    return 'detached';
+  }
+  if (err?.name === 'TimeoutError' || /Timeout \d+ms exceeded|timed out/i.test(message)) {
+    return 'timeout';
+  }
+  if (/net::ERR_|navigation|frame was detached/i.test(message)) {
+    return 'navigation';
+  }
+  return 'other';
+}
+
+/**
+ * Delay before retry N (1-based): base × factor^(N-1), capped, ± jitter
+ */
+export function computeBackoffDelay(retry: number, backoff: BackoffOptions = {}): number {
+  const { baseDelayMs = 1000, factor = 2, maxDelayMs = 10000, jitter = 0.2 } = backoff;
+  const delay = Math.min(baseDelayMs * Math.pow(factor, retry - 1), maxDelayMs);
+  const spread = delay * jitter * (Math.random() * 2 - 1);
+  return Math.max(0, Math.round(delay + spread));
+}
+
+/**
+ * Recovery hooks run before each retry (best effort: a failing hook is logged, not thrown)
+ */
+export const RecoveryActions: Record<'pressEscape' | 'closeModals' | 'reloadListView', RecoveryAction> = {
+  /** Close popovers / dropdowns / menus */
+  async pressEscape({ page }) {
+    await page?.keyboard.press('Escape');
+  },
+
+  /** Cancel or close every open modal (half-filled "New" forms, confirm dialogs) */
+  async closeModals({ page }) {
+    if (!page) return;
+    const modal = page.locator(LightningLocators.MODAL_OPEN).filter({ visible: true }).first();
+    for (let i = 0; i < 3 && (await modal.count()) > 0; i++) {
+      const cancel = modal.locator(`${LightningLocators.MODAL_CANCEL}, ${LightningLocators.MODAL_CLOSE}`).filter({ visible: true }).first();
+      if ((await cancel.count()) > 0) {
+        await cancel.click({ timeout: 5000 });
+      } else {
+        await page.keyboard.press('Escape');
+      }
+      await modal.waitFor({ state: 'hidden', timeout: 5000 }).catch(() => undefined);
+    }
+  },
+
+  /** Reload the current page (list view) and wait until Lightning is idle */
+  async reloadListView({ page }) {
+    if (!page) return;
+    await page.reload();
+    await waitForLightningIdle(page, { strict: false });
+  },
+};
+
+/** Errors worth retrying in Lightning UIs */
+const TRANSIENT: RetryErrorKind[] = ['timeout', 'detached', 'toastNotFound'];
+
+/**
+ * Ready-made policies
+ */
+export const RetryPolicies = {
+  /**
+   * Forms in a modal (New / Edit): close the half-filled modal before retrying
+   * No `toastNotFound`: a missing toast comes after Save, and saving a New form again creates a duplicate.
+   * Decorate the fill steps only, not the Save click (see EventMasterFacade.openNewForm).
+   */
+  MODAL_FORM: {
+    name: 'modal-form',
+    maxAttempts: 2,
+    retryOn: ['timeout', 'detached'],
+    backoff: { baseDelayMs: 1000, factor: 2, jitter: 0.2 },
+    recover: [RecoveryActions.pressEscape, RecoveryActions.closeModals],
+  },
+
+  /** List view actions (search, sort, row actions): reload the list before retrying */
+  LIST_VIEW: {
+    name: 'list-view',
+    maxAttempts: 3,
+    retryOn: [...TRANSIENT, 'navigation'],
+    backoff: { baseDelayMs: 500, factor: 2, jitter: 0.3 },
+    recover: [RecoveryActions.pressEscape, RecoveryActions.reloadListView],
+  },
+
+  /** Transient errors only, no UI recovery */
+  TRANSIENT: {
+    name: 'transient',
+    maxAttempts: 3,
+    retryOn: TRANSIENT,
+    backoff: { baseDelayMs: 1000, factor: 2, jitter: 0.2 },
+  },
+} satisfies Record<string, RetryPolicy>;
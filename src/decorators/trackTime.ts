@@ -1,38 +1,27 @@
 // src/decorators/trackTime.ts
 import { test } from '@playwright/test';
-import fs from 'fs';
-import path from 'path';
+import { runLogger } from '../utils/runLogger';
+import { getBudget } from '../utils/performanceHelper';
+import { TrackTimeOptions } from '../type/PerformanceBudget';
 
 // ✅ TrackTime decorator
 // - Measures how long a method takes to run
-// - Logs duration to console + JSON file
-// - Useful for performance monitoring
+// - Logs duration to console + run log (src/utils/runLogger.ts)
+// - Checks the step budget (decorator option or src/data/performanceBudgets.json):
+//   warn → "performance-budget" annotation + console warning, fail → the step fails
+// - Durations feed the trend report: npm run report:perf
 //
 // Example usage:
-// @TrackTime()
+// @TrackTime()                                   // budget from the budget file (by method name)
+// @TrackTime({ budgetMs: 8000, mode: 'fail' })   // explicit budget
 // async generateReport() {
 //   await this.page.click('button.generate');
 //   await this.page.waitForSelector('.report-ready');
 // }
 
-type LogEntry = {
-  step: string;
-  durationMs: number;
-  status: string;
-  timestamp: string;
-};
+export const BUDGET_ANNOTATION = 'performance-budget';
 
-const LOG_FILE = process.env.LOG_FILE || path.join(process.cwd(), 'test-logs.json');
-
-function appendToFile(entry: LogEntry) {
-  try {
-    fs.appendFileSync(LOG_FILE, JSON.stringify(entry) + '\n', 'utf-8');
-  } catch (err) {
-    console.error('Failed to write trackTime log:', err);
-  }
-}
-
-export function TrackTime() {
+export function TrackTime(options: TrackTimeOptions = {}) {
   return function <T extends (...args: any[]) => any>(
     originalMethod: T,
     context: ClassMethodDecoratorContext
@@ -42,35 +31,58 @@ export function TrackTime() {
     async function replacement(this: any, ...args: Parameters<T>): Promise<ReturnType<T>> {
       return await test.step(`TrackTime: ${stepName}`, async () => {
         const start = Date.now();
+        const { budgetMs, mode } = getBudget(stepName, options);
+        let result: ReturnType<T>;
         try {
-          const result = await originalMethod.apply(this, args);
-          const duration = Date.now() - start;
-
-          appendToFile({
-            step: stepName,
-            durationMs: duration,
-            status: 'success',
-            timestamp: new Date().toISOString(),
-          });
-
-          console.log(`⏱️ [${stepName}] took ${duration} ms`);
-          return result;
+          result = await originalMethod.apply(this, args);
         } catch (err) {
           const duration = Date.now() - start;
 
-          appendToFile({
+          runLogger.log({
+            source: 'trackTime',
             step: stepName,
             durationMs: duration,
             status: 'failed',
-            timestamp: new Date().toISOString(),
+            error: err instanceof Error ? err.message : String(err),
           });
 
           console.error(`❌ [${stepName}] failed after ${duration} ms`, err);
           throw err;
         }
+
+        const duration = Date.now() - start;
+        const breached = mode !== 'off' && budgetMs !== undefined && duration > budgetMs;
+
+        runLogger.log({
+          source: 'trackTime',
+          step: stepName,
+          durationMs: duration,
+          status: 'success',
+          data: budgetMs !== undefined ? { budgetMs, breached } : undefined,
+        });
+
+        console.log(`⏱️ [${stepName}] took ${duration} ms${budgetMs !== undefined ? ` (budget ${budgetMs} ms)` : ''}`);
+        if (breached) {
+          checkBudget(stepName, duration, budgetMs!, mode);
+        }
+        return result;
       });
     }
 
     return replacement as T;
   };
 }
+
+/** Report a breached budget: annotation + warning, or a failure in "fail" mode */
+function checkBudget(stepName: string, duration: number, budgetMs: number, mode: string): void {
+  const message = `${stepName} took ${duration} ms, budget is ${budgetMs} ms (+${Math.round((duration / budgetMs - 1) * 100)}%)`;
+  try {
+    test.info().annotations.push({ type: BUDGET_ANNOTATION, description: `${mode === 'fail' ? '❌' : '⚠️'} ${message}` });
+  } catch {
+    // called outside a running test
+  }
+  if (mode === 'fail') {
+    throw new Error(`❌ Performance budget exceeded: ${message}`);
+  }
+  console.warn(`⚠️ Performance budget exceeded: ${message}`);
+}
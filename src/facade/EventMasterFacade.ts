@@ -1,9 +1,12 @@
 import { Page, expect, test } from '@playwright/test';
 import { EventMasterPage } from '../pages/EventMasterPage';
 import { EventData } from '../type/EventData';
-import { LogStep, Retry, TrackTime } from '../decorators/index';
+import { CaptureOnFailure, LogStep, Retry, RetryPolicies, TrackTime } from '../decorators/index';
 import { EventFieldLabels, EventLocators } from '../locators/eventLocators';
 import { normalizeWhitespace } from '../utils/stringHelper';
+import { testDataRegistry } from '../utils/testDataRegistry';
+import { softAssert } from '../utils/softAssert';
+import { SObjects } from '../constants/salesforceConstants';
 
 /**
  * Facade for Event operations
@@ -38,7 +41,8 @@ export class EventMasterFacade {
    * Searches for an event by name
    */
   @LogStep({name:'Search event by name', level:'debug'})
-  @Retry(2) // ✅ will retry if search fails
+  @CaptureOnFailure() // ✅ screenshot, modal DOM, console errors and Aura requests when it fails
+  @Retry({ ...RetryPolicies.LIST_VIEW, maxAttempts: 2 }) // ✅ reloads the list view and retries on timeout
   async searchEventByName(eventName: string): Promise<void> {
     if (!eventName?.trim()) {
       throw new Error('Event name is required for search');
@@ -48,9 +52,11 @@ export class EventMasterFacade {
 
   /**
    * Creates a new event with provided data and verifies creation
+   * Only opening and filling the form is retried: once Save is clicked the record may exist,
+   * so a missing toast fails the step instead of creating a duplicate
    */
   @LogStep('Create a New Event Master using "Save & New" action')
-  @Retry(1) // ✅ more retries because UI validation can be flaky
+  @CaptureOnFailure() // ✅ screenshot, modal DOM, console errors and Aura requests when it fails
   @TrackTime()// ✅ will log how long it takes
   async saveNew(eventData: EventData|EventData[], message: string): Promise<void> {
     if (!eventData) {
@@ -58,14 +64,23 @@ export class EventMasterFacade {
     }
      const events = this.eventPage.normalizeToArrayGeneric(eventData);
      for (const event of events) {
-    await this.eventPage.clickNewButton();
-    await this.eventPage.fillEventMasterForm(event);
+    await this.openNewForm(event);
     await this.eventPage.clickSave_NewButton();
+    this.trackCreated(event);
     await this.eventPage.verifyPopupTitle('New Event Master');
     await this.eventPage.verifySuccessMessage(message);
      }
   }
 
+  /**
+   * Click New and fill the form (nothing is saved yet, safe to retry)
+   */
+  @Retry(RetryPolicies.MODAL_FORM) // ✅ closes the half-filled modal before retrying
+  private async openNewForm(event: EventData): Promise<void> {
+    await this.eventPage.clickNewButton();
+    await this.eventPage.fillEventMasterForm(event);
+  }
+
   /**
    * Verify cancel button
    * Click New -> fill data -> click cancel button -> expected result: modal close
@@ -148,12 +163,28 @@ export class EventMasterFacade {
 
   async verifyEventData(eventName: string) {
     await this.eventPage.searchEventMasterByName(eventName);
-+    // Wait for search results to load
-    await this.page.waitForTimeout(3000);
     const rowData = await this.eventPage.getEventRowByName(eventName);
     expect(rowData['Event Master Name']).toBe(normalizeWhitespace(eventName));
   }
 
+  /**
+   * Searches by keyword and verifies every row of the result list contains it
+   */
+  @LogStep('Verify search results contain keyword')
+  async verifySearchResults(keyword: string): Promise<void> {
+    await this.eventPage.searchEventMasterByName(keyword);
+    const rows = await this.eventPage.getAllEventRows();
+    expect(rows.length, `Search "${keyword}" should return at least one row`).toBeGreaterThan(0);
+    // ✅ soft: every row that does not match is reported, not only the first one
+    await softAssert.scope(`Search results contain "${keyword}"`, async () => {
+      for (const [index, row] of rows.entries()) {
+        await softAssert.check({ check: 'verifySearchResults', field: `Row ${index + 1}`, expected: keyword }, async () => {
+          expect(row['Event Master Name'].toLowerCase()).toContain(normalizeWhitespace(keyword).toLowerCase());
+        });
+      }
+    });
+  }
+
   //@LogStep('Search with there is no data')
   async searchNoData(searchText: string | EventData | EventData[]): Promise<void> {
     
@@ -186,15 +217,23 @@ export class EventMasterFacade {
       await this.eventPage.clickNewButton();
       await this.eventPage.fillEventMasterForm(event);
       await this.eventPage.clickSaveButton();
+      this.trackCreated(event);
     }
   }
 
+  /**
+   * Registers an Event Master created through the UI so teardown can delete it
+   */
+  public trackCreated(event: EventData): void {
+    testDataRegistry.track({ sobject: SObjects.EVENT_MASTER, name: event.eventMasterName });
+  }
+
   async restoreDeletedEventMaster(eventName: string): Promise<void> {
     if (!eventName) {
       throw new Error('Event data is required');
     }
     await test.step(`Deleted event master ${eventName}`, async () => {
-      this.deletedEventMaster(eventName);
+      await this.deletedEventMaster(eventName);
     })
     await test.step(`Restore deleted event master ${eventName}`, async () => {
       await this.eventPage.clickUnDoButton();
@@ -202,6 +241,7 @@ export class EventMasterFacade {
     })
   }
 
+  @CaptureOnFailure()
   public async deletedEventMaster(eventName: string | EventData | EventData[]): Promise<void> {
     if (!eventName) {
       throw new Error('Event data is required');
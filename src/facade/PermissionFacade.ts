@@ -0,0 +1,143 @@
+import { Page, Locator, expect } from '@playwright/test';
+import { EventMasterPage } from '../pages/EventMasterPage';
+import { EventLocators } from '../locators/eventLocators';
+import { SiteLocators } from '../locators/siteLocators';
+import { LogStep } from '../decorators/index';
+import { EventMasterApi } from '../api/EventMasterApi';
+import { PermissionAction, PermissionOutcome } from '../type/PermissionMatrix';
+import { testDataName } from '../utils/dataHelpers';
+
+/** Where an action lives on the list view */
+type ActionTarget = {
+  locator: string;
+  /** true → item of the row "Show Actions" menu, false → list view button */
+  rowAction: boolean;
+};
+
+/**
+ * Action → locator per object
+ * Add a new object here together with its page in `openObject()`.
+ */
+const ACTION_TARGETS: Record<string, Record<PermissionAction, ActionTarget>> = {
+  'Event Master': {
+    'New': { locator: EventLocators.BUTTON_NEW, rowAction: false },
+    'Import': { locator: EventLocators.BUTTON_IMPORT, rowAction: false },
+    'Change Owner': { locator: EventLocators.BUTTON_CHANGE_OWNER, rowAction: false },
+    'Assign Label': { locator: EventLocators.BUTTON_ASIGN_LABEL, rowAction: false },
+    'Edit': { locator: EventLocators.BUTTON_EDIT_ON_GRID, rowAction: true },
+    'Delete': { locator: EventLocators.BUTTON_DELETE_ON_GRID, rowAction: true },
+  },
+};
+
+/**
+ * Facade for permission checks
+ * Verifies whether the logged-in role can use an action of an object's list view:
+ * - allowed → action is visible and enabled (not clicked, no side effects)
+ * - denied  → action is hidden, disabled, or rejected with an access error when clicked
+ *
+ * Row actions (Edit / Delete) live in the row "Show Actions" menu: an allowed one is checked on a record
+ * seeded through the API, a denied one passes when the role sees no row menu at all.
+ */
+export class PermissionFacade {
+  private readonly page: Page;
+  private readonly eventPage: EventMasterPage;
+  private readonly eventMasterApi?: EventMasterApi;
+
+  /**
+   * @param eventMasterApi - Seeds the record allowed row actions are checked on (required for those cells)
+   */
+  constructor(page: Page, eventMasterApi?: EventMasterApi) {
+    this.page = page;
+    this.eventPage = new EventMasterPage(page);
+    this.eventMasterApi = eventMasterApi;
+  }
+
+  /**
+   * Open the list view of an object
+   */
+  async openObject(object: string): Promise<void> {
+    switch (object) {
+      case 'Event Master':
+        await this.eventPage.goToEventMasterPage();
+        return;
+      default:
+        throw new Error(`❌ No page registered for object "${object}" in PermissionFacade`);
+    }
+  }
+
+  /**
+   * Create a record of the object and show it in the list view
+   * @returns Name of the record
+   */
+  private async seedRecord(object: string): Promise<string> {
+    switch (object) {
+      case 'Event Master': {
+        if (!this.eventMasterApi) {
+          throw new Error('❌ PermissionFacade needs an EventMasterApi to seed an Event Master');
+        }
+        const eventMasterName = testDataName('Permission check');
+        await this.eventMasterApi.createEventMaster({ eventMasterName, eventType: 'Free', sendTo: 'Parent only', reminder: '1', maxEventPerStudent: '1' });
+        await this.eventPage.searchEventMasterByName(eventMasterName);
+        return eventMasterName;
+      }
+      default:
+        throw new Error(`❌ No seed registered for object "${object}" in PermissionFacade`);
+    }
+  }
+
+  /**
+   * Verify one matrix cell for the current role
+   */
+  @LogStep('Verify action permission')
+  async verifyActionPermission(object: string, action: PermissionAction, expected: PermissionOutcome): Promise<void> {
+    const target = ACTION_TARGETS[object]?.[action];
+    if (!target) {
+      throw new Error(`❌ Action "${action}" is not mapped for object "${object}"`);
+    }
+
+    await this.openObject(object);
+    await this.page.locator(EventLocators.PAGE_HEADER).first().waitFor({ state: 'visible', timeout: 30000 });
+    if (target.rowAction) {
+      const rowMenu = this.page.locator(SiteLocators.BUTTON_MORE_ACTION).first();
+      if (expected === 'allowed') {
+        const record = await this.seedRecord(object);
+        await expect(rowMenu, `Row "Show Actions" menu of "${record}" should be visible`).toBeVisible({ timeout: 10000 });
+      } else {
+        // No row visible to the role, or no row menu: the row action is denied
+        const hasMenu = await rowMenu.waitFor({ state: 'visible', timeout: 5000 }).then(() => true, () => false);
+        if (!hasMenu) {
+          console.log(`✅ "${action}" on ${object} is denied (no row menu)`);
+          return;
+        }
+      }
+      await this.eventPage.clickMoreActionsButton();
+    }
+
+    const actionLocator = this.page.locator(target.locator).first();
+    if (expected === 'allowed') {
+      await expect(actionLocator, `"${action}" should be visible`).toBeVisible({ timeout: 10000 });
+      await expect(actionLocator, `"${action}" should be enabled`).toBeEnabled();
+      console.log(`✅ "${action}" on ${object} is allowed`);
+      return;
+    }
+
+    await this.verifyDenied(actionLocator, action);
+    console.log(`✅ "${action}" on ${object} is denied`);
+  }
+
+  /**
+   * Denied = hidden, or disabled, or clicking shows an access error
+   */
+  private async verifyDenied(actionLocator: Locator, action: PermissionAction): Promise<void> {
+    // Give the list view a moment to render before concluding the action is hidden
+    const visible = await actionLocator.waitFor({ state: 'visible', timeout: 5000 }).then(() => true, () => false);
+    if (!visible) return;
+    if (!(await actionLocator.isEnabled())) return;
+
+    await actionLocator.click();
+    const accessError = this.page.locator(SiteLocators.ERROR_TOAST)
+      .or(this.page.locator(SiteLocators.ERROR_INSUFFICIENT_ACCESS))
+      .first();
+    await expect(accessError, `"${action}" is visible and enabled, so clicking it should be rejected`).toBeVisible({ timeout: 10000 });
+  }
+}
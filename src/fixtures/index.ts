@@ -0,0 +1,166 @@
+import { test as base, Page } from '@playwright/test';
+import path from 'path';
+import { SalesforceClient } from '../api/SalesforceClient';
+import { EventMasterApi } from '../api/EventMasterApi';
+import { RecordVerifier } from '../api/RecordVerifier';
+import { getCleanupMode, testDataRegistry } from '../utils/testDataRegistry';
+import { StorageHelper } from '../utils/storageHelper';
+import { getConfig } from '../config/appConfig';
+import { getLastNavigatedUrl } from '../utils/pageDiagnostics';
+import { FAILURE_URL_ANNOTATION } from '../type/FailureCategory';
+import { QUARANTINE_ANNOTATION, QUARANTINE_FAILURE_ANNOTATION } from '../type/Quarantine';
+import { describeQuarantine, findQuarantineEntry, isQuarantineExpired, loadQuarantine, quarantineLabel } from '../utils/quarantine';
+import { extractQaseIds } from '../utils/runLogger';
+
+/**
+ * Project-wide Playwright fixtures
+ * Import `test` / `expect` from here instead of '@playwright/test' to get them.
+ *
+ * @example
+ * ```typescript
+ * import { test, expect } from '@src/fixtures';
+ *
+ * test('delete event', async ({ eventMasterApi }) => {
+ *   const [id] = await eventMasterApi.createEventMasters(event);
+ * });
+ *
+ * // Whole file / describe runs as a role
+ * test.use(asRole('teacher'));
+ *
+ * // One block runs as another role, in its own context
+ * await asRole('staff', async page => { ... });
+ * ```
+ */
+type RunAsRole = <T>(role: string, callback: (page: Page) => Promise<T>) => Promise<T>;
+
+type TestFixtures = {
+  /** Option: role whose storage state is used by `page` (default: storage state from config) */
+  role: string | undefined;
+
+  /** Run a callback with a page logged in as another role */
+  asRole: RunAsRole;
+
+  /** Event Master CRUD through the REST API */
+  eventMasterApi: EventMasterApi;
+
+  /** SOQL assertions on persisted records */
+  recordVerifier: RecordVerifier;
+
+  /** Auto: deletes records tracked during the test (CLEANUP_MODE=test) */
+  testDataCleanup: void;
+
+  /** Auto: records the page URL of a failed test (read by the failure classifier reporter) */
+  failureUrl: void;
+
+  /** Auto: tests listed in src/data/quarantine.json run without failing the build, until their entry expires */
+  quarantine: void;
+};
+
+type WorkerFixtures = {
+  /** REST client bound to the current ENV session (one per worker) */
+  sfClient: SalesforceClient;
+};
+
+export const test = base.extend<TestFixtures, WorkerFixtures>({
+  role: [undefined, { option: true }],
+
+  // No `browser` dependency: every test resolves storageState, API-only tests must not launch a browser
+  storageState: async ({ role, storageState, playwright, browserName, launchOptions }, use) => {
+    if (!role) return use(storageState);
+    if (!StorageHelper.shouldRefreshStorageState(currentEnv(), false, role)) {
+      return use(StorageHelper.getStorageFilePath(currentEnv(), role));
+    }
+    // Login of the role in a short-lived browser (the test's own browser is not launched yet)
+    const browser = await playwright[browserName].launch(launchOptions);
+    let storageFile: string;
+    try {
+      storageFile = await StorageHelper.ensureStorageState(browser, currentEnv(), role);
+    } finally {
+      await browser.close();
+    }
+    await use(storageFile);
+  },
+
+  asRole: async ({ browser }, use) => {
+    await use(async (role, callback) => {
+      const storageState = await StorageHelper.ensureStorageState(browser, currentEnv(), role);
+      const context = await browser.newContext({ storageState });
+      try {
+        return await callback(await context.newPage());
+      } finally {
+        await context.close();
+      }
+    });
+  },
+
+  sfClient: [async ({}, use) => {
+    await use(SalesforceClient.fromEnvironment());
+  }, { scope: 'worker' }],
+
+  eventMasterApi: async ({ sfClient }, use) => {
+    await use(new EventMasterApi(sfClient));
+  },
+
+  recordVerifier: async ({ sfClient }, use) => {
+    await use(new RecordVerifier(sfClient));
+  },
+
+  testDataCleanup: [async ({}, use, testInfo) => {
+    await use();
+    if (getCleanupMode() !== 'test' || testDataRegistry.list({ testId: testInfo.testId }).length === 0) return;
+    try {
+      // Client is built lazily so tests that create nothing never need an API session
+      const deleted = await testDataRegistry.cleanup(SalesforceClient.fromEnvironment(), { testId: testInfo.testId });
+      console.log(`🧹 Cleaned ${deleted} record(s) created by "${testInfo.title}"`);
+    } catch (error) {
+      console.warn(`⚠️ Test data cleanup skipped: ${(error as Error).message}`);
+    }
+  }, { auto: true }],
+
+  failureUrl: [async ({}, use, testInfo) => {
+    // No `page` dependency: API-only tests must not launch a browser
+    const startedAt = Date.now();
+    await use();
+    if (testInfo.status === testInfo.expectedStatus) return;
+    // Login page URL at failure = expired session, not a broken locator
+    const url = getLastNavigatedUrl(startedAt);
+    if (url) testInfo.annotations.push({ type: FAILURE_URL_ANNOTATION, description: url });
+  }, { auto: true }],
+
+  quarantine: [async ({}, use, testInfo) => {
+    const entry = findQuarantineEntry(loadQuarantine(), {
+      title: testInfo.title.replace(/\s*\(Qase ID: [\d,\s]+\)/, ''),
+      file: path.relative(process.cwd(), testInfo.file).split(path.sep).join('/'),
+      qaseIds: extractQaseIds(testInfo.title, testInfo.annotations),
+    });
+    if (!entry) return use();
+
+    if (isQuarantineExpired(entry)) {
+      throw new Error(`❌ Quarantine of ${quarantineLabel(entry)} expired on ${entry.expires} (${entry.ticket}): ` +
+        'fix the test and remove the entry, or extend it in src/data/quarantine.json');
+    }
+    testInfo.annotations.push({ type: QUARANTINE_ANNOTATION, description: describeQuarantine(entry) });
+    await use();
+    if (testInfo.status !== testInfo.expectedStatus && testInfo.status !== 'skipped') {
+      // Same as test.fail(): reported as an expected failure, not retried, the build stays green.
+      // The real status is kept for the reporters, which count the test as failed (ignored).
+      testInfo.annotations.push({ type: QUARANTINE_FAILURE_ANNOTATION, description: testInfo.status });
+      testInfo.expectedStatus = testInfo.status!;
+      console.warn(`🚧 Quarantined test failed (ignored): ${testInfo.title} — ${describeQuarantine(entry)}`);
+    }
+  }, { auto: true }],
+});
+
+/**
+ * Fixture override for `test.use()`: run tests with the storage state of a role
+ * @example test.use(asRole('teacher'));
+ */
+export function asRole(role: string): { role: string } {
+  return { role };
+}
+
+function currentEnv(): string {
+  return getConfig().env;
+}
+
+export { expect } from '@playwright/test';
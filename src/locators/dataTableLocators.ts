@@ -0,0 +1,33 @@
+/**
+ * Lightning DataTable (list view grid) locators
+ * Shared by every list view page (Event Master, Lesson Master, Order, ...)
+ *
+ * @example
+ * ```typescript
+ * const table = new DataTable(page);
+ * const rows = await table.getAllRows();
+ * ```
+ */
+export const DataTableLocators = {
+  // Grid container
+  ROOT: 'table[role="grid"]',
+  SCROLLER: '.slds-scrollable_y, .uiScroller.scroller-wrapper',
+
+  // Header
+  HEADER_CELL: 'thead th',
+  HEADER_CELL_BY_LABEL: (label: string) => `thead th[aria-label="${label}"], thead th[title="${label}"]`,
+  HEADER_SORT_ACTION: 'a.slds-th__action, button.slds-th__action',
+
+  // Body
+  ROW: 'tbody tr',
+  CELL: 'td[data-label], th[data-label]',
+  CELL_BY_LABEL: (label: string) => `td[data-label="${label}"], th[data-label="${label}"]`,
+  ROW_CHECKBOX: 'span.slds-checkbox_faux',
+
+  // Loading / paging indicators
+  LOADING_MORE: '.slds-is-loading, lightning-primitive-datatable-loading-indicator, .loading-indicator',
+  ITEM_COUNT: '.countSortedByFilterByWrapper, .test-listViewStatusInfo',
+
+  // Shown instead of the grid when the list view has no rows
+  EMPTY_STATE: 'lst-empty-state-illustration',
+} as const;
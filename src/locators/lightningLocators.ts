@@ -0,0 +1,21 @@
+/**
+ * Lightning page shells
+ * Used to detect that a navigated page is actually rendered (not just the URL changed)
+ */
+export const LightningLocators = {
+  // Object home / list view
+  LIST_VIEW: 'lst-list-view-manager-header, .forceListViewManagerHeader',
+  // Record page
+  RECORD_PAGE: 'records-lwc-highlights-panel, records-highlights2, .forceHighlightsPanel',
+  // Full related list page
+  RELATED_LIST: 'lst-related-list-view-manager, .forceRelatedListDesktop, .forceListViewManager',
+  // New record modal
+  NEW_RECORD_MODAL: 'records-lwc-detail-panel, .modal-container.slds-modal__container',
+  // Open modal (record create / edit, confirm dialogs)
+  MODAL_OPEN: 'section[role="dialog"].slds-modal.slds-fade-in-open, .modal-container.slds-modal__container',
+  MODAL_CANCEL: '[apiname="CancelEdit"], .slds-modal__footer button:has-text("Cancel")',
+  MODAL_CLOSE: 'button.slds-modal__close',
+  // Loading
+  SPINNER: 'lightning-spinner, .slds-spinner',
+  LIST_VIEW_REFRESHING: '.forceListViewManagerGrid .slds-is-loading, lst-list-view-manager-header .slds-is-loading',
+} as const;
@@ -25,5 +25,6 @@ export const SiteLocators = {
   //message
    SUCCESS_TOAST: '.slds-notify--toast.slds-theme--success',
    ERROR_TOAST: '.slds-notify--toast.slds-theme--error',
-   ERROR_LIST: '[class="errorsList slds-list_dotted slds-m-left_medium"]'
+   ERROR_LIST: '[class="errorsList slds-list_dotted slds-m-left_medium"]',
+   ERROR_INSUFFICIENT_ACCESS: 'text=/insufficient (access|privileges)|don.t have (the necessary )?(permission|access)/i'
 } as const;
\ No newline at end of file
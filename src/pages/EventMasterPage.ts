@@ -5,6 +5,8 @@ import { SiteLocators } from '../locators/siteLocators';
 import { EventData } from '@src/type/EventData';
 import { CommonHelpers } from '../utils/commonHelpers';
 import { CommonConstants } from '@src/constants/commonConstants';
+import { DataTable } from '../components/DataTable';
+import { DataTableRow, RowPredicate, SortDirection } from '@src/type/DataTable';
 /**
  * Page Object: Event Master Page
  * Purpose:
@@ -43,6 +45,9 @@ export class EventMasterPage extends BasePage {
   // Iframe Locator
   readonly iframe: FrameLocator;
 
+  // List view grid
+  readonly dataTable: DataTable;
+
   constructor(page: Page) {
     super(page);
 
@@ -78,6 +83,9 @@ export class EventMasterPage extends BasePage {
 
     // --- Iframe ---
     this.iframe = page.frameLocator(SiteLocators.IFRAME);
+
+    // --- List view grid ---
+    this.dataTable = new DataTable(page);
   }
 
   /**
@@ -87,6 +95,20 @@ export class EventMasterPage extends BasePage {
     await CommonHelpers.navigateToPage(this.page, CommonConstants.PAGE_EVENT_MASTER);
   };
 
+  /**
+   * Go to an Event Master list view (EX: All, __Recent)
+   */
+  async goToEventMasterListView(listView: string): Promise<void> {
+    await CommonHelpers.navigateToPage(this.page, CommonConstants.PAGE_EVENT_MASTER_LIST, { listView });
+  }
+
+  /**
+   * Go to the record page of an Event Master
+   */
+  async goToEventMasterRecord(recordId: string): Promise<void> {
+    await CommonHelpers.navigateToPage(this.page, CommonConstants.PAGE_EVENT_MASTER_RECORD, { recordId });
+  }
+
   /**
    * Clicks the "New" button to create a new event
    * @throws Error when button is not clickable
@@ -165,7 +187,7 @@ export class EventMasterPage extends BasePage {
   }
 
   async importEventMaster(action: string, filePath: string): Promise<void> {
-    this.importFile("Event Master", action, "CSV", filePath);
+    await this.importFile("Event Master", action, "CSV", filePath);
   }
 
   async clickNextButton(): Promise<void> {
@@ -287,6 +309,30 @@ export class EventMasterPage extends BasePage {
     return this.getAllGridRowData('Event Master Name', eventName);
   }
 
+  /**
+   * Reads every Event Master row of the list view (scrolls to load lazy rows)
+   */
+  async getAllEventRows(): Promise<DataTableRow[]> {
+    return this.dataTable.getAllRows();
+  }
+
+  /**
+   * Sorts the Event Master list view by a column header
+   * @param column - Column label (EX: "Event Master Name")
+   * @param direction - Wanted sort direction (default: ascending)
+   */
+  async sortEventsBy(column: string, direction: Exclude<SortDirection, 'none'> = 'ascending'): Promise<void> {
+    await this.dataTable.sortBy(column, direction);
+  }
+
+  /**
+   * Ticks the checkbox of every Event Master row matching the predicate
+   * @returns Number of selected rows
+   */
+  async selectEventRows(predicate: RowPredicate): Promise<number> {
+    return this.dataTable.selectRows(predicate);
+  }
+
   /**
    * Validates that mandatory field validation messages are displayed
    * Checks for validation messages on required fields
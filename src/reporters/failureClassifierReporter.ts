@@ -0,0 +1,162 @@
+import type { FullConfig, Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import fs from 'fs';
+import path from 'path';
+import { getEnvName } from '../config/appConfig';
+import {
+  FAILURE_CATEGORY_ANNOTATION,
+  FAILURE_URL_ANNOTATION,
+  FailureAttachment,
+  FailureCategory,
+  FailureSummary,
+  FailureSummaryEntry,
+} from '../type/FailureCategory';
+import { classifyFailure, stripAnsi } from '../utils/failureClassifier';
+import { quarantinedFailureOf } from '../utils/quarantine';
+import { extractQaseIds } from '../utils/runLogger';
+
+/**
+ * Failure classifier reporter
+ * - Classifies every failed attempt (auth/session, network, test data missing, toast timeout,
+ *   locator not found, assertion mismatch, timeout) from the error, the URL at failure and the attachments
+ *   (see src/utils/failureClassifier.ts)
+ * - Adds a "failure-category" annotation to the attempt → ends up in test-results.json
+ * - After the run: categorised summary on the console and in build/failure-summary.md (+ .json)
+ * - Failures of quarantined tests (src/data/quarantine.json) are classified too, counted apart as ignored (🚧)
+ */
+
+interface FailureClassifierReporterOptions {
+  outputDir?: string;
+}
+
+/** Attachments bigger than this are not read */
+const MAX_ATTACHMENT_BYTES = 512 * 1024;
+
+const CATEGORY_ICONS: Record<FailureCategory, string> = {
+  'auth-session': '🔑',
+  network: '🌐',
+  'test-data-missing': '🗃️',
+  'toast-timeout': '🍞',
+  'locator-not-found': '🔍',
+  'assertion-mismatch': '❌',
+  timeout: '⏱️',
+  other: '❓',
+};
+
+export default class FailureClassifierReporter implements Reporter {
+  private readonly outputDir: string;
+  private rootDir = process.cwd();
+  private readonly entries = new Map<TestCase, FailureSummaryEntry[]>();
+
+  constructor(options: FailureClassifierReporterOptions = {}) {
+    this.outputDir = options.outputDir || path.join(process.cwd(), 'build');
+  }
+
+  onBegin(config: FullConfig): void {
+    this.rootDir = config.rootDir;
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    // A quarantined failure is "expected" for Playwright, but still a failure to classify
+    const quarantined = quarantinedFailureOf(result.annotations) !== undefined;
+    if (result.status === 'skipped' || (result.status === test.expectedStatus && !quarantined)) return;
+
+    const url = [...result.annotations].reverse().find(a => a.type === FAILURE_URL_ANNOTATION)?.description;
+    const classification = classifyFailure({
+      message: result.errors.map(e => e.message ?? e.value ?? '').join('\n') || `Test ${result.status}`,
+      stack: result.errors.map(e => e.stack ?? '').join('\n'),
+      url,
+      attachments: result.attachments.map(readAttachment),
+    });
+
+    // Written by the json reporter in its onEnd
+    result.annotations.push({ type: FAILURE_CATEGORY_ANNOTATION, description: `${classification.category}: ${classification.reason}` });
+
+    const titlePath = test.titlePath().slice(3).map(title => title.replace(/\s*\(Qase ID: [\d,\s]+\)/, ''));
+    const entry: FailureSummaryEntry = {
+      ...classification,
+      file: path.relative(this.rootDir, test.location.file).split(path.sep).join('/'),
+      title: titlePath.join(' › '),
+      qaseIds: extractQaseIds(test.title, test.annotations),
+      project: test.parent.project()?.name ?? '',
+      retry: result.retry,
+      recovered: false,
+      quarantined,
+      error: stripAnsi(result.errors[0]?.message ?? `Test ${result.status}`).split('\n')[0].trim(),
+      url,
+    };
+    this.entries.set(test, [...(this.entries.get(test) ?? []), entry]);
+  }
+
+  onEnd(): void {
+    if (this.entries.size === 0) return;
+
+    const summary: FailureSummary = {
+      generatedAt: new Date().toISOString(),
+      env: getEnvName(),
+      failed: {},
+      quarantined: {},
+      flaky: {},
+      failures: [],
+    };
+    for (const [test, entries] of this.entries) {
+      const recovered = test.outcome() === 'flaky';
+      for (const entry of entries) entry.recovered = recovered;
+      summary.failures.push(...entries);
+
+      if (recovered) {
+        for (const entry of entries) summary.flaky[entry.category] = (summary.flaky[entry.category] ?? 0) + 1;
+      } else {
+        // Final failure: counted once, under the category of its last attempt
+        const last = entries[entries.length - 1];
+        const counts = last.quarantined ? summary.quarantined : summary.failed;
+        counts[last.category] = (counts[last.category] ?? 0) + 1;
+      }
+    }
+
+    const markdown = this.buildMarkdown(summary);
+    console.log(`\n${markdown}`);
+
+    fs.mkdirSync(this.outputDir, { recursive: true });
+    fs.writeFileSync(path.join(this.outputDir, 'failure-summary.md'), markdown, 'utf-8');
+    fs.writeFileSync(path.join(this.outputDir, 'failure-summary.json'), JSON.stringify(summary, null, 2), 'utf-8');
+  }
+
+  private buildMarkdown(summary: FailureSummary): string {
+    const categories = (Object.keys(CATEGORY_ICONS) as FailureCategory[])
+      .filter(category => summary.failed[category] || summary.quarantined[category] || summary.flaky[category]);
+    const lines = [
+      `## 🩺 Failure categories — ${summary.env}`,
+      '',
+      '| Category | Failed tests | Quarantined (ignored) | Recovered attempts (flaky) |',
+      '|----------|-------------:|----------------------:|---------------------------:|',
+      ...categories.map(c => `| ${CATEGORY_ICONS[c]} ${c} | ${summary.failed[c] ?? 0} | ${summary.quarantined[c] ?? 0} | ${summary.flaky[c] ?? 0} |`),
+      '',
+      '| Test | Qase | Retry | Category | Reason | Error |',
+      '|------|------|------:|----------|--------|-------|',
+      ...summary.failures.map(f => `| ${f.file} › ${f.title}${f.recovered ? ' ⚠️' : ''}${f.quarantined ? ' 🚧' : ''} | ${f.qaseIds.join(', ') || '–'} | ${f.retry} | ${
+        CATEGORY_ICONS[f.category]} ${f.category} | ${f.reason}${f.url ? ` (${f.url})` : ''} | ${escapeCell(f.error)} |`),
+    ];
+    return lines.join('\n') + '\n';
+  }
+}
+
+/** Text content of JSON / text attachments (body or file), nothing for binaries */
+function readAttachment(attachment: TestResult['attachments'][number]): FailureAttachment {
+  const { name, contentType } = attachment;
+  if (!/^text\/|json/.test(contentType)) return { name, contentType };
+  try {
+    if (attachment.body) {
+      return { name, contentType, text: attachment.body.subarray(0, MAX_ATTACHMENT_BYTES).toString('utf-8') };
+    }
+    if (attachment.path && fs.existsSync(attachment.path) && fs.statSync(attachment.path).size <= MAX_ATTACHMENT_BYTES) {
+      return { name, contentType, text: fs.readFileSync(attachment.path, 'utf-8') };
+    }
+  } catch {
+    // unreadable attachment: classify without it
+  }
+  return { name, contentType };
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, '\\|').slice(0, 200);
+}
@@ -0,0 +1,112 @@
+import type { FullConfig, Reporter, Suite, TestCase } from '@playwright/test/reporter';
+import fs from 'fs';
+import path from 'path';
+import { getEnvName } from '../config/appConfig';
+import { FlakyScore, RunOutcome } from '../type/FlakyHistory';
+import { HISTORY_FILE, historyKey, loadHistory, recordRun, saveHistory, scoreHistory } from '../utils/flakyHistory';
+import { quarantinedFailureOf } from '../utils/quarantine';
+import { extractQaseIds } from '../utils/runLogger';
+
+/**
+ * Flaky history reporter
+ * - Records the final outcome of every test (passed / failed / flaky / skipped), retries and duration
+ *   per environment in build/history/test-history.json (see src/utils/flakyHistory.ts)
+ * - After each run: "most flaky" report (score, trend) in build/flaky-report.md (+ .json) and on the console
+ *
+ * Tests that pass on retry no longer go unnoticed: they show up here with a rising score.
+ * Quarantined tests that failed are recorded as failed, although the failure did not fail the build.
+ */
+
+interface FlakyHistoryReporterOptions {
+  outputDir?: string;
+  /** How many tests the report lists (default: FLAKY_REPORT_TOP or 10) */
+  top?: number;
+}
+
+const TREND_ICONS: Record<string, string> = { rising: '📈', falling: '📉', stable: '➖', new: '🆕' };
+const OUTCOME_ICONS: Record<RunOutcome, string> = { passed: '✅', failed: '❌', flaky: '⚠️', skipped: '⏭️' };
+
+export default class FlakyHistoryReporter implements Reporter {
+  private readonly outputDir: string;
+  private readonly top: number;
+  private rootDir = process.cwd();
+  private suite?: Suite;
+
+  constructor(options: FlakyHistoryReporterOptions = {}) {
+    this.outputDir = options.outputDir || path.join(process.cwd(), 'build');
+    this.top = options.top ?? Number(process.env.FLAKY_REPORT_TOP || 10);
+  }
+
+  onBegin(config: FullConfig, suite: Suite): void {
+    this.rootDir = config.rootDir;
+    this.suite = suite;
+  }
+
+  onEnd(): void {
+    const tests = (this.suite?.allTests() ?? []).filter(test => test.results.length > 0);
+    if (tests.length === 0) return;
+
+    const env = getEnvName();
+    const runId = process.env.TEST_RUN_ID || String(Date.now());
+    const timestamp = new Date().toISOString();
+    const store = loadHistory();
+
+    for (const test of tests) {
+      const qaseIds = extractQaseIds(test.title, test.annotations);
+      const file = path.relative(this.rootDir, test.location.file).split(path.sep).join('/');
+      const titlePath = test.titlePath().slice(3).map(title => title.replace(/\s*\(Qase ID: [\d,\s]+\)/, ''));
+      recordRun(store, {
+        key: historyKey(file, titlePath, qaseIds),
+        file,
+        title: titlePath.join(' › '),
+        qaseIds,
+        project: test.parent.project()?.name ?? '',
+      }, {
+        runId,
+        env,
+        timestamp,
+        outcome: outcomeOf(test),
+        retries: test.results.length - 1,
+        durationMs: test.results.reduce((sum, result) => sum + result.duration, 0),
+      });
+    }
+    saveHistory(store);
+
+    const scores = scoreHistory(store, env);
+    const flaky = scores.filter(s => s.score > 0).slice(0, this.top);
+    const markdown = this.buildMarkdown(env, flaky, scores.length);
+    console.log(`\n${markdown}`);
+
+    fs.mkdirSync(this.outputDir, { recursive: true });
+    fs.writeFileSync(path.join(this.outputDir, 'flaky-report.md'), markdown, 'utf-8');
+    fs.writeFileSync(path.join(this.outputDir, 'flaky-report.json'), JSON.stringify({ env, runId, scores }, null, 2), 'utf-8');
+  }
+
+  private buildMarkdown(env: string, flaky: FlakyScore[], tracked: number): string {
+    const lines = [`## ⚠️ Most flaky tests — ${env}`, ''];
+    if (flaky.length === 0) {
+      lines.push(`No flaky tests in the history of ${tracked} test(s) (${HISTORY_FILE}).`);
+      return lines.join('\n') + '\n';
+    }
+    lines.push(
+      'Score = 100 × (flaky runs + pass↔fail flips / 2) / runs · trend = newer half of the runs vs older half',
+      '',
+      '| # | Test | Qase | Score | Trend | Flaky | Failed | Runs | Avg retries | Avg duration | Last |',
+      '|--:|------|------|------:|-------|------:|-------:|-----:|------------:|-------------:|------|',
+      ...flaky.map((s, i) => `| ${i + 1} | ${s.file} › ${s.title} | ${s.qaseIds.join(', ') || '–'} | ${s.score} | ${TREND_ICONS[s.trend]} ${s.trend} | ${
+        s.flaky} | ${s.failed} | ${s.runs} | ${s.avgRetries} | ${(s.avgDurationMs / 1000).toFixed(1)}s | ${OUTCOME_ICONS[s.lastOutcome]} |`),
+    );
+    return lines.join('\n') + '\n';
+  }
+}
+
+/** Playwright outcome → history outcome (flaky = failed, then passed on retry; quarantined failure = failed) */
+function outcomeOf(test: TestCase): RunOutcome {
+  if (quarantinedFailureOf(test.results[test.results.length - 1]?.annotations)) return 'failed';
+  switch (test.outcome()) {
+    case 'flaky': return 'flaky';
+    case 'unexpected': return 'failed';
+    case 'skipped': return 'skipped';
+    default: return 'passed';
+  }
+}
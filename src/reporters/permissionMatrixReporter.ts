@@ -0,0 +1,100 @@
+import type { Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import fs from 'fs';
+import path from 'path';
+import { PermissionCell, PERMISSION_ANNOTATION } from '../type/PermissionMatrix';
+
+/**
+ * Permission matrix reporter
+ * - Collects results of tests annotated with `permission` (see permission-matrix.spec.ts)
+ * - Prints a role × action grid per object and writes it to build/permission-matrix.md (+ .json)
+ *
+ * Legend: ✅ passed · ❌ failed · ⏭️ skipped · ⚠️ flaky (passed on retry) · ❔ unconfirmed (entry without a source, not run)
+ */
+
+type CellResult = PermissionCell & { status: string; retry: number; error?: string };
+
+interface PermissionMatrixReporterOptions {
+  outputDir?: string;
+}
+
+const ICONS: Record<string, string> = {
+  passed: '✅',
+  failed: '❌',
+  timedOut: '❌',
+  interrupted: '❌',
+  skipped: '⏭️',
+  flaky: '⚠️',
+};
+
+export default class PermissionMatrixReporter implements Reporter {
+  private readonly results = new Map<string, CellResult>();
+  private readonly outputDir: string;
+
+  constructor(options: PermissionMatrixReporterOptions = {}) {
+    this.outputDir = options.outputDir || path.join(process.cwd(), 'build');
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    const annotation = [...result.annotations, ...test.annotations].find(a => a.type === PERMISSION_ANNOTATION);
+    if (!annotation?.description) return;
+
+    const cell = JSON.parse(annotation.description) as PermissionCell;
+    const status = result.status === 'passed' && result.retry > 0 ? 'flaky' : result.status;
+    this.results.set(test.id, {
+      ...cell,
+      status,
+      retry: result.retry,
+      error: result.error?.message?.split('\n')[0],
+    });
+  }
+
+  onEnd(): void {
+    if (this.results.size === 0) return;
+
+    const markdown = this.buildMarkdown([...this.results.values()]);
+    console.log(`\n🔐 Permission matrix\n${markdown}`);
+
+    fs.mkdirSync(this.outputDir, { recursive: true });
+    fs.writeFileSync(path.join(this.outputDir, 'permission-matrix.md'), markdown, 'utf-8');
+    fs.writeFileSync(
+      path.join(this.outputDir, 'permission-matrix.json'),
+      JSON.stringify([...this.results.values()], null, 2),
+      'utf-8'
+    );
+  }
+
+  /** One table per object: rows = roles, columns = actions */
+  private buildMarkdown(results: CellResult[]): string {
+    const sections: string[] = [];
+    const objects = [...new Set(results.map(r => r.object))];
+
+    for (const object of objects) {
+      const cells = results.filter(r => r.object === object);
+      const roles = [...new Set(cells.map(c => c.role))];
+      const actions = [...new Set(cells.map(c => c.action))];
+
+      const lines = [
+        `### ${object}`,
+        '',
+        `| Role | ${actions.join(' | ')} |`,
+        `|------|${actions.map(() => '---').join('|')}|`,
+      ];
+      for (const role of roles) {
+        const row = actions.map(action => {
+          const cell = cells.find(c => c.role === role && c.action === action);
+          if (!cell) return '';
+          return cell.source ? `${ICONS[cell.status] ?? cell.status} ${cell.expected}` : `❔ ${cell.expected}?`;
+        });
+        lines.push(`| ${role} | ${row.join(' | ')} |`);
+      }
+
+      const failures = cells.filter(c => ['failed', 'timedOut', 'interrupted'].includes(c.status));
+      if (failures.length > 0) {
+        lines.push('', '**Failures**', '');
+        failures.forEach(f => lines.push(`- ${f.role} › ${f.action} (expected ${f.expected}): ${f.error ?? f.status}`));
+      }
+      sections.push(lines.join('\n'));
+    }
+    return sections.join('\n\n') + '\n';
+  }
+}
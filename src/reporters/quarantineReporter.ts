@@ -0,0 +1,78 @@
+import type { FullConfig, Reporter, Suite, TestCase } from '@playwright/test/reporter';
+import fs from 'fs';
+import path from 'path';
+import { QUARANTINE_ANNOTATION, QuarantineEntry } from '../type/Quarantine';
+import { findQuarantineEntry, isQuarantineExpired, loadQuarantine, quarantinedFailureOf, quarantineLabel } from '../utils/quarantine';
+import { extractQaseIds } from '../utils/runLogger';
+
+/**
+ * Quarantine reporter
+ * - Lists the quarantined tests of the run (src/data/quarantine.json) with their outcome:
+ *   failed (ignored), passed (candidate for release) or expired (failing the build)
+ * - Flags entries the fixture did not apply: a matching test whose spec does not use `@src/fixtures`
+ * - Written to the console and build/quarantine-report.md
+ *
+ * Running / ignoring failures / failing on expiry is done by the `quarantine` fixture (src/fixtures).
+ */
+
+interface QuarantineReporterOptions {
+  outputDir?: string;
+}
+
+export default class QuarantineReporter implements Reporter {
+  private readonly outputDir: string;
+  private suite?: Suite;
+
+  constructor(options: QuarantineReporterOptions = {}) {
+    this.outputDir = options.outputDir || path.join(process.cwd(), 'build');
+  }
+
+  onBegin(_config: FullConfig, suite: Suite): void {
+    this.suite = suite;
+  }
+
+  onEnd(): void {
+    const entries = loadQuarantine();
+    if (entries.length === 0) return;
+
+    const rows: string[] = [];
+    const matched = new Set<QuarantineEntry>();
+    for (const test of this.suite?.allTests() ?? []) {
+      const entry = findQuarantineEntry(entries, {
+        title: test.title.replace(/\s*\(Qase ID: [\d,\s]+\)/, ''),
+        // Relative to the repo root, as in quarantine.json (config.rootDir is the test dir)
+        file: path.relative(process.cwd(), test.location.file).split(path.sep).join('/'),
+        qaseIds: extractQaseIds(test.title, test.annotations),
+      });
+      if (!entry || test.results.length === 0) continue;
+      matched.add(entry);
+      rows.push(`| ${quarantineLabel(entry)} | ${test.title} | ${statusOf(test, entry)} | ${entry.reason} | ${entry.ticket} | ${entry.expires} |`);
+    }
+    if (rows.length === 0) return;
+
+    const markdown = [
+      `## 🚧 Quarantined tests (${rows.length})`,
+      '',
+      '| Entry | Test | Result | Reason | Ticket | Expires |',
+      '|-------|------|--------|--------|--------|---------|',
+      ...rows,
+      '',
+      `${entries.length - matched.size} other entr${entries.length - matched.size === 1 ? 'y' : 'ies'} did not match a test of this run.`,
+    ].join('\n') + '\n';
+    console.log(`\n${markdown}`);
+
+    fs.mkdirSync(this.outputDir, { recursive: true });
+    fs.writeFileSync(path.join(this.outputDir, 'quarantine-report.md'), markdown, 'utf-8');
+  }
+}
+
+function statusOf(test: TestCase, entry: QuarantineEntry): string {
+  if (isQuarantineExpired(entry)) return '❌ expired — fails the build';
+  const last = test.results[test.results.length - 1];
+  if (last.status === 'skipped') return '⏭️ skipped';
+  // The spec imports `test` from '@playwright/test' instead of '@src/fixtures': the entry has no effect
+  if (!last.annotations.some(a => a.type === QUARANTINE_ANNOTATION)) return `⚠️ not applied (${last.status}) — import test from @src/fixtures`;
+  const failure = quarantinedFailureOf(last.annotations);
+  if (failure) return `🚧 ${failure} (ignored)`;
+  return last.status === 'passed' ? '✅ passed — can be released' : `❌ ${last.status}`;
+}
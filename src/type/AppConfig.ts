@@ -0,0 +1,73 @@
+/**
+ * AppConfig Type Definition
+ *
+ * Typed view of the environment configuration built by `src/config/appConfig.ts`
+ * from `base.env` + `<env>.env` (+ `qase.env` when QASE_MODE is set) + process.env overrides.
+ *
+ * @example
+ * ```typescript
+ * const config = getConfig();
+ * await page.goto(config.urls.eventMaster);
+ * ```
+ */
+export interface AppConfig {
+  /** Environment name (EX: dev-staging, pre-prod) */
+  env: string;
+
+  /** Default login role from users.json */
+  userType: string;
+
+  /** Salesforce CLI org alias */
+  orgAlias: string;
+
+  salesforce: SalesforceApiConfig;
+
+  urls: PageUrls;
+
+  qase: QaseConfig;
+}
+
+export interface PageUrls {
+  /** Login / org base URL (PAGE_URL) */
+  base: string;
+  /** Lightning Experience origin used by RouteRegistry (LIGHTNING_URL, default: origin of EVENT_MASTER_URL) */
+  lightning: string;
+  /** Page URLs of the default routes (RouteRegistry `configUrl`) */
+  eventMaster: string;
+  lessons: string;
+  order: string;
+  timesheet: string;
+}
+
+export interface SalesforceApiConfig {
+  /** REST API version (SF_API_VERSION, default v59.0) */
+  apiVersion: string;
+  /** Explicit API session (SF_INSTANCE_URL + SF_ACCESS_TOKEN, EX: CI or a stub server); always set together */
+  instanceUrl?: string;
+  accessToken?: string;
+}
+
+export type QaseMode = 'testops' | 'report' | 'off';
+
+export interface QaseConfig {
+  /** undefined when QASE_MODE is not set (Qase reporter disabled) */
+  mode?: QaseMode;
+  fallback: QaseMode;
+  token?: string;
+  project?: string;
+  host: string;
+  environment?: string;
+  debug: boolean;
+  captureLogs: boolean;
+  run: {
+    id?: number;
+    title?: string;
+    description: string;
+    complete: boolean;
+  };
+  report: {
+    driver: string;
+    path: string;
+    format: string;
+  };
+}
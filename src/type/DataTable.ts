@@ -0,0 +1,31 @@
+/**
+ * DataTable Type Definitions
+ *
+ * Shapes returned by the reusable Lightning DataTable component object.
+ *
+ * @example
+ * ```typescript
+ * const rows: DataTableRow[] = await table.getAllRows();
+ * rows[0]['Event Master Name']; // "demo"
+ * ```
+ */
+
+/** One grid row, keyed by the `data-label` attribute of each cell */
+export type DataTableRow = Record<string, string>;
+
+/** Sort state reported by a column header (`aria-sort`) */
+export type SortDirection = 'ascending' | 'descending' | 'none';
+
+/** Predicate used to pick rows (select checkbox, find row, ...) */
+export type RowPredicate<T extends DataTableRow = DataTableRow> = (row: T, index: number) => boolean;
+
+export interface DataTableLoadOptions {
+  /** Stop scrolling once this many rows are loaded (default: load everything) */
+  maxRows?: number;
+
+  /** Max scroll attempts before giving up (default: 50) */
+  maxScrolls?: number;
+
+  /** Timeout for each lazy-load round in ms (default: 5000) */
+  timeout?: number;
+}
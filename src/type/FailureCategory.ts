@@ -0,0 +1,86 @@
+/**
+ * FailureCategory Type Definitions
+ *
+ * Root-cause categories assigned by the failure classifier reporter to every failed test attempt,
+ * and the summary it writes to build/failure-summary.json.
+ *
+ * @example
+ * ```typescript
+ * const result: FailureClassification = classifyFailure({ message, stack, url, attachments });
+ * // { category: 'auth-session', reason: 'Redirected to the login page', signal: 'url' }
+ * ```
+ */
+
+/** Annotation (test-results.json) holding "<category>: <reason>" of a failed attempt */
+export const FAILURE_CATEGORY_ANNOTATION = 'failure-category';
+
+/** Annotation added by the `failureUrl` fixture: page URL when the test failed */
+export const FAILURE_URL_ANNOTATION = 'failure-url';
+
+/** Ordered by precedence: the first matching category wins */
+export type FailureCategory =
+  | 'auth-session'
+  | 'network'
+  | 'test-data-missing'
+  | 'toast-timeout'
+  | 'locator-not-found'
+  | 'assertion-mismatch'
+  | 'timeout'
+  | 'other';
+
+/** Where the deciding clue was found */
+export type FailureSignal = 'url' | 'message' | 'stack' | 'attachment' | 'none';
+
+export interface FailureAttachment {
+  /** Attachment name (EX: 'Save - aura-requests.json') */
+  name: string;
+  contentType: string;
+  /** Text content (text / JSON attachments only) */
+  text?: string;
+}
+
+/** Everything known about one failed attempt */
+export interface FailureEvidence {
+  /** Error message(s), ANSI colours stripped */
+  message: string;
+  stack?: string;
+  /** Page URL at failure (from the `failureUrl` fixture) */
+  url?: string;
+  attachments: FailureAttachment[];
+}
+
+export interface FailureClassification {
+  category: FailureCategory;
+  /** Short human-readable explanation (EX: 'Redirected to the login page') */
+  reason: string;
+  signal: FailureSignal;
+}
+
+export interface FailureSummaryEntry extends FailureClassification {
+  file: string;
+  /** Title path without the Qase ID suffix (EX: 'Event Master › Create event') */
+  title: string;
+  qaseIds: number[];
+  project: string;
+  /** 0 = first attempt */
+  retry: number;
+  /** true when a later retry passed (the test ended up flaky, not failed) */
+  recovered: boolean;
+  /** true when the test is quarantined: the failure did not fail the build */
+  quarantined: boolean;
+  /** First line of the error message */
+  error: string;
+  url?: string;
+}
+
+export interface FailureSummary {
+  generatedAt: string;
+  env: string;
+  /** Tests that ended up failed, per category of their last failed attempt */
+  failed: Partial<Record<FailureCategory, number>>;
+  /** Quarantined tests that ended up failed (ignored by the build), per category of their last failed attempt */
+  quarantined: Partial<Record<FailureCategory, number>>;
+  /** Failed attempts later recovered by a retry, per category */
+  flaky: Partial<Record<FailureCategory, number>>;
+  failures: FailureSummaryEntry[];
+}
@@ -0,0 +1,63 @@
+/**
+ * FlakyHistory Type Definitions
+ *
+ * Run history kept by the flaky history reporter (build/history/test-history.json)
+ * and the flakiness scores computed from it.
+ *
+ * @example
+ * ```typescript
+ * const store: HistoryStore = loadHistory();
+ * const scores: FlakyScore[] = scoreHistory(store, 'dev-staging');
+ * ```
+ */
+
+/** Final outcome of a test in one run: flaky = failed first, passed on retry */
+export type RunOutcome = 'passed' | 'failed' | 'flaky' | 'skipped';
+
+export type FlakyTrend = 'new' | 'rising' | 'falling' | 'stable';
+
+export interface TestRunRecord {
+  runId: string;
+  env: string;
+  timestamp: string;
+  outcome: RunOutcome;
+  /** Retries used (attempts - 1) */
+  retries: number;
+  /** Duration of all attempts */
+  durationMs: number;
+}
+
+export interface TestHistory {
+  /** "<file> › <describe> › <title> #<qase ids>" */
+  key: string;
+  file: string;
+  title: string;
+  qaseIds: number[];
+  project: string;
+  /** Oldest first, last FLAKY_HISTORY_RUNS runs per environment */
+  runs: TestRunRecord[];
+}
+
+export interface HistoryStore {
+  version: 1;
+  tests: Record<string, TestHistory>;
+}
+
+export interface FlakyScore {
+  key: string;
+  file: string;
+  title: string;
+  qaseIds: number[];
+  env: string;
+  runs: number;
+  flaky: number;
+  failed: number;
+  /** pass ↔ fail changes between consecutive runs */
+  flips: number;
+  /** 0..100: (flaky + flips / 2) / executed runs */
+  score: number;
+  trend: FlakyTrend;
+  avgRetries: number;
+  avgDurationMs: number;
+  lastOutcome: RunOutcome;
+}
@@ -0,0 +1,20 @@
+/**
+ * LightningIdle Type Definitions
+ *
+ * Options of `BasePage.waitForLightningIdle()` / `waitForLightningIdle(page)`.
+ *
+ * @example
+ * ```typescript
+ * await eventPage.waitForLightningIdle({ timeout: 20000, quietMs: 500 });
+ * ```
+ */
+export interface LightningIdleOptions {
+  /** Max wait in ms (default: 15000) */
+  timeout?: number;
+
+  /** How long the page must stay quiet (no XHR, no spinner) in ms (default: 300) */
+  quietMs?: number;
+
+  /** Throw on timeout (default: true). `false` logs a warning and continues */
+  strict?: boolean;
+}
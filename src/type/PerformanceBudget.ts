@@ -0,0 +1,47 @@
+/**
+ * PerformanceBudget Type Definitions
+ *
+ * Step duration budgets used by `@TrackTime` and the baseline used by `npm run report:perf`.
+ *
+ * @example
+ * ```json
+ * { "mode": "warn", "budgets": { "saveNew": 8000, "searchEventByName": 5000 } }
+ * ```
+ */
+
+/** warn → annotation + console warning, fail → the test fails, off → not checked */
+export type BudgetMode = 'warn' | 'fail' | 'off';
+
+export interface BudgetFile {
+  mode?: BudgetMode;
+  /** Step (method) name → max duration in ms */
+  budgets: Record<string, number>;
+}
+
+export interface TrackTimeOptions {
+  /** Budget in ms for this step (wins over the budget file) */
+  budgetMs?: number;
+  /** Mode for this step (wins over the budget file and PERF_BUDGET_MODE) */
+  mode?: BudgetMode;
+}
+
+/** Durations of every step in one run */
+export interface RunTimings {
+  runId: string;
+  env: string;
+  timestamp: string;
+  /** Step → durations in ms (one per call) */
+  steps: Record<string, number[]>;
+}
+
+export interface StepTrend {
+  step: string;
+  samples: number;
+  p50: number;
+  p90: number;
+  baselineP50?: number;
+  baselineP90?: number;
+  /** Change of p90 vs baseline p90 (0.25 = 25% slower) */
+  change?: number;
+  regression: boolean;
+}
@@ -0,0 +1,49 @@
+/**
+ * Permission matrix type definitions
+ * Source of truth: src/data/permissionMatrix.json
+ *
+ * @example
+ * ```json
+ * { "role": "teacher", "object": "Event Master", "source": "Teacher profile", "actions": { "New": "denied", "Edit": "allowed" } }
+ * ```
+ */
+
+/** Actions a role can be checked against (list view buttons + row menu items) */
+export type PermissionAction = 'New' | 'Edit' | 'Delete' | 'Change Owner' | 'Import' | 'Assign Label';
+
+/** Expected outcome of an action */
+export type PermissionOutcome = 'allowed' | 'denied';
+
+export interface PermissionMatrixEntry {
+  /** Role key from users.json (EX: 'admin', 'teacher') */
+  role: string;
+
+  /** Object label (EX: 'Event Master') */
+  object: string;
+
+  /**
+   * Where the expectations come from (profile / permission set of the role's user).
+   * Without it the entry is unconfirmed: its tests are listed as fixme and do not run.
+   */
+  source?: string;
+
+  /** Expected outcome per action; actions not listed are not checked */
+  actions: Partial<Record<PermissionAction, PermissionOutcome>>;
+}
+
+export interface PermissionMatrix {
+  entries: PermissionMatrixEntry[];
+}
+
+/** One generated test: role × object × action */
+export interface PermissionCell {
+  role: string;
+  object: string;
+  action: PermissionAction;
+  expected: PermissionOutcome;
+  /** Source of the expectation; undefined = unconfirmed cell */
+  source?: string;
+}
+
+/** Annotation type used to link a test result back to its matrix cell */
+export const PERMISSION_ANNOTATION = 'permission';
@@ -0,0 +1,74 @@
+/**
+ * QaseCase Type Definitions
+ *
+ * Qase metadata extracted from spec files (`qase(id, title)`, `qase.title`, `qase.fields`,
+ * `{ tag }` and `test.step` titles) and the result of comparing it with the Qase case.
+ *
+ * @example
+ * ```typescript
+ * const cases: SpecCase[] = parseSpecFiles(['tests']);
+ * // { ids: [661], title: 'Create a New Event Master using "Save & New" action',
+ * //   tags: ['Regression'], steps: [{ title: 'Create new Event Master with name "${...}"', steps: [] }], ... }
+ * ```
+ */
+export interface SpecStep {
+  /** `test.step` title as written in the spec (template expressions kept as `${...}`) */
+  title: string;
+  /** Expected result / data of `qaseStep({ action, expected, data })` or `qase.step(action, expected, data)` */
+  expected?: string;
+  data?: string;
+  /** Nested `test.step` calls */
+  steps: SpecStep[];
+  line: number;
+}
+
+export interface SpecCase {
+  /** Qase IDs of `qase(id, ...)` / `qase([id1, id2], ...)` (empty = not linked yet) */
+  ids: number[];
+  /** `qase.title()` when present, otherwise the test title */
+  title: string;
+  /** Title passed to `test()` / `qase(id, title)` (without "@Tag" words) */
+  testTitle: string;
+  /** `qase.title()` override, when present */
+  qaseTitle?: string;
+  description?: string;
+  preconditions?: string;
+  postconditions?: string;
+  /** Playwright tags without "@" (from `{ tag }` and "@Tag" words in the title) */
+  tags: string[];
+  steps: SpecStep[];
+  /** `test.describe` titles, outermost first */
+  describe: string[];
+  /** Path relative to the repo root */
+  file: string;
+  line: number;
+}
+
+/** Fields the sync manages on the Qase side */
+export type SyncedField = 'title' | 'description' | 'preconditions' | 'postconditions' | 'tags' | 'steps';
+
+export type CaseSyncAction = 'create' | 'update' | 'unchanged' | 'notFound' | 'error';
+
+export interface CaseFieldChange {
+  qase: unknown;
+  spec: unknown;
+}
+
+export interface CaseSyncEntry {
+  action: CaseSyncAction;
+  /** Qase case ID (undefined until created) */
+  id?: number;
+  title: string;
+  file: string;
+  line: number;
+  changes: Partial<Record<SyncedField, CaseFieldChange>>;
+  error?: string;
+}
+
+export interface CaseSyncReport {
+  project: string;
+  dryRun: boolean;
+  generatedAt: string;
+  summary: Record<CaseSyncAction, number>;
+  cases: CaseSyncEntry[];
+}
@@ -0,0 +1,43 @@
+/**
+ * QaseLint Type Definitions
+ *
+ * Rules and report of `npm run lint:qase` (static checks of Qase IDs, tags and titles in specs).
+ *
+ * @example
+ * ```json
+ * { "allowedTags": ["Smoke", "Regression"], "placeholderIds": [0, 1],
+ *   "rules": { "duplicate-id": "error", "title-mismatch": "warn" } }
+ * ```
+ */
+
+export type QaseLintRule = 'duplicate-id' | 'placeholder-id' | 'missing-id' | 'unknown-tag' | 'title-mismatch';
+
+/** error → exit code 1, warn → reported only, off → not checked */
+export type QaseLintSeverity = 'error' | 'warn' | 'off';
+
+export interface QaseLintConfig {
+  /** Tags allowed in `{ tag }` / titles, without "@" */
+  allowedTags: string[];
+  /** IDs used as placeholders instead of a real Qase case */
+  placeholderIds: number[];
+  rules: Partial<Record<QaseLintRule, QaseLintSeverity>>;
+}
+
+export interface QaseLintIssue {
+  rule: QaseLintRule;
+  severity: Exclude<QaseLintSeverity, 'off'>;
+  file: string;
+  line: number;
+  title: string;
+  ids: number[];
+  message: string;
+}
+
+export interface QaseLintReport {
+  generatedAt: string;
+  files: number;
+  tests: number;
+  errors: number;
+  warnings: number;
+  issues: QaseLintIssue[];
+}
@@ -0,0 +1,28 @@
+/**
+ * QaseStep Type Definitions
+ *
+ * A test step declared for Qase: action, input data and expected result (see `qaseStep()`).
+ *
+ * @example
+ * ```typescript
+ * await qaseStep({ action: 'Click "Save"', data: { name }, expected: 'Toast "was created" is displayed' }, async step => {
+ *   await eventMasterPage.clickSaveButton();
+ *   await step.attach('form.json', JSON.stringify(formData), 'application/json');
+ * });
+ * ```
+ */
+export interface QaseStepDefinition {
+  /** What the user does (Qase step "Action") */
+  action: string;
+
+  /** Input data (Qase step "Data"); objects are sent as redacted JSON */
+  data?: string | Record<string, unknown>;
+
+  /** Expected result (Qase step "Expected result") */
+  expected?: string;
+}
+
+export interface QaseStepContext {
+  /** Attach a file to THIS step (Qase step result + HTML report) */
+  attach(name: string, body: string | Buffer, contentType?: string): Promise<void>;
+}
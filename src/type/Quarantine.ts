@@ -0,0 +1,50 @@
+/**
+ * Quarantine type definitions
+ * Source of truth: src/data/quarantine.json
+ *
+ * @example
+ * ```json
+ * { "qaseId": 661, "reason": "Toast sometimes hidden behind the modal", "ticket": "PX-1234", "expires": "2026-11-30" }
+ * ```
+ */
+
+/** Annotation added to quarantined tests: "<reason> · <ticket> · until <expires>" */
+export const QUARANTINE_ANNOTATION = 'quarantine';
+
+/**
+ * Annotation added when a quarantined test failed: its real status (failed / timedOut / interrupted).
+ * The fixture turns the failure into an expected one to keep the build green; reporters read this
+ * annotation to still count the test as failed (ignored).
+ */
+export const QUARANTINE_FAILURE_ANNOTATION = 'quarantine-failure';
+
+export interface QuarantineEntry {
+  /** Qase case ID of the test (from `qase(id, title)`) */
+  qaseId?: number;
+
+  /** Test title without the Qase ID suffix (used when the test has no real Qase ID) */
+  title?: string;
+
+  /** Spec file relative to the repo root, narrows a title match (EX: 'tests/scheduling/event/create-event-master.spec.ts') */
+  file?: string;
+
+  /** Why the test is quarantined */
+  reason: string;
+
+  /** Ticket tracking the fix (key or URL) */
+  ticket: string;
+
+  /** Last day of the quarantine (YYYY-MM-DD, inclusive); afterwards the test fails */
+  expires: string;
+}
+
+export interface QuarantineList {
+  entries: QuarantineEntry[];
+}
+
+/** What a test is matched on */
+export interface QuarantineTarget {
+  title: string;
+  file: string;
+  qaseIds: number[];
+}
@@ -0,0 +1,62 @@
+import { Page } from '@playwright/test';
+
+/**
+ * RetryPolicy Type Definitions
+ *
+ * Policies used by `@Retry(policy)`: which errors are retried, how long to wait, how to recover.
+ *
+ * @example
+ * ```typescript
+ * @Retry({ maxAttempts: 3, retryOn: ['timeout', 'detached'], recover: [RecoveryActions.closeModals] })
+ * async saveNew(...) { ... }
+ * ```
+ */
+
+/**
+ * Error categories recognised by `classifyRetryError()`
+ * - `assertion` is NEVER retried, whatever the policy says
+ */
+export type RetryErrorKind = 'timeout' | 'detached' | 'toastNotFound' | 'navigation' | 'assertion' | 'other';
+
+export interface BackoffOptions {
+  /** Delay before the first retry in ms (default: 1000) */
+  baseDelayMs?: number;
+
+  /** Multiplier per retry: 1 = fixed delay, 2 = exponential (default: 2) */
+  factor?: number;
+
+  /** Upper bound of a single delay in ms (default: 10000) */
+  maxDelayMs?: number;
+
+  /** Random spread 0..1 applied to each delay (default: 0.2 → ±20%) */
+  jitter?: number;
+}
+
+/** Context passed to recovery hooks before each retry */
+export interface RecoveryContext {
+  /** Page of the decorated object (`this.page`), when it has one */
+  page?: Page;
+  /** Decorated method name */
+  step: string;
+  /** Attempt that just failed (1-based) */
+  attempt: number;
+  error: unknown;
+}
+
+export type RecoveryAction = (context: RecoveryContext) => Promise<void>;
+
+export interface RetryPolicy {
+  /** Policy name shown in logs and annotations */
+  name?: string;
+
+  /** Total attempts including the first one (default: 3) */
+  maxAttempts?: number;
+
+  /** Error kinds to retry, or a custom predicate (default: timeout, detached, toastNotFound) */
+  retryOn?: RetryErrorKind[] | ((error: unknown, kind: RetryErrorKind) => boolean);
+
+  backoff?: BackoffOptions;
+
+  /** Hooks run in order before each retry (EX: close modals, press Escape, reload the list view) */
+  recover?: RecoveryAction[];
+}
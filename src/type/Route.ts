@@ -0,0 +1,57 @@
+/**
+ * Route Type Definitions
+ *
+ * Lightning page routes used by `RouteRegistry` to build URLs and navigate.
+ *
+ * @example
+ * ```typescript
+ * RouteRegistry.register('event', { objectApiName: 'MANAERP__Event_Master__c', pageType: 'home' });
+ * await RouteRegistry.navigate(page, 'event-record', { recordId: 'a0B5g00000XyZ12EAF' });
+ * ```
+ */
+import { PageUrls } from './AppConfig';
+
+/** Lightning page types (URL shape) */
+export type LightningPageType = 'home' | 'list' | 'new' | 'record' | 'relatedList';
+
+/** Record page mode (`/lightning/r/<Object>/<Id>/<mode>`) */
+export type RecordMode = 'view' | 'edit';
+
+/** A registered route: which object, which kind of page and its defaults */
+export interface RouteDefinition {
+  /** Object API name (EX: MANAERP__Event_Master__c) */
+  objectApiName: string;
+
+  pageType: LightningPageType;
+
+  /** Default list view API name for `list` routes (EX: __Recent, All) */
+  listView?: string;
+
+  /** Default related list API name for `relatedList` routes (EX: MANAERP__Events__r) */
+  relatedList?: string;
+
+  /** Selector that proves the page is rendered (default: per page type, see LightningLocators) */
+  readySelector?: string;
+
+  /**
+   * Page URL of the env config to use instead of the built URL (EX: 'eventMaster' → EVENT_MASTER_URL)
+   * Lets an org override the object path or list view of a page in its .env file
+   */
+  configUrl?: Exclude<keyof PageUrls, 'base' | 'lightning'>;
+}
+
+/** Values supplied at navigation time (override route defaults) */
+export interface RouteParams {
+  /** Required for `record` and `relatedList` routes */
+  recordId?: string;
+  listView?: string;
+  relatedList?: string;
+  mode?: RecordMode;
+  /** Extra query string parameters */
+  query?: Record<string, string>;
+}
+
+export interface NavigateOptions {
+  /** Max wait for the page to render in ms (default: 30000) */
+  timeout?: number;
+}
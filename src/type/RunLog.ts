@@ -0,0 +1,53 @@
+/**
+ * RunLog Type Definitions
+ *
+ * One common schema for every structured log entry written by `runLogger`
+ * (LogStep, Retry, TrackTime, ...), one JSON object per line.
+ *
+ * @example
+ * ```json
+ * {"timestamp":"2025-09-10T01:23:45.678Z","seq":3,"runId":"1760000000000","worker":1,
+ *  "source":"logStep","step":"Create event","status":"success","durationMs":812,
+ *  "test":{"testId":"a1b2","title":"Create ... (Qase ID: 10072)","project":"scheduling","retry":0,"qaseIds":[10072]}}
+ * ```
+ */
+
+/** Who wrote the entry */
+export type RunLogSource = 'logStep' | 'retry' | 'trackTime' | 'captureOnFailure' | 'custom';
+
+export type RunLogStatus = 'start' | 'success' | 'failed' | 'retry' | 'info';
+
+/** Test the entry belongs to (absent for setup / teardown / scripts) */
+export interface RunLogTestContext {
+  testId: string;
+  title: string;
+  /** File › describe › title */
+  titlePath: string[];
+  project: string;
+  /** Retry index (0 = first run) */
+  retry: number;
+  /** Qase case IDs from `qase(id, title)` or the QaseID annotation */
+  qaseIds: number[];
+}
+
+export interface RunLogEntry {
+  timestamp: string;
+  /** Order of the entry within its worker (tie-breaker for equal timestamps) */
+  seq: number;
+  runId: string;
+  worker: number;
+  source: RunLogSource;
+  step: string;
+  status: RunLogStatus;
+  durationMs?: number;
+  attempt?: number;
+  args?: unknown[];
+  result?: unknown;
+  error?: string;
+  /** Free-form extras (source specific) */
+  data?: Record<string, unknown>;
+  test?: RunLogTestContext;
+}
+
+/** Fields a caller provides; the logger adds timestamp, seq, runId, worker and test */
+export type RunLogInput = Omit<RunLogEntry, 'timestamp' | 'seq' | 'runId' | 'worker' | 'test'>;
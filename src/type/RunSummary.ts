@@ -0,0 +1,69 @@
+/**
+ * RunSummary Type Definitions
+ *
+ * Readable summary of one Playwright run, built from test-results.json (json reporter)
+ * and the merged step log (test-logs.json) by `npm run report:summary`.
+ *
+ * @example
+ * ```typescript
+ * const summary: RunSummary = buildRunSummary(report, readStepLog());
+ * fs.writeFileSync('build/summary/summary.md', toMarkdown(summary));
+ * ```
+ */
+
+/**
+ * Final outcome of a test (flaky = failed first, passed on retry;
+ * quarantined = failed, but ignored by the build because of its src/data/quarantine.json entry)
+ */
+export type SummaryOutcome = 'passed' | 'failed' | 'quarantined' | 'flaky' | 'skipped';
+
+export interface SummaryCounts {
+  total: number;
+  passed: number;
+  failed: number;
+  quarantined: number;
+  flaky: number;
+  skipped: number;
+}
+
+export interface SummaryTest {
+  project: string;
+  /** Spec file relative to the test dir */
+  file: string;
+  /** Describe › title, without the Qase ID suffix */
+  title: string;
+  tags: string[];
+  qaseIds: number[];
+  outcome: SummaryOutcome;
+  retries: number;
+  /** Sum of all attempts */
+  durationMs: number;
+  /** Error of the last failed attempt (ANSI colours stripped) */
+  error?: string;
+  /** "<category>: <reason>" from the failure classifier reporter */
+  failureCategory?: string;
+}
+
+export interface SlowStep {
+  step: string;
+  /** Log source (logStep / trackTime) */
+  source: string;
+  calls: number;
+  avgMs: number;
+  maxMs: number;
+  /** Test of the slowest call */
+  slowestIn?: string;
+}
+
+export interface RunSummary {
+  generatedAt: string;
+  env: string;
+  /** Wall-clock duration of the run (from the json reporter stats) */
+  durationMs: number;
+  totals: SummaryCounts;
+  byProject: Record<string, SummaryCounts>;
+  /** Tests without tags are counted under "(none)" */
+  byTag: Record<string, SummaryCounts>;
+  tests: SummaryTest[];
+  slowestSteps: SlowStep[];
+}
@@ -0,0 +1,21 @@
+/**
+ * Salesforce session used by the REST API client
+ * - Obtained from `sf org display` in global setup, or from the `sid` cookie of the saved storage state
+ */
+export interface SalesforceSession {
+  /** Org instance URL (EX: https://dev-staging.my.salesforce.com) */
+  instanceUrl: string;
+
+  /** OAuth access token or session id */
+  accessToken: string;
+
+  /** Username the session belongs to (optional) */
+  username?: string;
+}
+
+/** Generic SObject record returned by the REST API */
+export type SObjectRecord = {
+  Id?: string;
+  attributes?: { type: string; url: string };
+  [field: string]: any;
+};
@@ -0,0 +1,40 @@
+/**
+ * SoftAssertion Type Definitions
+ *
+ * Failures collected by a soft-assertion scope (`softAssert.scope()`): instead of stopping at the
+ * first failed verification, every failure is recorded and thrown together at the end of the scope.
+ *
+ * @example
+ * ```typescript
+ * await softAssert.scope('Mandatory fields', async () => {
+ *   await eventPage.checkMandatoryField('Event Master Name');
+ *   await eventPage.checkMandatoryField('Event Type');
+ * });
+ * // ❌ 2 soft assertion(s) failed in "Mandatory fields": ...
+ * ```
+ */
+export interface SoftAssertionResult {
+  /** Verification that ran (EX: "checkMandatoryField") */
+  check: string;
+
+  /** Field / element under test (EX: "Event Type") */
+  field: string;
+
+  /** Expected value (EX: "Event Type Complete this field.") */
+  expected: string;
+
+  /** Actual value when known (from the Playwright matcher result) */
+  actual?: string;
+
+  status: 'passed' | 'failed';
+
+  /** First line of the original error (failed only) */
+  message?: string;
+}
+
+/** What a verification declares about itself when it runs inside a scope */
+export interface SoftCheck {
+  check: string;
+  field: string;
+  expected: string | number;
+}
@@ -0,0 +1,39 @@
+/**
+ * TestImpact Type Definitions
+ *
+ * Import graph of the specs (tests/** → src/**) and the specs impacted by a list of changed files,
+ * used by `npm run test:impact`.
+ *
+ * @example
+ * ```typescript
+ * const graph = buildImportGraph(['tests']);
+ * const impact: TestImpact = selectImpactedSpecs(graph, ['src/locators/eventLocators.ts']);
+ * // impact.specs → ['tests/scheduling/event/create-event-master.spec.ts', ...]
+ * ```
+ */
+
+/** Repo-relative paths, "/" separated */
+export interface ImportGraph {
+  /** Spec files found under the roots */
+  specs: string[];
+  /** File → local files it imports (or references as a data file path) */
+  imports: Record<string, string[]>;
+}
+
+export interface ImpactedSpec {
+  spec: string;
+  /** Shortest import chain from the spec to a changed file (spec first) */
+  chain: string[];
+}
+
+export interface TestImpact {
+  changed: string[];
+  /** Every spec must run (a file every test depends on changed, see `runAllReason`) */
+  runAll: boolean;
+  runAllReason?: string;
+  /** Specs to run, sorted */
+  specs: string[];
+  impacted: ImpactedSpec[];
+  /** Changed files no spec depends on (reporters, scripts, docs, ...) */
+  unrelated: string[];
+}
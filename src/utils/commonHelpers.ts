@@ -1,13 +1,14 @@
 import { Page, ElementHandle, Locator } from '@playwright/test';
-import { CommonConstants } from '../constants/commonConstants';
+import { RouteRegistry } from './routeRegistry';
+import { RouteParams } from '../type/Route';
 
 export class CommonHelpers {
   /**
-   * Navigate to a specific page by name.
+   * Navigate to a registered route by name and wait until the page is rendered.
+   * Routes live in RouteRegistry (src/utils/routeRegistry.ts).
    */
-  static async navigateToPage(page: Page, pageName: string): Promise<void> {
-    const url = this.getPageURL(pageName);
-    await page.goto(url);
+  static async navigateToPage(page: Page, pageName: string, params: RouteParams = {}): Promise<void> {
+    await RouteRegistry.navigate(page, pageName, params);
   }
 
   /**
@@ -53,24 +54,6 @@ export class CommonHelpers {
     return typeof value === 'number' && value >= 0;
   }
 
-  /**
-   * Resolve URL by page name.
-   */
-  private static getPageURL(pageName: string): string {
-    switch (pageName) {
-      case CommonConstants.PAGE_EVENT_MASTER:
-        return process.env.EVENT_MASTER_URL as string;
-      case CommonConstants.PAGE_LESSONS:
-        return process.env.LESSONS_URL as string;
-      case CommonConstants.PAGE_TIMESHEET:
-        return process.env.TIMESHEET_URL as string;
-      case CommonConstants.PAGE_ORDER:
-        return process.env.ORDER_URL as string;
-      default:
-        return process.env.PAGE_URL as string;
-    }
-  }
-
   // async function navigateToSite(page: Page,  timeout = 15000): Promise<void> {
   //   const url = process.env.PAGE_URL || '/';
   //   if (!url) {
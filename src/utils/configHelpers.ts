@@ -5,7 +5,8 @@ import * as path from 'path';
 import { CommonConstants } from "../constants/commonConstants";
 import { loadJsonFromFile } from "./jsonHelper";
 import { UserConstants } from "../constants/userConstants";
-import * as dotenv from "dotenv";
+import { getConfig, loadAppConfig } from "../config/appConfig";
+import { AppConfig } from "../type/AppConfig";
 
 export interface User {
   username: string;
@@ -13,23 +14,16 @@ export interface User {
 }
 
 /**
- * Load environment-specific .env file (staging, pre-prod, …)
+ * Load and validate environment-specific config (staging, pre-prod, …)
+ * - Thin wrapper over src/config/appConfig.ts, kept for existing callers
  */
 export async function loadConfig(
   env: string = CommonConstants.STAGING
-): Promise<void> {
-  const filePath = path.resolve(__dirname, "..", "config", `${env.trim()}.env`);
-  console.log(`🌍 Loading environment config: ${filePath}`);
-  if (!fs.existsSync(filePath)) {
-    throw new Error(`❌ Environment config file not found: ${filePath}`);
-  }
-
-  const result = dotenv.config({ path: filePath });
-  if (result.error) {
-    throw new Error(`❌ Failed to load env file: ${filePath}. Error: ${result.error}`);
-  }
-
-  console.log(`✅ Loaded environment config: ${filePath}`);
+): Promise<AppConfig> {
+  console.log(`🌍 Loading environment config: ${env}`);
+  const config = loadAppConfig(env.trim());
+  console.log(`✅ Loaded environment config: ${env}`);
+  return config;
 }
 
 /**
@@ -37,7 +31,7 @@ export async function loadConfig(
  */
 export async function loadUserByEnv(
   env: string = CommonConstants.STAGING,
-  userType: string = process.env.USER_TYPE || UserConstants.USR_DEFAULT // ✅ fallback cho USER_TYPE
+  userType: string = getConfig(env).userType
 ): Promise<User> {
   const jsonData = await loadJsonFromFile(UserConstants.USER_JSON_PATH);
   const dataByEnv = jsonData[env.trim()];
@@ -140,8 +134,13 @@ interface OrgEntry {
   [key: string]: any;
 }
 
-export function getOrgAlias(alias?: string, env?: string): string {
-  const ENV = (env || process.env.ENV || 'dev-staging').trim();
+/**
+ * Resolve the sf CLI alias of an environment from orgList.json (read only: nothing is written to process.env)
+ * @param alias - Alias from the config (getConfig().orgAlias)
+ * @param env - Environment name (getConfig().env)
+ */
+export function getOrgAlias(alias: string | undefined, env: string): string {
+  const ENV = env.trim();
   const orgListPath =
     process.env.ORG_LIST_PATH ||
     path.resolve(process.cwd(), 'src', 'config', 'orgList.json');
@@ -188,7 +187,6 @@ export function getOrgAlias(alias?: string, env?: string): string {
     );
     if (found) {
       console.log(`✅ Using provided alias: ${found.alias}`);
-      injectOrgEnv(found);
       return found.alias.trim();
     }
     console.warn(`⚠️ Provided alias '${alias}' not found or disconnected.`);
@@ -203,7 +201,6 @@ export function getOrgAlias(alias?: string, env?: string): string {
 
   if (byEnv.length > 0) {
     console.log(`✅ Auto-selected alias for ENV='${ENV}': ${byEnv[0].alias}`);
-    injectOrgEnv(byEnv[0]);
     return byEnv[0].alias.trim();
   }
 
@@ -211,7 +208,6 @@ export function getOrgAlias(alias?: string, env?: string): string {
   const firstConnected = allOrgs.find(isConnected);
   if (firstConnected) {
     console.log(`✅ Fallback alias: ${firstConnected.alias}`);
-    injectOrgEnv(firstConnected);
     return firstConnected.alias.trim();
   }
 
@@ -219,12 +215,3 @@ export function getOrgAlias(alias?: string, env?: string): string {
   console.warn(`⚠️ No connected orgs found — using default alias 'myOrgAlias'.`);
   return 'myOrgAlias';
 }
-
-/**
- * 🔐 Inject org credentials (instanceUrl, alias, token) into process.env
- */
-function injectOrgEnv(org: OrgEntry) {
-  if (org.instanceUrl) process.env.INSTANCE_URL = org.instanceUrl;
-  process.env.SFDX_ALIAS = org.alias;
-  if (org.accessToken) process.env.ACCESS_TOKEN = org.accessToken;
-}
\ No newline at end of file
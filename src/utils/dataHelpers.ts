@@ -8,7 +8,23 @@ export interface BaseData {
 }
 
 /**
-* Attach timestamp to 1 or more objects (usually used when creating dynamic data tests)
+ * Marker of names generated by the framework: "<name> PWT-<epoch ms>"
+ * The test data sweep only deletes records carrying it, never data created by people or other tools.
+ */
+export const TEST_DATA_MARKER = 'PWT';
+
+/**
+* Build a test data name with the framework marker and a timestamp
+* @param name - Original name (eg: 'Sample Event')
+* @param timestamp - Epoch ms (default: now); add an index to keep names of one batch unique
+* @returns Name like "Sample Event PWT-1760000000000"
+ */
+export function testDataName(name: string, timestamp: number = Date.now()): string {
+  return `${name} ${TEST_DATA_MARKER}-${timestamp}`;
+}
+
+/**
+* Attach the test data marker + timestamp to 1 or more objects (usually used when creating dynamic data tests)
 * @param items - Original object array
 * @param key - Field name to append timestamp (eg: 'eventMasterName', 'name', ...)
 * @returns New object array with name that has timestamp appended
@@ -20,7 +36,7 @@ export function updateNamesWithTimestamp<T extends BaseData>(
   const timestamp = Date.now();
   return items.map((item, index) => ({
     ...item,
-    [key]: `${item[key]} ${timestamp + index}`,
+    [key]: testDataName(String(item[key]), timestamp + index),
   }));
 }
 
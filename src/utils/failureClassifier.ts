@@ -0,0 +1,134 @@
+import { SiteLocators } from '../locators/siteLocators';
+import { FailureAttachment, FailureCategory, FailureClassification, FailureEvidence, FailureSignal } from '../type/FailureCategory';
+
+/**
+ * Failure classifier
+ * Purpose:
+ * - Tell why a test went red: expired session, changed locator, real assertion failure, environment down, ...
+ * - Rules run in order, the first match wins (an auth redirect explains the locator timeout that follows it)
+ * - Clues: page URL at failure, error message, stack trace, attachments from @CaptureOnFailure (aura-requests.json, console-errors.json)
+ *
+ * Categories:
+ * - auth-session        redirected to the login page, INVALID_SESSION_ID, expired session
+ * - network             net::ERR_*, ECONNREFUSED, 5xx / maintenance page, failed Aura requests
+ * - test-data-missing   record / JSON data not found, deleted or invalid record IDs
+ * - toast-timeout       timed out waiting for a Lightning toast
+ * - locator-not-found   waiting for a locator timed out, strict mode violations, 0 elements
+ * - assertion-mismatch  expect() / soft assertion failures
+ * - timeout             test timeout without a more specific clue
+ * - other
+ *
+ * @example
+ * ```typescript
+ * const { category, reason } = classifyFailure({ message: error.message, stack: error.stack, url, attachments: [] });
+ * ```
+ */
+
+interface FailureRule {
+  category: FailureCategory;
+  reason: string;
+  /** Checked against the page URL at failure */
+  url?: RegExp;
+  /** Checked against the error message, then the stack */
+  text?: RegExp;
+  /** Checked against text attachments */
+  attachment?: (attachment: FailureAttachment) => boolean;
+  /** Rule is skipped when the message matches (EX: the element was found, only its value was wrong) */
+  unless?: RegExp;
+}
+
+const ANSI_PATTERN = /\u001b\[[0-9;]*m/g;
+const TOAST_SELECTORS = [SiteLocators.SUCCESS_TOAST, SiteLocators.ERROR_TOAST].map(escapeRegExp).join('|');
+
+const RULES: FailureRule[] = [
+  {
+    category: 'auth-session',
+    reason: 'Redirected to the login page',
+    url: /login\.salesforce\.com|test\.salesforce\.com|\/secur\/(login|frontdoor)|[?&]ec=30[12]|[?&]startURL=/i,
+  },
+  {
+    category: 'auth-session',
+    reason: 'Session expired or invalid',
+    text: /INVALID_SESSION_ID|Session expired|session (is )?(invalid|expired)|No Salesforce session|\b401\b.*Unauthorized/i,
+    attachment: a => /INVALID_SESSION_ID|"status":\s*401/.test(a.text ?? ''),
+  },
+  {
+    category: 'network',
+    reason: 'Network error / environment unreachable',
+    text: /net::ERR_|ECONNREFUSED|ECONNRESET|ENOTFOUND|ETIMEDOUT|EAI_AGAIN|socket hang up|\b50[234]\b.*(Gateway|Unavailable)|Service Unavailable|under maintenance/i,
+    url: /\/maintenance|chrome-error:\/\//i,
+  },
+  {
+    category: 'network',
+    reason: 'Aura request failed (5xx or aborted)',
+    attachment: a => a.name.endsWith('aura-requests.json') && hasFailedAuraRequest(a.text),
+  },
+  {
+    category: 'test-data-missing',
+    reason: 'Test data not found',
+    text: /JSON file not found|Required key '.+' not found|\b(data|name|recordId) is required|ENTITY_IS_DELETED|INVALID_CROSS_REFERENCE_KEY|NOT_FOUND|no rows? (found|returned)|Record not found|not found in (JSON|test data)/i,
+  },
+  {
+    category: 'toast-timeout',
+    reason: 'Timed out waiting for the toast',
+    text: new RegExp(`(Timeout|timed out|waiting for).*(${TOAST_SELECTORS}|toast)|(${TOAST_SELECTORS}|toast).*(Timeout|timed out)`, 'is'),
+  },
+  {
+    category: 'locator-not-found',
+    reason: 'Locator not found',
+    text: /strict mode violation|resolved to 0 elements|element\(s\) not found|waiting for (locator|getBy\w+|selector)\(.*\)[\s\S]*(Timeout \d+ms exceeded|timed out)|(Timeout \d+ms exceeded|timed out)[\s\S]*waiting for (locator|getBy\w+|selector)/i,
+    unless: /locator resolved to|unexpected value/i,
+  },
+  {
+    category: 'assertion-mismatch',
+    reason: 'Assertion failed',
+    text: /SoftAssertionError|soft assertion|expect\(.*\)\.\w+|Expected( value| string| substring| pattern)?:[\s\S]*Received|toHave\w+|toBe\w*|toEqual|toContain/i,
+  },
+  {
+    category: 'timeout',
+    reason: 'Test timed out',
+    text: /Test timeout of \d+ms exceeded|Timeout \d+ms exceeded|timed out/i,
+  },
+];
+
+/**
+ * Classify one failed attempt (first matching rule wins)
+ */
+export function classifyFailure(evidence: FailureEvidence): FailureClassification {
+  const message = stripAnsi(evidence.message);
+  const stack = stripAnsi(evidence.stack ?? '');
+
+  for (const rule of RULES) {
+    const signal = matchRule(rule, evidence, message, stack);
+    if (signal) return { category: rule.category, reason: rule.reason, signal };
+  }
+  return { category: 'other', reason: message.split('\n')[0].trim() || 'Unknown error', signal: 'none' };
+}
+
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, '');
+}
+
+function matchRule(rule: FailureRule, evidence: FailureEvidence, message: string, stack: string): FailureSignal | undefined {
+  if (rule.unless?.test(message)) return undefined;
+  if (rule.url && evidence.url && rule.url.test(evidence.url)) return 'url';
+  if (rule.text?.test(message)) return 'message';
+  if (rule.text && stack && rule.text.test(stack)) return 'stack';
+  if (rule.attachment && evidence.attachments.some(rule.attachment)) return 'attachment';
+  return undefined;
+}
+
+/** Any Aura request with a 5xx status or a network failure (see pageDiagnostics) */
+function hasFailedAuraRequest(text: string | undefined): boolean {
+  if (!text) return false;
+  try {
+    const requests = JSON.parse(text) as { status?: number; failure?: string }[];
+    return Array.isArray(requests) && requests.some(r => (r.status ?? 0) >= 500 || Boolean(r.failure));
+  } catch {
+    return false;
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,118 @@
+import fs from 'fs';
+import path from 'path';
+import { FlakyScore, FlakyTrend, HistoryStore, TestHistory, TestRunRecord } from '../type/FlakyHistory';
+
+/**
+ * Flaky history
+ * Purpose:
+ * - Local JSON store of test outcomes per run and environment (written by flakyHistoryReporter)
+ * - Flakiness score per test: 100 × (flaky runs + pass↔fail flips / 2) / executed runs (skipped runs ignored)
+ * - Trend: score of the newer half of the runs vs the older half (±10 points = rising / falling)
+ *
+ * Files:
+ * - build/history/test-history.json   FLAKY_HISTORY_FILE to override (cache it between CI runs)
+ * - last FLAKY_HISTORY_RUNS (default 30) runs per test and environment are kept
+ *
+ * @example
+ * ```typescript
+ * const store = loadHistory();
+ * recordRun(store, history, { runId, env, outcome: 'flaky', retries: 1, durationMs: 5400, timestamp });
+ * saveHistory(store);
+ * const top = scoreHistory(store, 'dev-staging').filter(s => s.score > 0).slice(0, 10);
+ * ```
+ */
+
+export const HISTORY_FILE = process.env.FLAKY_HISTORY_FILE || path.join(process.cwd(), 'build', 'history', 'test-history.json');
+export const HISTORY_RUNS = Number(process.env.FLAKY_HISTORY_RUNS || 30);
+
+/** Fewer executed runs than this → trend "new" */
+const MIN_RUNS_FOR_TREND = 4;
+const TREND_THRESHOLD = 10;
+
+export function loadHistory(file: string = HISTORY_FILE): HistoryStore {
+  if (!fs.existsSync(file)) return { version: 1, tests: {} };
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as HistoryStore;
+  } catch (error) {
+    console.warn(`⚠️ Cannot read test history ${file}: ${(error as Error).message}`);
+    return { version: 1, tests: {} };
+  }
+}
+
+export function saveHistory(store: HistoryStore, file: string = HISTORY_FILE): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(store, null, 2), 'utf-8');
+}
+
+/** Stable key of a test: file, title path and Qase IDs */
+export function historyKey(file: string, titlePath: string[], qaseIds: number[]): string {
+  return [file, ...titlePath].join(' › ') + (qaseIds.length > 0 ? ` #${qaseIds.join(',')}` : '');
+}
+
+/**
+ * Add a run to a test's history (a run already recorded with the same runId is replaced)
+ */
+export function recordRun(store: HistoryStore, test: Omit<TestHistory, 'runs'>, run: TestRunRecord, keepRuns: number = HISTORY_RUNS): void {
+  const history = store.tests[test.key] ?? { ...test, runs: [] };
+  Object.assign(history, test);
+  const others = history.runs.filter(r => !(r.runId === run.runId && r.env === run.env));
+  const sameEnv = [...others.filter(r => r.env === run.env), run].slice(-keepRuns);
+  history.runs = [...others.filter(r => r.env !== run.env), ...sameEnv]
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  store.tests[test.key] = history;
+}
+
+/**
+ * Score every test that ran in the given environment, most flaky first
+ */
+export function scoreHistory(store: HistoryStore, env: string): FlakyScore[] {
+  const scores: FlakyScore[] = [];
+  for (const history of Object.values(store.tests)) {
+    const runs = history.runs.filter(r => r.env === env);
+    const executed = runs.filter(r => r.outcome !== 'skipped');
+    if (executed.length === 0) continue;
+
+    const half = Math.floor(executed.length / 2);
+    scores.push({
+      key: history.key,
+      file: history.file,
+      title: history.title,
+      qaseIds: history.qaseIds,
+      env,
+      runs: executed.length,
+      flaky: executed.filter(r => r.outcome === 'flaky').length,
+      failed: executed.filter(r => r.outcome === 'failed').length,
+      flips: countFlips(executed),
+      score: flakinessScore(executed),
+      trend: executed.length < MIN_RUNS_FOR_TREND
+        ? 'new'
+        : trendOf(flakinessScore(executed.slice(0, half)), flakinessScore(executed.slice(half))),
+      avgRetries: round(executed.reduce((sum, r) => sum + r.retries, 0) / executed.length),
+      avgDurationMs: Math.round(executed.reduce((sum, r) => sum + r.durationMs, 0) / executed.length),
+      lastOutcome: runs[runs.length - 1].outcome,
+    });
+  }
+  return scores.sort((a, b) => b.score - a.score || b.flaky - a.flaky || a.key.localeCompare(b.key));
+}
+
+/** 0..100: flaky runs count fully, pass ↔ fail flips count half */
+export function flakinessScore(executed: TestRunRecord[]): number {
+  if (executed.length === 0) return 0;
+  const flaky = executed.filter(r => r.outcome === 'flaky').length;
+  return Math.min(100, Math.round((100 * (flaky + countFlips(executed) / 2)) / executed.length));
+}
+
+function countFlips(executed: TestRunRecord[]): number {
+  const passFail = executed.filter(r => r.outcome !== 'flaky').map(r => r.outcome);
+  return passFail.slice(1).filter((outcome, i) => outcome !== passFail[i]).length;
+}
+
+function trendOf(older: number, newer: number): FlakyTrend {
+  if (newer - older >= TREND_THRESHOLD) return 'rising';
+  if (older - newer >= TREND_THRESHOLD) return 'falling';
+  return 'stable';
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,103 @@
+import { Page, Request } from '@playwright/test';
+import { LightningLocators } from '../locators/lightningLocators';
+import { DataTableLocators } from '../locators/dataTableLocators';
+import { LightningIdleOptions } from '../type/LightningIdle';
+
+/**
+ * Lightning idle helper
+ * Replaces fixed `waitForTimeout` sleeps: resolves once the page is settled
+ * - No in-flight Aura (`/aura?`), UI API or REST XHR
+ * - No visible spinner (`lightning-spinner`, `.slds-spinner`)
+ * - No list view refresh / lazy-load indicator
+ * ... and all of the above held for `quietMs`
+ *
+ * @example
+ * ```typescript
+ * trackLightningRequests(page);          // once, as early as possible (BasePage does it)
+ * await page.keyboard.press('Enter');
+ * await waitForLightningIdle(page);
+ * ```
+ */
+
+/** XHRs that Lightning uses to load / save data */
+const LIGHTNING_REQUEST_PATTERN = /\/aura\?|\/ui-api\/|\/services\/data\/|\/webruntime\/api\//;
+
+const BUSY_SELECTOR = [
+  LightningLocators.SPINNER,
+  LightningLocators.LIST_VIEW_REFRESHING,
+  DataTableLocators.LOADING_MORE,
+].join(', ');
+
+const POLL_INTERVAL = 100;
+
+type RequestTracker = {
+  inFlight: Set<Request>;
+  lastActivity: number;
+};
+
+const trackers = new WeakMap<Page, RequestTracker>();
+
+/**
+ * Start counting in-flight Lightning requests of a page (idempotent)
+ */
+export function trackLightningRequests(page: Page): void {
+  if (trackers.has(page)) return;
+
+  const tracker: RequestTracker = { inFlight: new Set(), lastActivity: Date.now() };
+  const isLightning = (request: Request) =>
+    ['xhr', 'fetch'].includes(request.resourceType()) && LIGHTNING_REQUEST_PATTERN.test(request.url());
+  const done = (request: Request) => {
+    if (tracker.inFlight.delete(request)) tracker.lastActivity = Date.now();
+  };
+
+  page.on('request', request => {
+    if (!isLightning(request)) return;
+    tracker.inFlight.add(request);
+    tracker.lastActivity = Date.now();
+  });
+  page.on('requestfinished', done);
+  page.on('requestfailed', done);
+  // A navigation aborts pending XHRs without always emitting requestfailed
+  page.on('framenavigated', frame => {
+    if (frame === page.mainFrame()) tracker.inFlight.clear();
+  });
+
+  trackers.set(page, tracker);
+}
+
+/**
+ * Wait until the page has no pending Lightning XHR, spinner or list view refresh for `quietMs`
+ * @returns true when settled, false when timed out with `strict: false`
+ * @throws Error on timeout (strict mode, default)
+ */
+export async function waitForLightningIdle(page: Page, options: LightningIdleOptions = {}): Promise<boolean> {
+  const { timeout = 15000, quietMs = 300, strict = true } = options;
+  trackLightningRequests(page);
+  const tracker = trackers.get(page)!;
+  const busy = page.locator(BUSY_SELECTOR).filter({ visible: true });
+
+  const deadline = Date.now() + timeout;
+  let quietSince = Date.now();
+  let reason = '';
+
+  while (Date.now() < deadline) {
+    if (page.isClosed()) return true;
+
+    const pending = tracker.inFlight.size;
+    const spinners = pending === 0 ? await busy.count().catch(() => 0) : 0;
+    if (pending > 0 || spinners > 0) {
+      reason = pending > 0 ? `${pending} request(s) in flight` : `${spinners} loading indicator(s) visible`;
+      quietSince = Date.now();
+    } else if (Date.now() - Math.max(quietSince, tracker.lastActivity) >= quietMs) {
+      return true;
+    }
+    await page.waitForTimeout(POLL_INTERVAL);
+  }
+
+  const message = `Lightning page not idle after ${timeout}ms (${reason || 'activity did not settle'})`;
+  if (strict) {
+    throw new Error(`❌ ${message}`);
+  }
+  console.warn(`⚠️ ${message}`);
+  return false;
+}
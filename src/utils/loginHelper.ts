@@ -1,16 +1,19 @@
 import { Page } from "@playwright/test";
 import { LoginPage } from "../pages/LoginPage";
 import { loadUserByEnv } from "./configHelpers";
+import { getConfig } from "../config/appConfig";
+import { redact } from "./redactionHelper";
 
 export async function LoginAction(page: Page, userType: string) {
   const loginPage = new LoginPage(page);
-  const userInfo = await loadUserByEnv(process.env.ENV,userType);
+  const config = getConfig();
+  const userInfo = await loadUserByEnv(config.env, userType);
 
-  await page.goto(process.env.PAGE_URL as string);
-  console.log(`📝 UserInfo loaded:`, JSON.stringify(userInfo, null, 2));
+  await page.goto(config.urls.base);
+  console.log(`📝 UserInfo loaded:`, JSON.stringify(redact(userInfo), null, 2));
 
   if (!userInfo || !userInfo.username || !userInfo.password) {
-    throw new Error(`❌ Invalid user data for ENV=${process.env.ENV}, USER_TYPE=${userType}`);
+    throw new Error(`❌ Invalid user data for ENV=${config.env}, USER_TYPE=${userType}`);
   }
   console.log(`🔑 Logging in as ${userType} (${userInfo.username})`);
   await loginPage.login(userInfo.username, userInfo.password);
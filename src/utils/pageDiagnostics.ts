@@ -0,0 +1,141 @@
+import { Page, Request } from '@playwright/test';
+import { redactString } from './redactionHelper';
+
+/**
+ * Page diagnostics
+ * Keeps a short history per page for failure artifacts (see @CaptureOnFailure):
+ * - Recent console errors and uncaught page errors
+ * - Last Aura (`/aura?`) requests with their action descriptors, status and duration
+ * - Last main-frame URL of the worker's tracked pages (`failureUrl` fixture, works after the page is closed)
+ *
+ * @example
+ * ```typescript
+ * trackPageDiagnostics(page);                  // once, as early as possible (BasePage does it)
+ * const { consoleErrors, auraRequests } = getPageDiagnostics(page);
+ * ```
+ */
+
+export interface ConsoleErrorRecord {
+  timestamp: string;
+  type: 'console' | 'pageerror';
+  text: string;
+  location?: string;
+}
+
+export interface AuraRequestRecord {
+  timestamp: string;
+  method: string;
+  url: string;
+  /** Aura action descriptors from the request body (EX: serviceComponent://ui.force...#getRecord) */
+  actions: string[];
+  status?: number;
+  failure?: string;
+  durationMs?: number;
+}
+
+const MAX_CONSOLE_ERRORS = 50;
+const MAX_AURA_REQUESTS = 20;
+const AURA_PATTERN = /\/aura\?/;
+
+type Diagnostics = {
+  consoleErrors: ConsoleErrorRecord[];
+  auraRequests: AuraRequestRecord[];
+};
+
+const diagnostics = new WeakMap<Page, Diagnostics>();
+let lastNavigation: { url: string; at: number } | undefined;
+
+/**
+ * Start recording console errors and Aura requests of a page (idempotent)
+ */
+export function trackPageDiagnostics(page: Page): void {
+  if (diagnostics.has(page)) return;
+
+  const state: Diagnostics = { consoleErrors: [], auraRequests: [] };
+  const pending = new Map<Request, { record: AuraRequestRecord; start: number }>();
+  const push = <T>(list: T[], item: T, max: number) => {
+    list.push(item);
+    if (list.length > max) list.shift();
+  };
+
+  page.on('console', msg => {
+    if (msg.type() !== 'error') return;
+    const { url, lineNumber } = msg.location();
+    push(state.consoleErrors, {
+      timestamp: new Date().toISOString(),
+      type: 'console',
+      text: redactString(msg.text()),
+      location: url ? `${url}:${lineNumber}` : undefined,
+    }, MAX_CONSOLE_ERRORS);
+  });
+  page.on('pageerror', error => {
+    push(state.consoleErrors, {
+      timestamp: new Date().toISOString(),
+      type: 'pageerror',
+      text: redactString(error.stack || error.message),
+    }, MAX_CONSOLE_ERRORS);
+  });
+
+  page.on('request', request => {
+    if (!AURA_PATTERN.test(request.url())) return;
+    const record: AuraRequestRecord = {
+      timestamp: new Date().toISOString(),
+      method: request.method(),
+      url: redactString(request.url()),
+      actions: parseAuraActions(request.postData()),
+    };
+    pending.set(request, { record, start: Date.now() });
+    push(state.auraRequests, record, MAX_AURA_REQUESTS);
+  });
+  page.on('requestfinished', async request => {
+    const entry = pending.get(request);
+    if (!entry) return;
+    pending.delete(request);
+    entry.record.durationMs = Date.now() - entry.start;
+    entry.record.status = (await request.response().catch(() => null))?.status();
+  });
+  page.on('requestfailed', request => {
+    const entry = pending.get(request);
+    if (!entry) return;
+    pending.delete(request);
+    entry.record.durationMs = Date.now() - entry.start;
+    entry.record.failure = request.failure()?.errorText;
+  });
+
+  page.on('framenavigated', frame => {
+    if (frame === page.mainFrame()) lastNavigation = { url: redactString(frame.url()), at: Date.now() };
+  });
+
+  diagnostics.set(page, state);
+}
+
+/**
+ * Last main-frame URL of any tracked page in this worker
+ * @param since - Ignore navigations before this time (EX: start of the current test)
+ */
+export function getLastNavigatedUrl(since: number = 0): string | undefined {
+  return lastNavigation && lastNavigation.at >= since ? lastNavigation.url : undefined;
+}
+
+/**
+ * Snapshot of the recorded diagnostics (empty when the page is not tracked)
+ */
+export function getPageDiagnostics(page: Page, limits: { consoleErrors?: number; auraRequests?: number } = {}): Diagnostics {
+  const state = diagnostics.get(page) ?? { consoleErrors: [], auraRequests: [] };
+  return {
+    consoleErrors: state.consoleErrors.slice(-(limits.consoleErrors ?? MAX_CONSOLE_ERRORS)),
+    auraRequests: state.auraRequests.slice(-(limits.auraRequests ?? MAX_AURA_REQUESTS)).map(r => ({ ...r })),
+  };
+}
+
+/** Aura posts `message={"actions":[{"descriptor":"..."}]}` as form data */
+function parseAuraActions(postData: string | null): string[] {
+  if (!postData) return [];
+  try {
+    const message = new URLSearchParams(postData).get('message');
+    const actions = message ? (JSON.parse(message).actions as { descriptor?: string }[]) : [];
+    return actions.map(a => a.descriptor ?? 'unknown');
+  } catch {
+    return [];
+  }
+}
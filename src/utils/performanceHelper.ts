@@ -0,0 +1,124 @@
+import fs from 'fs';
+import path from 'path';
+import { BudgetFile, BudgetMode, RunTimings, StepTrend } from '../type/PerformanceBudget';
+import { RunLogEntry } from '../type/RunLog';
+
+/**
+ * Performance helper
+ * Purpose:
+ * - Step budgets for @TrackTime (decorator option > budget file), mode warn / fail / off
+ * - Baseline of the last N runs per environment, and p50 / p90 trends against it
+ *
+ * Files:
+ * - src/data/performanceBudgets.json   budgets (PERF_BUDGET_FILE to override)
+ * - build/perf/baseline.<env>.json     last PERF_BASELINE_RUNS runs (default 10)
+ *
+ * @example
+ * ```typescript
+ * const budget = getBudget('saveNew');       // { budgetMs: 8000, mode: 'warn' }
+ * const trends = compareWithBaseline(current, loadBaseline('dev-staging'));
+ * ```
+ */
+
+export const BUDGET_FILE = process.env.PERF_BUDGET_FILE || path.join(process.cwd(), 'src', 'data', 'performanceBudgets.json');
+export const PERF_DIR = process.env.PERF_DIR || path.join(process.cwd(), 'build', 'perf');
+export const BASELINE_RUNS = Number(process.env.PERF_BASELINE_RUNS || 10);
+
+/** p90 slower than baseline p90 by more than this ratio = regression (default 20%) */
+export const REGRESSION_THRESHOLD = Number(process.env.PERF_REGRESSION_THRESHOLD || 0.2);
+
+let budgetCache: BudgetFile | undefined;
+
+function loadBudgetFile(): BudgetFile {
+  if (!budgetCache) {
+    try {
+      budgetCache = fs.existsSync(BUDGET_FILE)
+        ? JSON.parse(fs.readFileSync(BUDGET_FILE, 'utf-8')) as BudgetFile
+        : { budgets: {} };
+    } catch (error) {
+      console.warn(`⚠️ Cannot read budget file ${BUDGET_FILE}: ${(error as Error).message}`);
+      budgetCache = { budgets: {} };
+    }
+  }
+  return budgetCache;
+}
+
+/**
+ * Budget of a step
+ * - budgetMs: decorator option > budget file (undefined = no budget)
+ * - mode: decorator option > PERF_BUDGET_MODE > budget file > warn
+ */
+export function getBudget(step: string, override: { budgetMs?: number; mode?: BudgetMode } = {}): { budgetMs?: number; mode: BudgetMode } {
+  const file = loadBudgetFile();
+  const envMode = process.env.PERF_BUDGET_MODE as BudgetMode | undefined;
+  return {
+    budgetMs: override.budgetMs ?? file.budgets?.[step],
+    mode: override.mode ?? envMode ?? file.mode ?? 'warn',
+  };
+}
+
+/**
+ * Nearest-rank percentile (p in 0..100)
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))];
+}
+
+/**
+ * Collect successful @TrackTime durations from run log entries
+ */
+export function collectTimings(entries: RunLogEntry[], runId: string, env: string): RunTimings {
+  const steps: Record<string, number[]> = {};
+  for (const entry of entries) {
+    if (entry.source !== 'trackTime' || entry.status !== 'success' || entry.durationMs === undefined) continue;
+    (steps[entry.step] ??= []).push(entry.durationMs);
+  }
+  return { runId, env, timestamp: new Date().toISOString(), steps };
+}
+
+export function baselinePath(env: string): string {
+  return path.join(PERF_DIR, `baseline.${env}.json`);
+}
+
+export function loadBaseline(env: string): RunTimings[] {
+  const file = baselinePath(env);
+  if (!fs.existsSync(file)) return [];
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as RunTimings[];
+  } catch (error) {
+    console.warn(`⚠️ Cannot read baseline ${file}: ${(error as Error).message}`);
+    return [];
+  }
+}
+
+/**
+ * Add a run to the baseline and keep only the last BASELINE_RUNS runs
+ * - A run already in the baseline (same runId) is replaced
+ */
+export function saveToBaseline(run: RunTimings, keepRuns: number = BASELINE_RUNS): RunTimings[] {
+  const runs = [...loadBaseline(run.env).filter(r => r.runId !== run.runId), run].slice(-keepRuns);
+  fs.mkdirSync(PERF_DIR, { recursive: true });
+  fs.writeFileSync(baselinePath(run.env), JSON.stringify(runs, null, 2), 'utf-8');
+  return runs;
+}
+
+/**
+ * Compare the p50 / p90 of each step of a run with the same percentiles over the baseline runs
+ */
+export function compareWithBaseline(current: RunTimings, baseline: RunTimings[], threshold: number = REGRESSION_THRESHOLD): StepTrend[] {
+  return Object.entries(current.steps).map(([step, durations]) => {
+    const history = baseline.filter(r => r.runId !== current.runId).flatMap(r => r.steps[step] ?? []);
+    const p50 = percentile(durations, 50);
+    const p90 = percentile(durations, 90);
+    if (history.length === 0) {
+      return { step, samples: durations.length, p50, p90, regression: false };
+    }
+    const baselineP50 = percentile(history, 50);
+    const baselineP90 = percentile(history, 90);
+    const change = baselineP90 > 0 ? (p90 - baselineP90) / baselineP90 : 0;
+    return { step, samples: durations.length, p50, p90, baselineP50, baselineP90, change, regression: change > threshold };
+  }).sort((a, b) => (b.change ?? 0) - (a.change ?? 0));
+}
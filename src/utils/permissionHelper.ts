@@ -0,0 +1,44 @@
+import { PermissionCell, PermissionMatrix, PermissionAction, PermissionOutcome } from '../type/PermissionMatrix';
+
+/**
+ * Permission matrix utilities
+ */
+
+/**
+ * Expand a permission matrix into one cell per role × object × action
+ * @param matrix - Matrix loaded from src/data/permissionMatrix.json
+ * @param roles - Only keep these roles (default: PERMISSION_ROLES env, comma separated, or all)
+ */
+export function expandPermissionMatrix(
+  matrix: PermissionMatrix,
+  roles: string[] = (process.env.PERMISSION_ROLES || '').split(',').map(r => r.trim()).filter(Boolean)
+): PermissionCell[] {
+  const cells: PermissionCell[] = [];
+  for (const entry of matrix.entries) {
+    if (roles.length > 0 && !roles.includes(entry.role)) continue;
+    for (const [action, expected] of Object.entries(entry.actions)) {
+      if (expected !== 'allowed' && expected !== 'denied') {
+        throw new Error(`❌ Invalid outcome "${expected}" for ${entry.role} › ${entry.object} › ${action}`);
+      }
+      cells.push({
+        role: entry.role,
+        object: entry.object,
+        action: action as PermissionAction,
+        expected: expected as PermissionOutcome,
+        source: entry.source?.trim() || undefined,
+      });
+    }
+  }
+  return cells;
+}
+
+/**
+ * Group cells by role, keeping matrix order
+ */
+export function groupCellsByRole(cells: PermissionCell[]): Map<string, PermissionCell[]> {
+  const groups = new Map<string, PermissionCell[]>();
+  for (const cell of cells) {
+    groups.set(cell.role, [...(groups.get(cell.role) || []), cell]);
+  }
+  return groups;
+}
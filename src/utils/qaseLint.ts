@@ -0,0 +1,104 @@
+import fs from 'fs';
+import path from 'path';
+import { SpecCase } from '../type/QaseCase';
+import { QaseLintConfig, QaseLintIssue, QaseLintRule } from '../type/QaseLint';
+
+/**
+ * Qase lint
+ * Static checks of the Qase metadata parsed from specs (see qaseSpecParser):
+ * - duplicate-id    the same Qase ID on several tests
+ * - placeholder-id  IDs such as 1 used instead of a real case
+ * - missing-id      tests without qase(id, ...)
+ * - unknown-tag     tags outside `allowedTags` (with a "did you mean" hint)
+ * - title-mismatch  test title differs from qase.title() / from the Qase case title
+ *
+ * Rules and allowed tags: src/data/qaseLint.json (QASE_LINT_CONFIG to override)
+ *
+ * @example
+ * ```typescript
+ * const issues = lintSpecCases(parseSpecFiles(['tests']), loadLintConfig());
+ * ```
+ */
+
+export const LINT_CONFIG_FILE = process.env.QASE_LINT_CONFIG || path.join(process.cwd(), 'src', 'data', 'qaseLint.json');
+
+export function loadLintConfig(file: string = LINT_CONFIG_FILE): QaseLintConfig {
+  if (!fs.existsSync(file)) {
+    throw new Error(`❌ Qase lint config not found: ${file}`);
+  }
+  const config = JSON.parse(fs.readFileSync(file, 'utf-8')) as Partial<QaseLintConfig>;
+  return { allowedTags: config.allowedTags ?? [], placeholderIds: config.placeholderIds ?? [], rules: config.rules ?? {} };
+}
+
+/**
+ * Run every enabled rule
+ * @param qaseTitles - Qase case titles by ID (optional): enables the remote title check
+ */
+export function lintSpecCases(cases: SpecCase[], config: QaseLintConfig, qaseTitles: Map<number, string> = new Map()): QaseLintIssue[] {
+  const issues: QaseLintIssue[] = [];
+  const report = (rule: QaseLintRule, spec: SpecCase, message: string) => {
+    const severity = config.rules[rule] ?? 'error';
+    if (severity === 'off') return;
+    issues.push({ rule, severity, file: spec.file, line: spec.line, title: spec.title, ids: spec.ids, message });
+  };
+
+  const usages = new Map<number, SpecCase[]>();
+  for (const spec of cases) {
+    for (const id of new Set(spec.ids)) {
+      usages.set(id, [...(usages.get(id) ?? []), spec]);
+    }
+  }
+
+  for (const spec of cases) {
+    if (spec.ids.length === 0) {
+      report('missing-id', spec, 'Test has no Qase ID: use test(qase(<id>, title), ...)');
+    }
+
+    for (const id of new Set(spec.ids)) {
+      const others = (usages.get(id) ?? []).filter(other => other !== spec);
+      if (others.length > 0) {
+        report('duplicate-id', spec, `Qase ID ${id} is also used by ${others.map(o => `${o.file}:${o.line}`).join(', ')}`);
+      }
+      if (config.placeholderIds.includes(id)) {
+        report('placeholder-id', spec, `Qase ID ${id} is a placeholder, link the real case`);
+      }
+      const qaseTitle = qaseTitles.get(id);
+      if (qaseTitle !== undefined && qaseTitle.trim() !== spec.title) {
+        report('title-mismatch', spec, `Title differs from Qase case ${id}: "${qaseTitle.trim()}"`);
+      }
+    }
+
+    for (const tag of spec.tags) {
+      if (config.allowedTags.includes(tag)) continue;
+      const suggestion = closest(tag, config.allowedTags);
+      report('unknown-tag', spec, `Tag @${tag} is not allowed${suggestion ? ` (did you mean @${suggestion}?)` : ''}`);
+    }
+
+    if (spec.qaseTitle !== undefined && spec.qaseTitle !== spec.testTitle) {
+      report('title-mismatch', spec, `Test title "${spec.testTitle}" differs from qase.title() "${spec.qaseTitle}"`);
+    }
+  }
+  return issues;
+}
+
+/** Closest allowed tag (case-insensitive match or edit distance <= 2) */
+function closest(tag: string, allowed: string[]): string | undefined {
+  let best: { tag: string; distance: number } | undefined;
+  for (const candidate of allowed) {
+    const distance = candidate.toLowerCase() === tag.toLowerCase() ? 0 : editDistance(candidate.toLowerCase(), tag.toLowerCase());
+    if (distance <= 2 && (!best || distance < best.distance)) best = { tag: candidate, distance };
+  }
+  return best?.tag;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,252 @@
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import { SpecCase, SpecStep } from '../type/QaseCase';
+
+/**
+ * Qase spec parser
+ * Reads spec files with the TypeScript compiler API (no test execution) and extracts per test:
+ * - Qase IDs and title: `test(qase(661, 'Title'), ...)`, overridden by `qase.title('...')`
+ * - `qase.fields({ description, preconditions, postconditions })`
+ * - Tags: `{ tag: '@Regression' }` / `{ tag: ['@Smoke', '@Regression'] }` and "@Tag" words in the title
+ * - `test.step` titles (nested steps kept as children), with action / expected / data of
+ *   `qaseStep({ action, expected, data }, ...)` and `test.step(qase.step(action, expected, data), ...)`
+ *
+ * @example
+ * ```typescript
+ * const cases = parseSpecFiles(['tests/scheduling']);
+ * const linked = cases.filter(c => c.ids.length > 0);
+ * ```
+ */
+
+const TEST_MODIFIERS = new Set(['only', 'skip', 'fixme', 'fail', 'slow']);
+const QASE_FIELDS = ['description', 'preconditions', 'postconditions'] as const;
+/**
+ * Specs that are not Qase cases, left out by qase:sync and lint:qase:
+ * - tests/mock: framework self-tests against the offline mock app
+ * - tests/no-storage/permission: one generated test per cell of src/data/permissionMatrix.json
+ */
+export const NON_QASE_SPEC_DIRS = ['tests/mock', 'tests/no-storage/permission'];
+
+/**
+ * Find spec files (`*.spec.ts`) under the given files / directories
+ * @param excludeDirs Directories (relative to the working directory) skipped when walking directories;
+ *   a spec file passed explicitly is always kept
+ */
+export function findSpecFiles(paths: string[], excludeDirs: string[] = []): string[] {
+  const files: string[] = [];
+  const visit = (target: string) => {
+    if (!fs.existsSync(target)) {
+      throw new Error(`❌ Spec path not found: ${target}`);
+    }
+    if (fs.statSync(target).isDirectory()) {
+      for (const entry of fs.readdirSync(target)) {
+        const child = path.join(target, entry);
+        if (entry === 'node_modules' || excludeDirs.includes(path.relative(process.cwd(), child).split(path.sep).join('/'))) continue;
+        visit(child);
+      }
+    } else if (/\.spec\.ts$/.test(target)) {
+      files.push(target);
+    }
+  };
+  paths.forEach(visit);
+  return files.sort();
+}
+
+/**
+ * Parse every spec file under the given paths (see `findSpecFiles` for `excludeDirs`)
+ */
+export function parseSpecFiles(paths: string[], rootDir: string = process.cwd(), excludeDirs: string[] = []): SpecCase[] {
+  return findSpecFiles(paths, excludeDirs).flatMap(file => parseSpecFile(file, rootDir));
+}
+
+/**
+ * Parse one spec file
+ */
+export function parseSpecFile(file: string, rootDir: string = process.cwd()): SpecCase[] {
+  const source = ts.createSourceFile(file, fs.readFileSync(file, 'utf-8'), ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+  const relativeFile = path.relative(rootDir, file).split(path.sep).join('/');
+  const cases: SpecCase[] = [];
+
+  const visit = (node: ts.Node, describe: string[]) => {
+    if (ts.isCallExpression(node)) {
+      const kind = testCallKind(node);
+      if (kind === 'describe' && node.arguments.length > 0 && isTitleArgument(node.arguments[0])) {
+        const title = textOf(node.arguments[0]);
+        node.arguments.slice(1).forEach(arg => visit(arg, [...describe, title]));
+        return;
+      }
+      if (kind === 'test' && node.arguments.length > 0 && isTitleArgument(node.arguments[0])) {
+        cases.push(toSpecCase(node, describe, source, relativeFile));
+        return;
+      }
+    }
+    ts.forEachChild(node, child => visit(child, describe));
+  };
+  visit(source, []);
+  return cases;
+}
+
+/** `test(...)`, `test.only(...)`, ... → 'test'; `test.describe(...)`, `test.describe.serial(...)` → 'describe' */
+function testCallKind(call: ts.CallExpression): 'test' | 'describe' | 'step' | undefined {
+  const parts = calleeParts(call.expression);
+  if (parts[0] !== 'test') return undefined;
+  if (parts.length === 1 || (parts.length === 2 && TEST_MODIFIERS.has(parts[1]))) return 'test';
+  if (parts[1] === 'describe') return 'describe';
+  if (parts[1] === 'step' && parts.length === 2) return 'step';
+  return undefined;
+}
+
+/** `a.b.c(...)` → ['a', 'b', 'c'] */
+function calleeParts(expression: ts.Expression): string[] {
+  if (ts.isIdentifier(expression)) return [expression.text];
+  if (ts.isPropertyAccessExpression(expression)) return [...calleeParts(expression.expression), expression.name.text];
+  return [];
+}
+
+/** The first argument is a title (string, template or `qase(...)`), not a condition like `test.skip(isCI)` */
+function isTitleArgument(node: ts.Node): boolean {
+  return ts.isStringLiteralLike(node) || ts.isTemplateExpression(node) || isQaseCall(node) || isQaseStepCall(node);
+}
+
+/** `qase.step(action, expected, data)` used as a `test.step` title */
+function isQaseStepCall(node: ts.Node): node is ts.CallExpression {
+  return ts.isCallExpression(node) && calleeParts(node.expression).join('.') === 'qase.step';
+}
+
+function isQaseCall(node: ts.Node): node is ts.CallExpression {
+  return ts.isCallExpression(node) && ts.isIdentifier(node.expression) && node.expression.text === 'qase';
+}
+
+/** Text of a string / template literal; template expressions are kept as `${...}` */
+function textOf(node: ts.Node): string {
+  if (ts.isStringLiteralLike(node)) return node.text;
+  if (ts.isTemplateExpression(node)) return node.getText().slice(1, -1);
+  return node.getText();
+}
+
+/**
+ * Step data as written in the case: string literals only
+ * Runtime values (variables, objects, templates with `${...}`) are left to the Qase reporter of the run.
+ */
+function dataOf(node: ts.Node | undefined): string | undefined {
+  return node && ts.isStringLiteralLike(node) ? node.text : undefined;
+}
+
+function lineOf(node: ts.Node, source: ts.SourceFile): number {
+  return source.getLineAndCharacterOfPosition(node.getStart(source)).line + 1;
+}
+
+function toSpecCase(call: ts.CallExpression, describe: string[], source: ts.SourceFile, file: string): SpecCase {
+  const [titleArg, ...rest] = call.arguments;
+  let ids: number[] = [];
+  let title: string;
+
+  if (isQaseCall(titleArg)) {
+    const [idArg, qaseTitleArg] = titleArg.arguments;
+    ids = numbersOf(idArg);
+    title = qaseTitleArg ? textOf(qaseTitleArg) : '';
+  } else {
+    title = textOf(titleArg);
+  }
+
+  const details = rest.find(ts.isObjectLiteralExpression);
+  const body = rest.find(arg => ts.isArrowFunction(arg) || ts.isFunctionExpression(arg)) as ts.ArrowFunction | ts.FunctionExpression | undefined;
+
+  const tags = new Set<string>();
+  for (const word of title.match(/@[\w-]+/g) ?? []) tags.add(word.slice(1));
+  const tagProperty = details && propertyOf(details, 'tag');
+  if (tagProperty) {
+    const values = ts.isArrayLiteralExpression(tagProperty) ? [...tagProperty.elements] : [tagProperty];
+    values.filter(ts.isStringLiteralLike).forEach(v => tags.add(v.text.replace(/^@/, '')));
+  }
+
+  const testTitle = title.replace(/\s*@[\w-]+/g, '').trim();
+  const specCase: SpecCase = {
+    ids,
+    title: testTitle,
+    testTitle,
+    tags: [...tags],
+    steps: [],
+    describe,
+    file,
+    line: lineOf(call, source),
+  };
+  if (body) {
+    specCase.steps = collectBody(body.body, specCase, source);
+  }
+  return specCase;
+}
+
+/**
+ * Walk a test (or step) body: fills qase.title / qase.fields on the case, returns the `test.step` tree
+ */
+function collectBody(body: ts.Node, specCase: SpecCase, source: ts.SourceFile): SpecStep[] {
+  const steps: SpecStep[] = [];
+  const toSpecStep = (action: string, expected: string | undefined, data: string | undefined, stepBody: ts.Node | undefined, node: ts.Node): SpecStep => {
+    const step: SpecStep = {
+      title: action.trim(),
+      steps: stepBody ? collectBody(stepBody, specCase, source) : [],
+      line: lineOf(node, source),
+    };
+    if (expected?.trim()) step.expected = expected.trim();
+    if (data?.trim()) step.data = data.trim();
+    return step;
+  };
+
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node)) {
+      const parts = calleeParts(node.expression);
+      const [firstArg] = node.arguments;
+
+      if (parts.join('.') === 'qase.title' && firstArg) {
+        specCase.qaseTitle = textOf(firstArg);
+        specCase.title = specCase.qaseTitle;
+        return;
+      }
+      if (parts.join('.') === 'qase.fields' && firstArg && ts.isObjectLiteralExpression(firstArg)) {
+        for (const field of QASE_FIELDS) {
+          const value = propertyOf(firstArg, field);
+          if (value) specCase[field] = textOf(value).trim();
+        }
+        return;
+      }
+      if (testCallKind(node) === 'step' && firstArg && isTitleArgument(firstArg)) {
+        const stepBody = node.arguments[1];
+        const [action, expected] = isQaseStepCall(firstArg) ? firstArg.arguments.map(textOf) : [textOf(firstArg)];
+        const data = isQaseStepCall(firstArg) ? dataOf(firstArg.arguments[2]) : undefined;
+        steps.push(toSpecStep(action, expected, data, stepBody, node));
+        return;
+      }
+      if (parts.join('.') === 'qaseStep' && firstArg && ts.isObjectLiteralExpression(firstArg)) {
+        const [action, expected] = ['action', 'expected'].map(key => {
+          const value = propertyOf(firstArg, key);
+          return value && textOf(value);
+        });
+        const data = dataOf(propertyOf(firstArg, 'data'));
+        steps.push(toSpecStep(action ?? '', expected, data, node.arguments[1], node));
+        return;
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  ts.forEachChild(body, visit);
+  return steps;
+}
+
+function propertyOf(object: ts.ObjectLiteralExpression, name: string): ts.Expression | undefined {
+  for (const property of object.properties) {
+    if (ts.isPropertyAssignment(property) && property.name.getText().replace(/['"]/g, '') === name) {
+      return property.initializer;
+    }
+  }
+  return undefined;
+}
+
+/** `661` / `[661, 662]` → [661] / [661, 662] */
+function numbersOf(node: ts.Node | undefined): number[] {
+  if (!node) return [];
+  if (ts.isNumericLiteral(node)) return [Number(node.text)];
+  if (ts.isArrayLiteralExpression(node)) return node.elements.flatMap(numbersOf);
+  return [];
+}
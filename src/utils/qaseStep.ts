@@ -0,0 +1,54 @@
+import { test } from '@playwright/test';
+import { qase } from 'playwright-qase-reporter';
+import { getConfig } from '../config/appConfig';
+import { QaseStepContext, QaseStepDefinition } from '../type/QaseStep';
+import { redact, redactString } from './redactionHelper';
+
+/**
+ * Qase step
+ * `test.step` wrapper that declares action, data and expected result of a step:
+ * - Qase receives a step result per call (own status, duration, attachments, nested steps)
+ *   instead of free text, so a failure in "Click Save" is marked on that step
+ * - With the Qase reporter on (QASE_MODE testops / report) the title is `qase.step(action, expected, data)`;
+ *   without it, a readable "action → expected" title for the HTML report
+ * - Parsed by `npm run qase:sync`: expected result and data are synced to the Qase case steps
+ *   (data only when it is a string literal: runtime values stay in the run results)
+ *
+ * @example
+ * ```typescript
+ * await qaseStep({ action: 'Fill in the form and click "Save"', data: { name: event.eventMasterName }, expected: 'Toast "was created" is displayed' }, async () => {
+ *   await eventMasterFacade.saveNew(event, 'was created');
+ * });
+ * ```
+ */
+export async function qaseStep<T>(definition: QaseStepDefinition, body: (step: QaseStepContext) => Promise<T>): Promise<T> {
+  const qaseEnabled = isQaseEnabled();
+  const data = formatData(definition.data);
+
+  const title = qaseEnabled
+    ? qase.step(definition.action, definition.expected, data)
+    : [definition.action, definition.expected && `→ ${definition.expected}`, data && `(data: ${data})`].filter(Boolean).join(' ');
+
+  const context: QaseStepContext = {
+    attach: async (name, content, contentType = 'text/plain') => {
+      if (qaseEnabled) {
+        // nested "step_attach_body_*" step: the reporter attaches it to the enclosing step
+        qase.attach({ name, content, contentType });
+      } else {
+        await test.info().attach(name, { body: content, contentType });
+      }
+    },
+  };
+
+  return await test.step(title, () => body(context));
+}
+
+function isQaseEnabled(): boolean {
+  const mode = getConfig().qase.mode;
+  return mode !== undefined && mode !== 'off';
+}
+
+function formatData(data: QaseStepDefinition['data']): string | undefined {
+  if (data === undefined) return undefined;
+  return typeof data === 'string' ? redactString(data) : JSON.stringify(redact(data));
+}
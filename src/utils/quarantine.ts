@@ -0,0 +1,88 @@
+import fs from 'fs';
+import path from 'path';
+import { QUARANTINE_FAILURE_ANNOTATION, QuarantineEntry, QuarantineList, QuarantineTarget } from '../type/Quarantine';
+
+/**
+ * Quarantine list
+ * Purpose:
+ * - Known-flaky or blocked tests are listed in src/data/quarantine.json (QUARANTINE_FILE to override)
+ *   instead of being edited to `test.skip` and forgotten
+ * - A quarantined test still runs: a failure does not fail the build (see the `quarantine` fixture)
+ * - Every entry has a reason, a ticket and an expiry date; once expired the test fails until it is fixed or extended
+ *
+ * @example
+ * ```typescript
+ * const entry = findQuarantineEntry(loadQuarantine(), { title, file, qaseIds: [661] });
+ * if (entry && isQuarantineExpired(entry)) throw new Error('❌ Quarantine expired');
+ * ```
+ */
+
+export const QUARANTINE_FILE = process.env.QUARANTINE_FILE || path.join(process.cwd(), 'src', 'data', 'quarantine.json');
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+/** Not a ticket: an entry needs a real key or URL to track the fix */
+const PLACEHOLDER_TICKET = /^(none|n\/?a|tbd|todo|-+)$/i;
+const cache = new Map<string, QuarantineEntry[]>();
+
+/**
+ * Load and validate the quarantine list (cached per file; no file = nothing quarantined)
+ */
+export function loadQuarantine(file: string = QUARANTINE_FILE): QuarantineEntry[] {
+  const cached = cache.get(file);
+  if (cached) return cached;
+  if (!fs.existsSync(file)) return [];
+
+  const { entries = [] } = JSON.parse(fs.readFileSync(file, 'utf-8')) as Partial<QuarantineList>;
+  entries.forEach((entry, index) => validateEntry(entry, `${path.basename(file)} entry ${index + 1}`));
+  cache.set(file, entries);
+  return entries;
+}
+
+/**
+ * Entry quarantining a test: same Qase ID, or same title (and file, when the entry has one)
+ */
+export function findQuarantineEntry(entries: QuarantineEntry[], target: QuarantineTarget): QuarantineEntry | undefined {
+  return entries.find(entry => {
+    if (entry.file && !target.file.endsWith(entry.file)) return false;
+    if (entry.qaseId !== undefined) return target.qaseIds.includes(entry.qaseId);
+    return entry.title === target.title;
+  });
+}
+
+/** Expired once the expiry day is over (UTC) */
+export function isQuarantineExpired(entry: QuarantineEntry, now: Date = new Date()): boolean {
+  return now.toISOString().slice(0, 10) > entry.expires;
+}
+
+/** "reason · ticket · until YYYY-MM-DD" */
+export function describeQuarantine(entry: QuarantineEntry): string {
+  return `${entry.reason} · ${entry.ticket} · until ${entry.expires}`;
+}
+
+/** Name of the entry for messages (Qase ID or title) */
+export function quarantineLabel(entry: QuarantineEntry): string {
+  return entry.qaseId !== undefined ? `Qase ${entry.qaseId}` : `"${entry.title}"`;
+}
+
+/**
+ * Real status of a quarantined test that failed (from its `quarantine-failure` annotation),
+ * undefined when the test is not quarantined or did not fail
+ */
+export function quarantinedFailureOf(annotations: { type: string; description?: string }[] = []): string | undefined {
+  return annotations.find(annotation => annotation.type === QUARANTINE_FAILURE_ANNOTATION)?.description;
+}
+
+function validateEntry(entry: QuarantineEntry, label: string): void {
+  if (entry.qaseId === undefined && !entry.title) {
+    throw new Error(`❌ Quarantine ${label}: needs a qaseId or a title`);
+  }
+  for (const field of ['reason', 'ticket'] as const) {
+    if (!entry[field]?.trim()) throw new Error(`❌ Quarantine ${label}: "${field}" is required`);
+  }
+  if (PLACEHOLDER_TICKET.test(entry.ticket.trim())) {
+    throw new Error(`❌ Quarantine ${label}: "ticket" must reference the ticket tracking the fix (got "${entry.ticket}")`);
+  }
+  if (!DATE_PATTERN.test(entry.expires ?? '') || Number.isNaN(Date.parse(entry.expires))) {
+    throw new Error(`❌ Quarantine ${label}: "expires" must be a YYYY-MM-DD date (got "${entry.expires}")`);
+  }
+}
@@ -0,0 +1,171 @@
+import fs from 'fs';
+import path from 'path';
+import { format } from 'util';
+
+/**
+ * Secret redaction
+ * Purpose:
+ * - Mask secrets before they reach ANY log sink: console (and so the Qase captured logs),
+ *   the run log (decorators), and CI artifacts (scripts/redact-artifacts.ts)
+ * - Two rules:
+ *   1. Keys: values of sensitive object keys (password, accessToken, sid, token, ...) are masked whatever they contain
+ *   2. Patterns: values that look like secrets (Salesforce session IDs, Bearer tokens, JWTs, ...) are masked anywhere in strings
+ * - Extra keys can be added with REDACT_KEYS (comma separated)
+ *
+ * @example
+ * ```typescript
+ * redact({ username: 'a@b.c', password: 'Secret1' }); // { username: 'a@b.c', password: '***' }
+ * redactString('Authorization: Bearer 00Dxx0000001gPL!AR8AQ...'); // 'Authorization: Bearer ***'
+ * ```
+ */
+
+export const REDACTED = '***';
+
+/** Object keys whose values are always masked (compared lower-case, without `_` / `-`) */
+const DEFAULT_SENSITIVE_KEYS = [
+  'password', 'passwd', 'pwd', 'secret', 'clientsecret',
+  'token', 'accesstoken', 'refreshtoken', 'apitoken', 'apikey', 'qasetestopsapitoken',
+  'sid', 'sessionid', 'authorization', 'cookie', 'setcookie',
+];
+
+/** Values that look like secrets, wherever they appear */
+const SECRET_PATTERNS: RegExp[] = [
+  // Salesforce session ID / access token: <15/18-char org Id>!<token>
+  /\b00D[a-zA-Z0-9]{12,15}![a-zA-Z0-9._]{20,}/g,
+  // Authorization headers
+  /\b(Bearer|Basic)\s+[a-zA-Z0-9._~+/=!-]{8,}/g,
+  // JWT
+  /\beyJ[a-zA-Z0-9_-]{10,}\.[a-zA-Z0-9_-]{10,}\.[a-zA-Z0-9_-]{10,}/g,
+  // key=value / "key": "value" pairs inside free text (query strings, CLI args, serialized JSON)
+  /\b((?:password|passwd|token|access_token|accessToken|sid|secret|api[_-]?key)["']?\s*[:=]\s*["']?)[^"'&\s,}]+/gi,
+];
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[_-]/g, '');
+}
+
+function sensitiveKeys(): Set<string> {
+  const extra = (process.env.REDACT_KEYS || '').split(',').map(k => normalizeKey(k.trim())).filter(Boolean);
+  return new Set([...DEFAULT_SENSITIVE_KEYS, ...extra]);
+}
+
+/**
+ * Is this object key sensitive?
+ */
+export function isSensitiveKey(key: string, extraKeys: string[] = []): boolean {
+  const normalized = normalizeKey(key);
+  return sensitiveKeys().has(normalized) || extraKeys.some(k => normalizeKey(k) === normalized);
+}
+
+/**
+ * Mask secret-looking values inside a string
+ */
+export function redactString(text: string): string {
+  return SECRET_PATTERNS.reduce(
+    (result, pattern) => result.replace(pattern, (match, prefix?: string) =>
+      // Patterns with a captured "key=" prefix keep the key, the others keep their scheme word
+      typeof prefix === 'string' && /[:=]/.test(prefix) ? `${prefix}${REDACTED}`
+        : /^(Bearer|Basic)\s/.test(match) ? `${match.split(/\s+/)[0]} ${REDACTED}`
+          : REDACTED
+    ),
+    text
+  );
+}
+
+/**
+ * Deep copy of a value with sensitive keys and secret-looking strings masked
+ * @param extraKeys - Additional keys to mask for this call only
+ */
+export function redact<T>(value: T, extraKeys: string[] = []): T {
+  const seen = new WeakMap<object, unknown>();
+
+  const walk = (val: unknown): unknown => {
+    if (typeof val === 'string') return redactString(val);
+    if (val === null || typeof val !== 'object') return val;
+    if (val instanceof Error) {
+      const copy = new Error(redactString(val.message));
+      copy.name = val.name;
+      copy.stack = val.stack ? redactString(val.stack) : undefined;
+      return copy;
+    }
+    if (val instanceof Date || val instanceof RegExp) return val;
+    if (seen.has(val)) return seen.get(val);
+    // Class instances (Page, Locator, ...) are left as-is: they hold no secret values themselves
+    const proto = Object.getPrototypeOf(val);
+    if (!Array.isArray(val) && proto !== Object.prototype && proto !== null) return val;
+
+    const copy: any = Array.isArray(val) ? [] : {};
+    seen.set(val, copy);
+    for (const [key, item] of Object.entries(val)) {
+      copy[key] = !Array.isArray(val) && isSensitiveKey(key, extraKeys) && item !== undefined && item !== null && item !== ''
+        ? REDACTED
+        : walk(item);
+    }
+    return copy;
+  };
+
+  return walk(value) as T;
+}
+
+/**
+ * Redact method arguments, masking whole parameters declared sensitive
+ * @param sensitiveArgs - Parameter positions to mask entirely (EX: [1] for `login(username, password)`)
+ * @param sensitiveKeys - Extra object keys to mask inside the arguments
+ */
+export function redactArgs(args: unknown[], sensitiveArgs: number[] = [], sensitiveKeys: string[] = []): unknown[] {
+  return args.map((arg, index) => (sensitiveArgs.includes(index) ? REDACTED : redact(arg, sensitiveKeys)));
+}
+
+/**
+ * Show only that a secret is set, never any part of it
+ */
+export function maskSecret(secret?: string): string {
+  return secret ? `${REDACTED} (${secret.length} chars)` : '(not set)';
+}
+
+/** Artifact files rewritten by redactFiles (screenshots, videos, traces are left untouched) */
+const TEXT_EXTENSIONS = new Set(['.json', '.jsonl', '.md', '.txt', '.log', '.html', '.xml', '.csv']);
+
+/**
+ * Mask secrets in every text file under a folder, in place (CI artifacts before they are zipped / uploaded)
+ * @returns Number of files changed
+ */
+export function redactFiles(dir: string): number {
+  let changed = 0;
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      changed += redactFiles(fullPath);
+      continue;
+    }
+    if (!TEXT_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) continue;
+
+    const original = fs.readFileSync(fullPath, 'utf-8');
+    const redacted = redactString(original);
+    if (redacted !== original) {
+      fs.writeFileSync(fullPath, redacted, 'utf-8');
+      changed++;
+    }
+  }
+  return changed;
+}
+
+let consoleRedactionInstalled = false;
+
+/**
+ * Route every console.* call through the redactor (idempotent)
+ * - Installed from playwright.config.ts, which is loaded by the runner AND every worker,
+ *   so test output captured by reporters (Qase captureLogs, list, html) is already masked
+ */
+export function installConsoleRedaction(): void {
+  if (consoleRedactionInstalled) return;
+  consoleRedactionInstalled = true;
+
+  for (const method of ['log', 'info', 'warn', 'error', 'debug'] as const) {
+    const original = console[method].bind(console);
+    console[method] = (...args: unknown[]) => {
+      // Format first (like console does), then mask the final text: catches secrets inside objects and %s
+      original(redactString(format(...args.map(arg => (typeof arg === 'object' ? redact(arg) : arg)))));
+    };
+  }
+}
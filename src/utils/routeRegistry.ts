@@ -0,0 +1,162 @@
+import { Page } from '@playwright/test';
+import { CommonConstants } from '../constants/commonConstants';
+import { SObjects } from '../constants/salesforceConstants';
+import { LightningLocators } from '../locators/lightningLocators';
+import { getConfig } from '../config/appConfig';
+import { waitForLightningIdle } from './lightningIdleHelper';
+import { LightningPageType, NavigateOptions, RouteDefinition, RouteParams } from '../type/Route';
+
+/** Salesforce record Id: 15 or 18 alphanumeric characters */
+const RECORD_ID_PATTERN = /^[a-zA-Z0-9]{15}(?:[a-zA-Z0-9]{3})?$/;
+
+/** Default "page is rendered" selector per page type */
+const READY_SELECTORS: Record<LightningPageType, string> = {
+  home: LightningLocators.LIST_VIEW,
+  list: LightningLocators.LIST_VIEW,
+  new: LightningLocators.NEW_RECORD_MODAL,
+  record: LightningLocators.RECORD_PAGE,
+  relatedList: LightningLocators.RELATED_LIST,
+};
+
+/**
+ * Route registry
+ * - Builds Lightning URLs from object API name, record Id, list view and related list
+ * - Navigates and waits until the target page is actually rendered
+ * - New pages are added with `RouteRegistry.register()`, no switch to edit
+ *
+ * URL shapes:
+ * - home        → /lightning/o/<Object>/home
+ * - list        → /lightning/o/<Object>/list?filterName=<listView>
+ * - new         → /lightning/o/<Object>/new
+ * - record      → /lightning/r/<Object>/<recordId>/view|edit
+ * - relatedList → /lightning/r/<Object>/<recordId>/related/<relatedList>/view
+ * Routes with `configUrl` use the page URL of the env config instead (EX: EVENT_MASTER_URL).
+ *
+ * @example
+ * ```typescript
+ * RouteRegistry.register('lesson-record', { objectApiName: 'MANAERP__Lesson__c', pageType: 'record' });
+ * await RouteRegistry.navigate(page, 'lesson-record', { recordId });
+ * ```
+ */
+export class RouteRegistry {
+  private static readonly routes = new Map<string, RouteDefinition>();
+
+  /**
+   * Register (or replace) a named route
+   */
+  static register(name: string, route: RouteDefinition): void {
+    if (!route.objectApiName?.trim()) {
+      throw new Error(`❌ Route "${name}" requires an objectApiName`);
+    }
+    this.routes.set(name, route);
+  }
+
+  /**
+   * Get a registered route
+   * @throws Error listing the known routes when the name is unknown
+   */
+  static get(name: string): RouteDefinition {
+    const route = this.routes.get(name);
+    if (!route) {
+      throw new Error(`❌ Unknown route "${name}". Registered: ${[...this.routes.keys()].join(', ')}`);
+    }
+    return route;
+  }
+
+  static has(name: string): boolean {
+    return this.routes.has(name);
+  }
+
+  /**
+   * Build the absolute URL of a registered route
+   */
+  static resolve(name: string, params: RouteParams = {}): string {
+    return this.buildUrl(this.get(name), params);
+  }
+
+  /**
+   * Build the absolute URL of any route (registered or ad-hoc)
+   */
+  static buildUrl(route: RouteDefinition, params: RouteParams = {}): string {
+    const { urls } = getConfig();
+    const url = route.configUrl
+      ? new URL(urls[route.configUrl])
+      : new URL(this.buildPath(route, params), urls.lightning);
+    const listView = params.listView ?? route.listView;
+    if (route.pageType === 'list' && listView) {
+      url.searchParams.set('filterName', listView);
+    }
+    for (const [key, value] of Object.entries(params.query ?? {})) {
+      url.searchParams.set(key, value);
+    }
+    return url.toString();
+  }
+
+  /**
+   * Navigate to a registered route and wait until the page is rendered
+   */
+  static async navigate(page: Page, name: string, params: RouteParams = {}, options: NavigateOptions = {}): Promise<void> {
+    await this.navigateTo(page, this.get(name), params, options);
+    console.log(`✅ Navigated to route "${name}"`);
+  }
+
+  /**
+   * Navigate to any route and wait until the page is rendered
+   * - URL path must match (Lightning may append query params or redirect list views)
+   * - The page shell of the page type must be visible
+   * - Lightning must be idle (no pending XHR / spinner)
+   */
+  static async navigateTo(page: Page, route: RouteDefinition, params: RouteParams = {}, options: NavigateOptions = {}): Promise<void> {
+    const timeout = options.timeout ?? 30000;
+    const url = this.buildUrl(route, params);
+    const expectedPath = new URL(url).pathname;
+
+    console.log(`➡️ Navigating to ${url}`);
+    await page.goto(url, { timeout });
+    await page.waitForURL(current => current.pathname.startsWith(expectedPath), { timeout });
+
+    const readySelector = route.readySelector ?? READY_SELECTORS[route.pageType];
+    await page.locator(readySelector).first().waitFor({ state: 'visible', timeout });
+    await waitForLightningIdle(page, { timeout, strict: false });
+  }
+
+  private static buildPath(route: RouteDefinition, params: RouteParams): string {
+    const object = encodeURIComponent(route.objectApiName);
+    switch (route.pageType) {
+      case 'home':
+      case 'list':
+      case 'new':
+        return `/lightning/o/${object}/${route.pageType}`;
+      case 'record':
+        return `/lightning/r/${object}/${this.requireRecordId(route, params)}/${params.mode ?? 'view'}`;
+      case 'relatedList': {
+        const relatedList = params.relatedList ?? route.relatedList;
+        if (!relatedList) {
+          throw new Error(`❌ relatedList is required for a relatedList route of ${route.objectApiName}`);
+        }
+        return `/lightning/r/${object}/${this.requireRecordId(route, params)}/related/${encodeURIComponent(relatedList)}/view`;
+      }
+      default:
+        throw new Error(`❌ Unsupported page type "${(route as RouteDefinition).pageType}"`);
+    }
+  }
+
+  private static requireRecordId(route: RouteDefinition, params: RouteParams): string {
+    const recordId = params.recordId?.trim();
+    if (!recordId || !RECORD_ID_PATTERN.test(recordId)) {
+      throw new Error(`❌ A valid 15/18-char recordId is required for ${route.pageType} of ${route.objectApiName} (got "${params.recordId}")`);
+    }
+    return recordId;
+  }
+}
+
+// ===== DEFAULT ROUTES =====
+// Page names used by CommonHelpers.navigateToPage, URLs from the env config (EVENT_MASTER_URL, LESSONS_URL, ...)
+RouteRegistry.register(CommonConstants.PAGE_EVENT_MASTER, { objectApiName: SObjects.EVENT_MASTER, pageType: 'home', configUrl: 'eventMaster' });
+RouteRegistry.register(CommonConstants.PAGE_LESSONS, { objectApiName: SObjects.LESSON_MASTER, pageType: 'home', configUrl: 'lessons' });
+RouteRegistry.register(CommonConstants.PAGE_ORDER, { objectApiName: SObjects.ORDER, pageType: 'home', configUrl: 'order' });
+RouteRegistry.register(CommonConstants.PAGE_TIMESHEET, { objectApiName: SObjects.TIMESHEET_WINDOW, pageType: 'list', configUrl: 'timesheet' });
+
+// Event Master record pages
+RouteRegistry.register(CommonConstants.PAGE_EVENT_MASTER_RECORD, { objectApiName: SObjects.EVENT_MASTER, pageType: 'record' });
+RouteRegistry.register(CommonConstants.PAGE_EVENT_MASTER_LIST, { objectApiName: SObjects.EVENT_MASTER, pageType: 'list', listView: 'All' });
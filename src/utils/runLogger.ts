@@ -0,0 +1,195 @@
+import { test } from '@playwright/test';
+import fs from 'fs';
+import path from 'path';
+import { getRunId } from './testDataRegistry';
+import { redact } from './redactionHelper';
+import { RunLogEntry, RunLogInput, RunLogTestContext } from '../type/RunLog';
+
+/**
+ * Structured run logger
+ * Purpose:
+ * - One writer for LogStep / Retry / TrackTime (and any custom entry), one schema (see RunLogEntry)
+ * - Each worker appends to its own JSONL file, so parallel workers never interleave lines
+ * - Every entry is tagged with run ID, worker, test ID, title, project, retry index and Qase ID
+ * - At the end of the run `RunLogger.mergeRun()` produces one ordered log per test
+ *
+ * Files (under RUN_LOG_DIR, default build/logs):
+ * - run.<runId>.worker-<n>.jsonl   written during the run
+ * - run.<runId>/<testId>.jsonl     merged, one per test (+ _global.jsonl for entries outside tests)
+ * - run.<runId>/index.json         test ID → title / project / Qase IDs / file
+ * - test-logs.json (LOG_FILE)      merged, whole run in order (CI artifact)
+ *
+ * @example
+ * ```typescript
+ * runLogger.log({ source: 'custom', step: 'Seed data', status: 'info', data: { count: 3 } });
+ * ```
+ */
+
+export const RUN_LOG_DIR = process.env.RUN_LOG_DIR || path.join(process.cwd(), 'build', 'logs');
+
+/** Merged run log, kept at the old location for CI artifacts */
+export const LOG_FILE = process.env.LOG_FILE || path.join(process.cwd(), 'test-logs.json');
+
+/** How many merged runs to keep in RUN_LOG_DIR (older ones are deleted on merge) */
+const KEEP_RUNS = Number(process.env.RUN_LOG_KEEP_RUNS || 5);
+
+const GLOBAL_LOG = '_global';
+const QASE_TITLE_PATTERN = /\(Qase ID: ([\d,\s]+)\)/;
+
+export class RunLogger {
+  private seq = 0;
+  private readonly workerIndex: number;
+
+  constructor(workerIndex: number = Number(process.env.TEST_WORKER_INDEX ?? 0)) {
+    this.workerIndex = workerIndex;
+  }
+
+  /** Log file of this worker for the current run */
+  get filePath(): string {
+    return path.join(RUN_LOG_DIR, `run.${getRunId()}.worker-${this.workerIndex}.jsonl`);
+  }
+
+  /**
+   * Append one entry (never throws: logging must not fail a test)
+   */
+  log(input: RunLogInput): RunLogEntry {
+    const entry: RunLogEntry = {
+      timestamp: new Date().toISOString(),
+      seq: ++this.seq,
+      runId: getRunId(),
+      worker: this.workerIndex,
+      // Safety net: every sink is redacted, whatever the caller passed
+      ...redact(input),
+      test: currentTestContext(),
+    };
+    try {
+      fs.mkdirSync(RUN_LOG_DIR, { recursive: true });
+      fs.appendFileSync(this.filePath, safeStringify(entry) + '\n', 'utf-8');
+    } catch (err) {
+      console.error('Failed to write run log:', err);
+    }
+    return entry;
+  }
+
+  /**
+   * Read every worker file of a run, ordered by time (then worker, then sequence)
+   */
+  static readRun(runId: string = getRunId()): RunLogEntry[] {
+    const entries: RunLogEntry[] = [];
+    for (const file of workerFiles(runId)) {
+      for (const line of fs.readFileSync(file, 'utf-8').split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          entries.push(JSON.parse(line));
+        } catch {
+          console.warn(`⚠️ Skipping malformed log line in ${file}`);
+        }
+      }
+    }
+    return entries.sort((a, b) =>
+      a.timestamp.localeCompare(b.timestamp) || a.worker - b.worker || a.seq - b.seq
+    );
+  }
+
+  /**
+   * Merge worker files of a run into one ordered log per test, then remove them
+   * - Also rewrites LOG_FILE with the whole run and prunes runs beyond RUN_LOG_KEEP_RUNS
+   * @returns Number of merged entries
+   */
+  static mergeRun(runId: string = getRunId()): number {
+    const entries = this.readRun(runId);
+    if (entries.length === 0) return 0;
+
+    const runDir = path.join(RUN_LOG_DIR, `run.${runId}`);
+    fs.mkdirSync(runDir, { recursive: true });
+
+    const byTest = new Map<string, RunLogEntry[]>();
+    for (const entry of entries) {
+      const key = entry.test?.testId ?? GLOBAL_LOG;
+      if (!byTest.has(key)) byTest.set(key, []);
+      byTest.get(key)!.push(entry);
+    }
+
+    const index = [...byTest.entries()].map(([key, testEntries]) => {
+      // Retries of a test run in different workers: keep them in retry order
+      testEntries.sort((a, b) => (a.test?.retry ?? 0) - (b.test?.retry ?? 0));
+      const file = `${key}.jsonl`;
+      fs.writeFileSync(path.join(runDir, file), testEntries.map(safeStringify).join('\n') + '\n', 'utf-8');
+      const context = testEntries.find(e => e.test)?.test;
+      return {
+        testId: context?.testId,
+        title: context?.title,
+        project: context?.project,
+        qaseIds: context?.qaseIds ?? [],
+        retries: Math.max(...testEntries.map(e => e.test?.retry ?? 0)),
+        entries: testEntries.length,
+        file,
+      };
+    });
+    fs.writeFileSync(path.join(runDir, 'index.json'), JSON.stringify(index, null, 2), 'utf-8');
+    fs.writeFileSync(LOG_FILE, entries.map(safeStringify).join('\n') + '\n', 'utf-8');
+
+    workerFiles(runId).forEach(file => fs.rmSync(file, { force: true }));
+    pruneOldRuns();
+    console.log(`🪵 Merged ${entries.length} log entries of run ${runId} into ${runDir}`);
+    return entries.length;
+  }
+}
+
+function workerFiles(runId: string): string[] {
+  if (!fs.existsSync(RUN_LOG_DIR)) return [];
+  return fs.readdirSync(RUN_LOG_DIR)
+    .filter(f => f.startsWith(`run.${runId}.worker-`) && f.endsWith('.jsonl'))
+    .map(f => path.join(RUN_LOG_DIR, f));
+}
+
+/** Keep the newest KEEP_RUNS merged run folders (run IDs are epoch ms, so name order = time order) */
+function pruneOldRuns(): void {
+  const runDirs = fs.readdirSync(RUN_LOG_DIR, { withFileTypes: true })
+    .filter(d => d.isDirectory() && d.name.startsWith('run.'))
+    .map(d => d.name)
+    .sort();
+  for (const dir of runDirs.slice(0, Math.max(0, runDirs.length - KEEP_RUNS))) {
+    fs.rmSync(path.join(RUN_LOG_DIR, dir), { recursive: true, force: true });
+  }
+}
+
+function currentTestContext(): RunLogTestContext | undefined {
+  try {
+    const info = test.info();
+    return {
+      testId: info.testId,
+      title: info.title,
+      titlePath: info.titlePath,
+      project: info.project.name,
+      retry: info.retry,
+      qaseIds: extractQaseIds(info.title, info.annotations),
+    };
+  } catch {
+    return undefined; // called outside a running test (setup scripts, teardown)
+  }
+}
+
+/** Qase IDs from `qase(id, title)` ("... (Qase ID: 1,2)") or a QaseID annotation */
+export function extractQaseIds(title: string, annotations: { type: string; description?: string }[]): number[] {
+  const fromTitle = title.match(QASE_TITLE_PATTERN)?.[1] ?? '';
+  const fromAnnotation = annotations.find(a => a.type.toLowerCase() === 'qaseid')?.description ?? '';
+  return [...new Set(`${fromTitle},${fromAnnotation}`.split(',').map(Number).filter(id => id > 0))];
+}
+
+/** JSON.stringify that survives circular refs and Playwright objects passed as args */
+function safeStringify(value: unknown): string {
+  const seen = new WeakSet<object>();
+  return JSON.stringify(value, (_key, val) => {
+    if (typeof val === 'function') return undefined;
+    if (val instanceof Error) return { name: val.name, message: val.message };
+    if (val && typeof val === 'object') {
+      if (seen.has(val)) return '[Circular]';
+      seen.add(val);
+    }
+    return val;
+  });
+}
+
+/** Logger of the current worker process */
+export const runLogger = new RunLogger();
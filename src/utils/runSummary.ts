@@ -0,0 +1,299 @@
+import type { JSONReport, JSONReportSpec, JSONReportSuite, JSONReportTest, JSONReportTestResult } from '@playwright/test/reporter';
+import fs from 'fs';
+import { FAILURE_CATEGORY_ANNOTATION } from '../type/FailureCategory';
+import { RunLogEntry } from '../type/RunLog';
+import { RunSummary, SlowStep, SummaryCounts, SummaryOutcome, SummaryTest } from '../type/RunSummary';
+import { stripAnsi } from './failureClassifier';
+import { quarantinedFailureOf } from './quarantine';
+import { redactString } from './redactionHelper';
+import { extractQaseIds } from './runLogger';
+
+/**
+ * Run summary
+ * Purpose:
+ * - Turn test-results.json (json reporter) + the merged step log (test-logs.json) into something a reviewer reads:
+ *   pass / fail / quarantined / flaky counts per project and tag, failed tests with their first error line and Qase links,
+ *   slowest @LogStep / @TrackTime steps
+ * - Same data as JUnit XML for any CI system (one <testsuite> per project and spec file)
+ *
+ * @example
+ * ```typescript
+ * const summary = buildRunSummary(readResults('test-results.json'), readStepLog('test-logs.json'), { env: 'dev-staging' });
+ * fs.writeFileSync('build/summary/summary.md', toMarkdown(summary, { qaseProject: 'PX' }));
+ * fs.writeFileSync('build/summary/junit.xml', toJUnit(summary));
+ * ```
+ */
+
+export interface SummaryOptions {
+  env: string;
+  /** How many slow steps to keep (default 10) */
+  topSteps?: number;
+}
+
+export interface MarkdownOptions {
+  /** Qase project code: failed tests link to their cases when set */
+  qaseProject?: string;
+  /** Qase web app (default https://app.qase.io) */
+  qaseUrl?: string;
+}
+
+const QASE_SUFFIX = /\s*\(Qase ID: [\d,\s]+\)/;
+const OUTCOME_ICONS: Record<SummaryOutcome, string> = { passed: '✅', failed: '❌', quarantined: '🚧', flaky: '⚠️', skipped: '⏭️' };
+const STEP_SOURCES = ['logStep', 'trackTime'];
+
+export function readResults(file: string): JSONReport {
+  if (!fs.existsSync(file)) {
+    throw new Error(`❌ Test results not found: ${file}. Run the tests with the json reporter first.`);
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf-8')) as JSONReport;
+}
+
+/** Merged run log (JSONL); empty when the run wrote no step log */
+export function readStepLog(file: string): RunLogEntry[] {
+  if (!fs.existsSync(file)) return [];
+  return fs.readFileSync(file, 'utf-8')
+    .split('\n')
+    .filter(line => line.trim())
+    .flatMap(line => {
+      try {
+        return [JSON.parse(line) as RunLogEntry];
+      } catch {
+        return [];
+      }
+    });
+}
+
+export function buildRunSummary(report: JSONReport, steps: RunLogEntry[], options: SummaryOptions): RunSummary {
+  const tests = report.suites
+    .flatMap(file => collectSpecs(file, []))
+    .flatMap(({ spec, titlePath }) => spec.tests.map(test => toSummaryTest(spec, test, titlePath)));
+
+  const byProject: Record<string, SummaryCounts> = {};
+  const byTag: Record<string, SummaryCounts> = {};
+  for (const test of tests) {
+    count(byProject[test.project] ??= emptyCounts(), test.outcome);
+    for (const tag of test.tags.length > 0 ? test.tags : ['(none)']) {
+      count(byTag[tag] ??= emptyCounts(), test.outcome);
+    }
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    env: options.env,
+    durationMs: report.stats?.duration ?? 0,
+    totals: tests.reduce((totals, test) => count(totals, test.outcome), emptyCounts()),
+    byProject,
+    byTag,
+    tests,
+    slowestSteps: slowestSteps(steps, options.topSteps ?? 10),
+  };
+}
+
+export function toMarkdown(summary: RunSummary, options: MarkdownOptions = {}): string {
+  const { totals } = summary;
+  const failed = summary.tests.filter(t => t.outcome === 'failed' || t.outcome === 'quarantined' || t.outcome === 'flaky');
+  const lines = [
+    `## ${totals.failed > 0 ? '❌' : '✅'} Test run — ${summary.env}`,
+    '',
+    `${totals.total} test(s) in ${formatMs(summary.durationMs)}: ✅ ${totals.passed} passed · ❌ ${totals.failed} failed · 🚧 ${
+      totals.quarantined} quarantined (failed, ignored) · ⚠️ ${totals.flaky} flaky · ⏭️ ${totals.skipped} skipped`,
+    '',
+    countsTable('Project', summary.byProject),
+    '',
+    countsTable('Tag', summary.byTag),
+  ];
+
+  if (failed.length > 0) {
+    lines.push(
+      '',
+      '### Failed tests',
+      '',
+      '| | Test | Qase | Retries | Category | First error line |',
+      '|-|------|------|--------:|----------|------------------|',
+      ...failed.map(t => `| ${OUTCOME_ICONS[t.outcome]} | ${escapeCell(`${t.project} › ${t.file} › ${t.title}`)} | ${
+        qaseLinks(t.qaseIds, options)} | ${t.retries} | ${escapeCell(t.failureCategory ?? '–')} | ${escapeCell(firstLine(t.error))} |`),
+    );
+  }
+
+  if (summary.slowestSteps.length > 0) {
+    lines.push(
+      '',
+      '### Slowest steps',
+      '',
+      '| Step | Source | Calls | Avg | Max | Slowest in |',
+      '|------|--------|------:|----:|----:|------------|',
+      ...summary.slowestSteps.map(s => `| ${escapeCell(s.step)} | ${s.source} | ${s.calls} | ${formatMs(s.avgMs)} | ${
+        formatMs(s.maxMs)} | ${escapeCell(s.slowestIn ?? '–')} |`),
+    );
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * JUnit XML: one <testsuite> per project and spec file; flaky tests pass with a note in <system-out>,
+ * quarantined failures are <skipped> with the error in the message (they do not fail the build)
+ */
+export function toJUnit(summary: RunSummary): string {
+  const suites = new Map<string, SummaryTest[]>();
+  for (const test of summary.tests) {
+    const name = `${test.project} › ${test.file}`;
+    suites.set(name, [...(suites.get(name) ?? []), test]);
+  }
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${xml(`Playwright ${summary.env}`)}" tests="${summary.totals.total}" failures="${summary.totals.failed}" skipped="${
+      summary.totals.skipped + summary.totals.quarantined}" errors="0" time="${seconds(summary.durationMs)}">`,
+  ];
+  for (const [name, tests] of suites) {
+    const failures = tests.filter(t => t.outcome === 'failed').length;
+    const skipped = tests.filter(t => t.outcome === 'skipped' || t.outcome === 'quarantined').length;
+    const time = tests.reduce((sum, t) => sum + t.durationMs, 0);
+    lines.push(`  <testsuite name="${xml(name)}" tests="${tests.length}" failures="${failures}" skipped="${skipped}" errors="0" time="${seconds(time)}">`);
+    for (const test of tests) {
+      lines.push(`    <testcase name="${xml(test.title)}" classname="${xml(test.file)}" time="${seconds(test.durationMs)}">`);
+      const properties = [
+        ...test.qaseIds.map(id => ['qase_id', String(id)]),
+        ...test.tags.map(tag => ['tag', `@${tag}`]),
+        ...(test.failureCategory ? [['failure_category', test.failureCategory]] : []),
+      ];
+      if (properties.length > 0) {
+        lines.push('      <properties>', ...properties.map(([key, value]) => `        <property name="${key}" value="${xml(value)}"/>`), '      </properties>');
+      }
+      if (test.outcome === 'failed') {
+        lines.push(`      <failure message="${xml(firstLine(test.error))}" type="${xml(test.failureCategory?.split(':')[0] ?? 'failure')}">${
+          xml(test.error ?? '')}</failure>`);
+      } else if (test.outcome === 'skipped') {
+        lines.push('      <skipped/>');
+      } else if (test.outcome === 'quarantined') {
+        lines.push(`      <skipped message="${xml(`Quarantined, failure ignored: ${firstLine(test.error)}`)}"/>`);
+      } else if (test.outcome === 'flaky') {
+        lines.push(`      <system-out>${xml(`Flaky: passed after ${test.retries} retry(ies). First error: ${firstLine(test.error)}`)}</system-out>`);
+      }
+      lines.push('    </testcase>');
+    }
+    lines.push('  </testsuite>');
+  }
+  lines.push('</testsuites>');
+  return lines.join('\n') + '\n';
+}
+
+/** Every spec of a suite with its describe titles (call with a file suite and []) */
+function collectSpecs(suite: JSONReportSuite, titlePath: string[]): { spec: JSONReportSpec; titlePath: string[] }[] {
+  return [
+    ...suite.specs.map(spec => ({ spec, titlePath })),
+    ...(suite.suites ?? []).flatMap(child => collectSpecs(child, [...titlePath, child.title])),
+  ];
+}
+
+function toSummaryTest(spec: JSONReportSpec, test: JSONReportTest, titlePath: string[]): SummaryTest {
+  const lastResult = test.results[test.results.length - 1];
+  const lastFailure = [...test.results].reverse().find(r => r.status !== 'passed' && r.status !== 'skipped');
+  const error = lastFailure?.errors.map(e => e.message).join('\n') || lastFailure?.error?.message;
+  const category = [...test.results].reverse()
+    .flatMap(r => r.annotations ?? [])
+    .find(a => a.type === FAILURE_CATEGORY_ANNOTATION)?.description;
+
+  return {
+    project: test.projectName || '(default)',
+    file: spec.file,
+    title: [...titlePath, spec.title.replace(QASE_SUFFIX, '')].join(' › '),
+    tags: spec.tags,
+    qaseIds: extractQaseIds(spec.title, test.annotations),
+    outcome: outcomeOf(test, lastResult),
+    retries: Math.max(0, test.results.length - 1),
+    durationMs: test.results.reduce((sum, r) => sum + r.duration, 0),
+    error: error ? redactString(stripAnsi(error)) : undefined,
+    failureCategory: category,
+  };
+}
+
+function outcomeOf(test: JSONReportTest, lastResult: JSONReportTestResult | undefined): SummaryOutcome {
+  // "expected" for Playwright: the quarantine fixture turned the failure into an expected one
+  if (quarantinedFailureOf(lastResult?.annotations)) return 'quarantined';
+  switch (test.status) {
+    case 'unexpected': return 'failed';
+    case 'flaky': return 'flaky';
+    case 'skipped': return 'skipped';
+    default: return 'passed';
+  }
+}
+
+/** Completed @LogStep / @TrackTime calls grouped by step name, slowest (max) first */
+function slowestSteps(entries: RunLogEntry[], top: number): SlowStep[] {
+  const groups = new Map<string, RunLogEntry[]>();
+  for (const entry of entries) {
+    if (!STEP_SOURCES.includes(entry.source) || entry.durationMs === undefined) continue;
+    if (entry.status !== 'success' && entry.status !== 'failed') continue;
+    const key = `${entry.source}\0${entry.step}`;
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  }
+
+  return [...groups.values()]
+    .map(calls => {
+      const slowest = calls.reduce((max, call) => (call.durationMs! > max.durationMs! ? call : max));
+      return {
+        step: slowest.step,
+        source: slowest.source,
+        calls: calls.length,
+        avgMs: Math.round(calls.reduce((sum, call) => sum + call.durationMs!, 0) / calls.length),
+        maxMs: slowest.durationMs!,
+        slowestIn: slowest.test?.title.replace(QASE_SUFFIX, ''),
+      };
+    })
+    .sort((a, b) => b.maxMs - a.maxMs)
+    .slice(0, top);
+}
+
+function countsTable(label: string, counts: Record<string, SummaryCounts>): string {
+  return [
+    `| ${label} | Total | ✅ Passed | ❌ Failed | 🚧 Quarantined | ⚠️ Flaky | ⏭️ Skipped |`,
+    `|${'-'.repeat(label.length + 2)}|------:|----------:|----------:|---------------:|---------:|-----------:|`,
+    ...Object.entries(counts)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, c]) => `| ${label === 'Tag' && key !== '(none)' ? `@${key}` : key} | ${c.total} | ${c.passed} | ${c.failed} | ${c.quarantined} | ${c.flaky} | ${c.skipped} |`),
+  ].join('\n');
+}
+
+function qaseLinks(ids: number[], options: MarkdownOptions): string {
+  if (ids.length === 0) return '–';
+  if (!options.qaseProject) return ids.join(', ');
+  const baseUrl = (options.qaseUrl || 'https://app.qase.io').replace(/\/+$/, '');
+  return ids.map(id => `[${options.qaseProject}-${id}](${baseUrl}/case/${options.qaseProject}-${id})`).join(', ');
+}
+
+function emptyCounts(): SummaryCounts {
+  return { total: 0, passed: 0, failed: 0, quarantined: 0, flaky: 0, skipped: 0 };
+}
+
+function count(counts: SummaryCounts, outcome: SummaryOutcome): SummaryCounts {
+  counts.total++;
+  counts[outcome]++;
+  return counts;
+}
+
+function firstLine(text: string | undefined): string {
+  return (text ?? '').split('\n').map(line => line.trim()).find(Boolean) ?? '';
+}
+
+function formatMs(ms: number): string {
+  return ms >= 60_000 ? `${Math.floor(ms / 60_000)}m ${Math.round((ms % 60_000) / 1000)}s` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ').slice(0, 200);
+}
+
+function xml(text: string): string {
+  return text
+    // characters not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,154 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { test } from '@playwright/test';
+import { SoftAssertionResult, SoftCheck } from '../type/SoftAssertion';
+import { redactString } from './redactionHelper';
+
+/**
+ * Soft assertions
+ * Purpose:
+ * - Inside `softAssert.scope()`, verifications wrapped with `softAssert.check()` (BasePage verifyData,
+ *   checkMandatoryField, verifyInputValue, ...) record their failure and let the scope continue
+ * - At the end of the scope every failure is thrown together as one SoftAssertionError
+ *   (field, expected, actual) and the scope is attached to the HTML report as a table
+ * - Outside a scope, `check()` behaves like a normal (hard) assertion
+ * - A nested scope hands its failures to the enclosing scope instead of throwing
+ *
+ * @example
+ * ```typescript
+ * await softAssert.scope('Verify new event modal', async () => {
+ *   await eventPage.verifyModalTitle(EventLocators.MODAL_TITLE, 'New Event Master');
+ *   await eventPage.verifyInputValue(EventLocators.INPUT_REMINDERS, '255');
+ * });
+ * ```
+ */
+
+export const SOFT_ASSERTION_ANNOTATION = 'soft-assertions';
+
+type ScopeState = {
+  name: string;
+  results: SoftAssertionResult[];
+  /** > 0 while a check is running: checks called by that check stay hard */
+  depth: number;
+};
+
+export class SoftAssertionError extends Error {
+  readonly failures: SoftAssertionResult[];
+
+  constructor(scopeName: string, failures: SoftAssertionResult[]) {
+    super(
+      `❌ ${failures.length} soft assertion(s) failed in "${scopeName}":\n` +
+      failures.map((f, i) => `  ${i + 1}. [${f.check}] ${f.field} — expected: ${f.expected} | actual: ${f.actual ?? '–'}`).join('\n')
+    );
+    this.name = 'SoftAssertionError';
+    this.failures = failures;
+  }
+}
+
+export class SoftAssert {
+  private readonly storage = new AsyncLocalStorage<ScopeState>();
+
+  /** True when called inside a soft-assertion scope */
+  get active(): boolean {
+    return this.storage.getStore() !== undefined;
+  }
+
+  /**
+   * Run a block of verifications and throw all collected failures at the end
+   */
+  async scope<T>(name: string, body: () => Promise<T>): Promise<T> {
+    const parent = this.storage.getStore();
+    const state: ScopeState = { name, results: [], depth: 0 };
+
+    const run = async (): Promise<T> => {
+      const result = await this.storage.run(state, body);
+      await this.report(state);
+
+      const failures = state.results.filter(r => r.status === 'failed');
+      if (parent) {
+        parent.results.push(...failures);
+      } else if (failures.length > 0) {
+        throw new SoftAssertionError(name, failures);
+      }
+      return result;
+    };
+
+    return inTest() ? await test.step(`Soft assertions: ${name}`, run) : await run();
+  }
+
+  /**
+   * Run one verification: records the result inside a scope, throws outside of it
+   */
+  async check<T>(meta: SoftCheck, verify: () => Promise<T>): Promise<T | undefined> {
+    const state = this.storage.getStore();
+    if (!state || state.depth > 0) return await verify();
+
+    const base = { check: meta.check, field: redactString(meta.field), expected: redactString(String(meta.expected)) };
+    state.depth++;
+    try {
+      const result = await verify();
+      state.results.push({ ...base, status: 'passed' });
+      return result;
+    } catch (error) {
+      const failure: SoftAssertionResult = {
+        ...base,
+        actual: actualOf(error),
+        status: 'failed',
+        message: redactString(firstLine(error)),
+      };
+      state.results.push(failure);
+      console.warn(`⚠️ Soft assertion failed [${meta.check}] ${failure.field}: expected "${failure.expected}", actual "${failure.actual ?? '–'}"`);
+      return undefined;
+    } finally {
+      state.depth--;
+    }
+  }
+
+  /** Attach the scope as a table to the HTML report (+ annotation when something failed) */
+  private async report(state: ScopeState): Promise<void> {
+    if (!inTest() || state.results.length === 0) return;
+    const testInfo = test.info();
+    await testInfo.attach(`${state.name} - soft assertions`, { body: toTable(state.results), contentType: 'text/plain' });
+
+    const failed = state.results.filter(r => r.status === 'failed').length;
+    if (failed > 0) {
+      testInfo.annotations.push({
+        type: SOFT_ASSERTION_ANNOTATION,
+        description: `❌ ${failed}/${state.results.length} failed in "${state.name}"`,
+      });
+    }
+  }
+}
+
+function inTest(): boolean {
+  try {
+    test.info();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Actual value from a Playwright matcher error (toContainText / toBe / ...) */
+function actualOf(error: unknown): string | undefined {
+  const actual = (error as { matcherResult?: { actual?: unknown } })?.matcherResult?.actual;
+  if (actual === undefined || actual === null) return undefined;
+  return redactString(typeof actual === 'string' ? actual : JSON.stringify(actual));
+}
+
+function firstLine(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  // strip ANSI colors of expect() messages
+  return message.replace(/\u001b\[\d+m/g, '').split('\n').find(line => line.trim())?.trim() ?? '';
+}
+
+function toTable(results: SoftAssertionResult[]): string {
+  const header = ['#', 'Status', 'Check', 'Field', 'Expected', 'Actual'];
+  const rows = results.map((r, i) => [
+    String(i + 1), r.status === 'passed' ? '✅ passed' : '❌ failed', r.check, r.field, r.expected, r.actual ?? '–',
+  ].map(cell => cell.replace(/\s+/g, ' ')));
+  const widths = header.map((h, col) => Math.max(h.length, ...rows.map(row => row[col].length)));
+  const line = (cells: string[]) => `| ${cells.map((c, col) => c.padEnd(widths[col])).join(' | ')} |`;
+  return [line(header), `|${widths.map(w => '-'.repeat(w + 2)).join('|')}|`, ...rows.map(line)].join('\n') + '\n';
+}
+
+export const softAssert = new SoftAssert();
@@ -0,0 +1,43 @@
+/**
+ * SOQL utilities
+ * - Build simple SELECT statements safely from field lists and filters
+ */
+
+/**
+ * Escape a value for use inside a single-quoted SOQL string literal
+ * Example: escapeSoql("O'Neil") → "O\\'Neil"
+ */
+export function escapeSoql(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+}
+
+/**
+ * Format a JS value as a SOQL literal
+ * - string → 'quoted', number/boolean → as-is, null → null
+ */
+export function toSoqlLiteral(value: string | number | boolean | null): string {
+  if (value === null) return 'null';
+  if (typeof value === 'string') return `'${escapeSoql(value)}'`;
+  return String(value);
+}
+
+/**
+ * Build a SELECT statement with AND-ed equality filters
+ * Example:
+ * buildSelect('MANAERP__Event_Master__c', ['Id', 'Name'], { Name: 'Demo' })
+ * // => SELECT Id, Name FROM MANAERP__Event_Master__c WHERE Name = 'Demo'
+ */
+export function buildSelect(
+  sobject: string,
+  fields: string[],
+  where: Record<string, string | number | boolean | null> = {},
+  limit?: number
+): string {
+  const conditions = Object.entries(where).map(([field, value]) =>
+    value === null ? `${field} = null` : `${field} = ${toSoqlLiteral(value)}`
+  );
+  let soql = `SELECT ${Array.from(new Set(['Id', ...fields])).join(', ')} FROM ${sobject}`;
+  if (conditions.length > 0) soql += ` WHERE ${conditions.join(' AND ')}`;
+  if (limit !== undefined) soql += ` LIMIT ${limit}`;
+  return soql;
+}
@@ -1,40 +1,57 @@
-import { Page} from "@playwright/test";
+import { Browser, Page } from "@playwright/test";
 import { LoginAction } from './loginHelper';
 import fs from "fs";
 import path from "path";
+import { SalesforceSession } from "../type/SalesforceSession";
+import { SalesforceConstants } from "../constants/salesforceConstants";
+import { UserConstants } from "../constants/userConstants";
+
+/** A lock older than this is left over by a killed worker and is taken over */
+const STALE_LOCK_MS = 5 * 60 * 1000;
+const LOCK_POLL_MS = 500;
 
 export class StorageHelper {
   /**
-   * Gets the storage file path for the specified environment
+   * Gets the storage file path for the specified environment and role
    * Creates the storage directory if it doesn't exist
    * @param environment - Environment name (e.g., 'dev-staging', 'pre-prod')
-   * @returns Full path to the storage state file
+   * @param role - User role from users.json (default role keeps `storageState.<env>.json`)
+   * @returns Full path to the storage state file (e.g. storageState.dev-staging.teacher.json)
    */
-  static getStorageFilePath(environment: string): string {
+  static getStorageFilePath(environment: string, role: string = UserConstants.USR_DEFAULT): string {
     const storageDirectory = path.resolve(__dirname, '../../storage');
     if (!fs.existsSync(storageDirectory)) {
       fs.mkdirSync(storageDirectory, { recursive: true });
     }
-    return path.join(storageDirectory, `storageState.${environment}.json`);
+    const normalizedRole = role.trim().toLowerCase();
+    const fileName = normalizedRole === UserConstants.USR_DEFAULT
+      ? `storageState.${environment}.json`
+      : `storageState.${environment}.${normalizedRole}.json`;
+    return path.join(storageDirectory, fileName);
   }
 
   /**
    * Saves the current page storage state to file
    * @param page - Playwright page instance
    * @param environment - Environment name
+   * @param role - User role (default: admin)
    * @returns Promise resolving to the saved file path
    * @throws Error when storage save operation fails
    */
-  static async saveStorageState(page: Page, environment: string): Promise<string> {
-    const filePath = this.getStorageFilePath(environment);
-    
+  static async saveStorageState(page: Page, environment: string, role?: string): Promise<string> {
+    const filePath = this.getStorageFilePath(environment, role);
+    // Written next to the target, then renamed: other workers never read a half-written file
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+
     try {
-      await page.context().storageState({ path: filePath });
+      await page.context().storageState({ path: tempPath });
+      fs.renameSync(tempPath, filePath);
         // const username = process.env.SF_USERNAME;;
         //  console.log(`userName:`, username);
       console.log(`✅ Storage saved successfully: ${filePath}`);
       return filePath;
     } catch (error) {
+      fs.rmSync(tempPath, { force: true });
       const errorMessage = error instanceof Error ? error.message : String(error);
       console.error(`❌ Failed to save storage: ${errorMessage}`);
       throw new Error(`Storage save failed: ${errorMessage}`);
@@ -46,20 +63,22 @@ export class StorageHelper {
   /**
    * Loads the storage state file path if it exists
    * @param environment - Environment name
+   * @param role - User role (default: admin)
    * @returns File path if exists, null otherwise
    */
-  static loadStorageState(environment: string): string | null {
-    const filePath = this.getStorageFilePath(environment);
+  static loadStorageState(environment: string, role?: string): string | null {
+    const filePath = this.getStorageFilePath(environment, role);
     return fs.existsSync(filePath) ? filePath : null;
   }
 
   /**
    * Validates if the storage state file contains valid data
    * @param environment - Environment name
+   * @param role - User role (default: admin)
    * @returns True if storage contains valid cookies, false otherwise
    */
-  static isStorageStateValid(environment: string): boolean {
-    const filePath = this.getStorageFilePath(environment);
+  static isStorageStateValid(environment: string, role?: string): boolean {
+    const filePath = this.getStorageFilePath(environment, role);
     if (!fs.existsSync(filePath)) {
       return false;
     }
@@ -78,10 +97,11 @@ export class StorageHelper {
    * Checks if the storage state has expired based on file age and cookie expiration
    * @param environment - Environment name
    * @param maxAgeHours - Maximum age in hours before considering expired (default: 24)
+   * @param role - User role (default: admin)
    * @returns True if storage is expired, false otherwise
    */
-  static isStorageStateExpired(environment: string, maxAgeHours: number = 24): boolean {
-    const filePath = this.getStorageFilePath(environment);
+  static isStorageStateExpired(environment: string, maxAgeHours: number = 24, role?: string): boolean {
+    const filePath = this.getStorageFilePath(environment, role);
     
     if (!fs.existsSync(filePath)) {
       console.log(`❌ Storage file not found: ${filePath}`);
@@ -127,14 +147,16 @@ export class StorageHelper {
    * Determines if storage state should be refreshed
    * Combines validity and expiration checks
    * @param environment - Environment name
+   * @param verbose - Print the check details
+   * @param role - User role (default: admin)
    * @returns True if storage should be refreshed, false otherwise
    */
-  static shouldRefreshStorageState(environment: string, verbose: boolean = false): boolean {
-    const isValid = this.isStorageStateValid(environment);
-    const isExpired = this.isStorageStateExpired(environment);
+  static shouldRefreshStorageState(environment: string, verbose: boolean = false, role?: string): boolean {
+    const isValid = this.isStorageStateValid(environment, role);
+    const isExpired = this.isStorageStateExpired(environment, 24, role);
     
     if (verbose) {
-      console.log(`🔍 Storage check for ${environment}:`);
+      console.log(`🔍 Storage check for ${environment}${role ? ` (${role})` : ''}:`);
       console.log(`   - Valid: ${isValid}`);
       console.log(`   - Expired: ${isExpired}`);
       console.log(`   - Should refresh: ${!isValid || isExpired}`);
@@ -143,6 +165,127 @@ export class StorageHelper {
     return !isValid || isExpired;
   }
 
+  /**
+   * Returns a valid storage state file for a role, logging in through the UI only when needed
+   * - Lazy: the first test needing a role creates its storage, later tests reuse it
+   * - One login per role across workers: a lock file next to the storage state makes the other
+   *   workers wait, then reuse the file it wrote
+   * - Credentials come from users.json (env → role)
+   * @param browser - Browser used to open a throwaway login context
+   * @param environment - Environment name
+   * @param role - User role (EX: 'teacher', 'staff', 'parent')
+   * @returns Path of the storage state file
+   */
+  static async ensureStorageState(browser: Browser, environment: string, role: string): Promise<string> {
+    if (!this.shouldRefreshStorageState(environment, false, role)) {
+      return this.getStorageFilePath(environment, role);
+    }
+
+    return this.withLock(`${this.getStorageFilePath(environment, role)}.lock`, async () => {
+      // Another worker may have logged in while this one waited for the lock
+      if (!this.shouldRefreshStorageState(environment, false, role)) {
+        return this.getStorageFilePath(environment, role);
+      }
+
+      console.log(`🔄 Creating storage state for role '${role}' (${environment})...`);
+      const context = await browser.newContext({ storageState: undefined });
+      try {
+        const page = await context.newPage();
+        await LoginAction(page, role);
+        await page.waitForURL('**/lightning/**', { timeout: 120000 });
+        return await this.saveStorageState(page, environment, role);
+      } finally {
+        await context.close();
+      }
+    });
+  }
+
+  /**
+   * Run a callback holding an exclusive lock file (shared by every worker process)
+   * @param lockPath - Lock file; created when the lock is taken, removed when released
+   */
+  private static async withLock<T>(lockPath: string, callback: () => Promise<T>): Promise<T> {
+    for (;;) {
+      try {
+        fs.closeSync(fs.openSync(lockPath, 'wx'));
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+        const age = Date.now() - (fs.statSync(lockPath, { throwIfNoEntry: false })?.mtimeMs ?? Date.now());
+        if (age > STALE_LOCK_MS) {
+          console.warn(`⚠️ Removing stale lock ${lockPath}`);
+          fs.rmSync(lockPath, { force: true });
+          continue;
+        }
+        await new Promise(resolve => setTimeout(resolve, LOCK_POLL_MS));
+      }
+    }
+    try {
+      return await callback();
+    } finally {
+      fs.rmSync(lockPath, { force: true });
+    }
+  }
+
+  /**
+   * Gets the API session file path for the specified environment
+   * @param environment - Environment name
+   * @returns Full path to the session file (next to the storage state)
+   */
+  static getSessionFilePath(environment: string): string {
+    return path.join(path.dirname(this.getStorageFilePath(environment)), `session.${environment}.json`);
+  }
+
+  /**
+   * Saves the Salesforce API session (instance URL + access token) to file
+   * @param session - Session obtained from `sf org display`
+   * @param environment - Environment name
+   */
+  static saveSession(session: SalesforceSession, environment: string): string {
+    const filePath = this.getSessionFilePath(environment);
+    fs.writeFileSync(filePath, JSON.stringify(session, null, 2), 'utf-8');
+    console.log(`✅ API session saved: ${filePath}`);
+    return filePath;
+  }
+
+  /**
+   * Loads the Salesforce API session for an environment
+   * - 1st: session file written by global setup (sf CLI)
+   * - 2nd: `sid` cookie of the saved storage state (UI login)
+   * @param environment - Environment name
+   * @returns Session if found, null otherwise
+   */
+  static loadSession(environment: string): SalesforceSession | null {
+    const sessionPath = this.getSessionFilePath(environment);
+    if (fs.existsSync(sessionPath)) {
+      try {
+        const session = JSON.parse(fs.readFileSync(sessionPath, 'utf-8'));
+        if (session.instanceUrl && session.accessToken) return session;
+      } catch (error) {
+        console.warn(`⚠️ Invalid session file ${sessionPath}: ${error}`);
+      }
+    }
+
+    const storagePath = this.loadStorageState(environment);
+    if (!storagePath) return null;
+
+    try {
+      const storageState = JSON.parse(fs.readFileSync(storagePath, 'utf-8'));
+      const sid = (storageState.cookies || []).find((cookie: any) =>
+        cookie.name === SalesforceConstants.SESSION_COOKIE &&
+        String(cookie.domain).includes(SalesforceConstants.INSTANCE_DOMAIN)
+      );
+      if (!sid) return null;
+      return {
+        instanceUrl: `https://${String(sid.domain).replace(/^\./, '')}`,
+        accessToken: sid.value,
+      };
+    } catch (error) {
+      console.warn(`⚠️ Cannot read session from storage state: ${error}`);
+      return null;
+    }
+  }
+
   /**
    * Checks if storage is expired and refreshes it if needed
    * @param page - Playwright page instance
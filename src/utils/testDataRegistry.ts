@@ -0,0 +1,246 @@
+import { test } from '@playwright/test';
+import fs from 'fs';
+import path from 'path';
+import { SalesforceClient } from '../api/SalesforceClient';
+import { SObjects, EventMasterFields } from '../constants/salesforceConstants';
+import { buildSelect } from './soqlHelper';
+import { TEST_DATA_MARKER } from './dataHelpers';
+
+/**
+ * Test data registry
+ * Purpose:
+ * - Record every record created by facades / API clients, tagged with run ID and worker index
+ * - Delete them after each test (CLEANUP_MODE=test, default) or at global teardown (CLEANUP_MODE=global)
+ * - Leave a registry file per worker so records of crashed runs can be swept later
+ *
+ * @example
+ * ```typescript
+ * testDataRegistry.track({ sobject: SObjects.EVENT_MASTER, name: event.eventMasterName });
+ * await testDataRegistry.cleanup(client, { testId: testInfo.testId });
+ * ```
+ */
+
+export type CleanupMode = 'test' | 'global' | 'none';
+
+export interface TrackedRecord {
+  /** SObject API name (EX: MANAERP__Event_Master__c) */
+  sobject: string;
+
+  /** Record Id when known (API-created); UI-created records are resolved by name */
+  id?: string;
+
+  /** Record Name */
+  name?: string;
+
+  runId: string;
+  workerIndex: number;
+  testId?: string;
+  testTitle?: string;
+  createdAt: string;
+}
+
+export interface CleanupFilter {
+  /** Only records created by this test */
+  testId?: string;
+
+  /** Only records created by this run (default: current run) */
+  runId?: string;
+}
+
+/** Field holding the record name, per SObject */
+const NAME_FIELDS: Record<string, string> = {
+  [SObjects.EVENT_MASTER]: EventMasterFields.eventMasterName,
+};
+
+/**
+ * Naming pattern of generated test data: "<name> PWT-<epoch ms>"
+ * (see testDataName), EX: "Sample Event PWT-1760000000000"
+ */
+export const RUN_ID_NAME_PATTERN = new RegExp(` ${TEST_DATA_MARKER}-(\\d{13})$`);
+
+export const REGISTRY_DIR = process.env.TEST_DATA_REGISTRY_DIR || path.join(process.cwd(), 'build', 'test-data');
+
+/**
+ * Run ID shared by the runner and all workers (set once in playwright.config.ts)
+ */
+export function getRunId(): string {
+  if (!process.env.TEST_RUN_ID) {
+    process.env.TEST_RUN_ID = String(Date.now());
+  }
+  return process.env.TEST_RUN_ID;
+}
+
+/**
+ * Cleanup mode from CLEANUP_MODE env (default: test)
+ */
+export function getCleanupMode(): CleanupMode {
+  const mode = (process.env.CLEANUP_MODE || 'test').trim().toLowerCase();
+  return mode === 'global' || mode === 'none' ? mode : 'test';
+}
+
+export class TestDataRegistry {
+  private records: TrackedRecord[] = [];
+  private readonly workerIndex: number;
+
+  constructor(workerIndex: number = Number(process.env.TEST_WORKER_INDEX ?? 0)) {
+    this.workerIndex = workerIndex;
+  }
+
+  /** Registry file of this worker for the current run */
+  get filePath(): string {
+    return path.join(REGISTRY_DIR, `registry.${getRunId()}.worker-${this.workerIndex}.json`);
+  }
+
+  /**
+   * Record a created record
+   * - Test ID / title are taken from the running test when available
+   */
+  track(record: Pick<TrackedRecord, 'sobject' | 'id' | 'name'>): TrackedRecord {
+    const info = currentTestInfo();
+    const tracked: TrackedRecord = {
+      ...record,
+      runId: getRunId(),
+      workerIndex: this.workerIndex,
+      testId: info?.testId,
+      testTitle: info?.title,
+      createdAt: new Date().toISOString(),
+    };
+    this.records.push(tracked);
+    this.persist();
+    console.log(`📌 Tracked ${tracked.sobject}: ${tracked.name ?? tracked.id}`);
+    return tracked;
+  }
+
+  /** Records tracked by this worker, optionally for one test */
+  list(filter: CleanupFilter = {}): TrackedRecord[] {
+    return this.records.filter(r =>
+      (!filter.testId || r.testId === filter.testId) &&
+      (!filter.runId || r.runId === filter.runId)
+    );
+  }
+
+  /**
+   * Delete tracked records of this worker and forget them
+   * @returns Number of deleted records
+   */
+  async cleanup(client: SalesforceClient, filter: CleanupFilter = {}): Promise<number> {
+    const targets = this.list(filter);
+    const deleted = await deleteRecords(client, targets);
+    this.records = this.records.filter(r => !targets.includes(r));
+    this.persist();
+    return deleted;
+  }
+
+  /**
+   * Read registry files left on disk
+   * @param runId - Only files of this run (default: every run)
+   */
+  static loadFiles(runId?: string): { file: string; records: TrackedRecord[] }[] {
+    if (!fs.existsSync(REGISTRY_DIR)) return [];
+    return fs.readdirSync(REGISTRY_DIR)
+      .filter(f => f.startsWith('registry.') && f.endsWith('.json'))
+      .filter(f => !runId || f.startsWith(`registry.${runId}.`))
+      .map(f => {
+        const file = path.join(REGISTRY_DIR, f);
+        try {
+          return { file, records: JSON.parse(fs.readFileSync(file, 'utf-8')) as TrackedRecord[] };
+        } catch (error) {
+          console.warn(`⚠️ Cannot read registry file ${file}: ${error}`);
+          return { file, records: [] };
+        }
+      });
+  }
+
+  /**
+   * Delete every record listed in registry files and remove the files
+   * - Used by global teardown (current run) and the sweep command (any run)
+   */
+  static async cleanupFiles(client: SalesforceClient, runId?: string): Promise<number> {
+    let deleted = 0;
+    for (const { file, records } of this.loadFiles(runId)) {
+      deleted += await deleteRecords(client, records);
+      fs.rmSync(file, { force: true });
+    }
+    return deleted;
+  }
+
+  /**
+   * Delete records whose name carries the test data marker and is older than the cutoff
+   * - Catches records of crashed runs that never wrote a registry file
+   * - Names without the marker (EX: "Budget 2025 1", created by people) are never matched
+   * @param olderThanHours - Only purge data generated more than N hours ago (protects running jobs)
+   * @param dryRun - Only list what would be deleted
+   */
+  static async sweepByNamePattern(client: SalesforceClient, olderThanHours = 24, dryRun = false): Promise<TrackedRecord[]> {
+    const cutoff = Date.now() - olderThanHours * 60 * 60 * 1000;
+    const stale: TrackedRecord[] = [];
+
+    for (const [sobject, nameField] of Object.entries(NAME_FIELDS)) {
+      const rows = await client.query(`SELECT Id, ${nameField} FROM ${sobject} WHERE ${nameField} LIKE '% ${TEST_DATA_MARKER}-%'`);
+      for (const row of rows) {
+        const match = String(row[nameField] ?? '').match(RUN_ID_NAME_PATTERN);
+        if (!match || Number(match[1]) >= cutoff) continue;
+        stale.push({
+          sobject,
+          id: row.Id,
+          name: row[nameField],
+          runId: match[1],
+          workerIndex: -1,
+          createdAt: new Date(Number(match[1])).toISOString(),
+        });
+      }
+    }
+
+    console.log(`🧹 Found ${stale.length} stale record(s) older than ${olderThanHours}h`);
+    if (!dryRun) await deleteRecords(client, stale);
+    return stale;
+  }
+
+  private persist(): void {
+    fs.mkdirSync(REGISTRY_DIR, { recursive: true });
+    if (this.records.length === 0) {
+      fs.rmSync(this.filePath, { force: true });
+      return;
+    }
+    fs.writeFileSync(this.filePath, JSON.stringify(this.records, null, 2), 'utf-8');
+  }
+}
+
+/**
+ * Delete records by Id, resolving Id by name when only the name is known
+ * - Failures are logged, not thrown, so one bad record does not block the rest
+ */
+async function deleteRecords(client: SalesforceClient, records: TrackedRecord[]): Promise<number> {
+  let deleted = 0;
+  for (const record of records) {
+    try {
+      const ids = record.id ? [record.id] : await findIdsByName(client, record);
+      for (const id of ids) {
+        await client.delete(record.sobject, id);
+        deleted++;
+      }
+    } catch (error) {
+      console.warn(`⚠️ Cleanup failed for ${record.sobject} ${record.name ?? record.id}: ${(error as Error).message}`);
+    }
+  }
+  return deleted;
+}
+
+async function findIdsByName(client: SalesforceClient, record: TrackedRecord): Promise<string[]> {
+  const nameField = NAME_FIELDS[record.sobject] || 'Name';
+  if (!record.name) return [];
+  const rows = await client.query(buildSelect(record.sobject, [nameField], { [nameField]: record.name }));
+  return rows.map(r => r.Id as string);
+}
+
+function currentTestInfo(): { testId: string; title: string } | undefined {
+  try {
+    const info = test.info();
+    return { testId: info.testId, title: info.title };
+  } catch {
+    return undefined; // called outside a running test (setup scripts, sweep command)
+  }
+}
+
+/** Registry of the current worker process */
+export const testDataRegistry = new TestDataRegistry();
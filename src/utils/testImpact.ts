@@ -0,0 +1,192 @@
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import { ImpactedSpec, ImportGraph, TestImpact } from '../type/TestImpact';
+import { findSpecFiles } from './qaseSpecParser';
+
+/**
+ * Test impact
+ * Purpose:
+ * - Import graph of the specs (tests/** → src/**) built with the TypeScript compiler API, with the
+ *   tsconfig.json `paths` (`@src/*`) and JSON imports resolved like tsc does
+ * - Data files used by path (EX: `path.resolve(__dirname, '../../../src/data/masterEventImportValid.csv')`,
+ *   'src/data/users.json') are linked to the file naming them
+ * - Folders used without an import (the offline mock app served by `webServer`) are linked to the specs they serve
+ * - Changed files → minimal set of specs to run; config / setup / env changes run every spec
+ *
+ * @example
+ * ```typescript
+ * const graph = buildImportGraph(['tests']);
+ * const { specs, runAll } = selectImpactedSpecs(graph, ['src/base/BasePage.ts']);
+ * ```
+ */
+
+/** Files every test depends on without importing them */
+const RUN_ALL_RULES: { pattern: RegExp; reason: string }[] = [
+  { pattern: /^playwright\.config\.ts$/, reason: 'Playwright config' },
+  { pattern: /^(package|package-lock|tsconfig)\.json$/, reason: 'dependencies / compiler options' },
+  { pattern: /^setup\//, reason: 'global setup / teardown' },
+  { pattern: /^src\/config\/[^/]+\.env$/, reason: 'environment config' },
+];
+
+/** Folders the specs of a test folder use without importing them: a change there selects every spec of that folder */
+const LINKED_DIRS: { dir: string; specDir: string }[] = [
+  { dir: 'mock-app/', specDir: 'tests/mock/' },
+];
+
+/** Folders of data files read by path at runtime */
+const DATA_DIRS = ['src/data'];
+const SOURCE_FILE = /\.(ts|tsx|js)$/;
+
+/**
+ * Build the import graph of every spec under the roots (files / folders relative to rootDir)
+ */
+export function buildImportGraph(roots: string[] = ['tests'], rootDir: string = process.cwd()): ImportGraph {
+  const options = loadCompilerOptions(rootDir);
+  const dataFiles = listDataFiles(rootDir);
+  const specs = findSpecFiles(roots.map(root => path.resolve(rootDir, root)));
+  const imports: Record<string, string[]> = {};
+
+  const queue = [...specs];
+  const seen = new Set(queue);
+  while (queue.length > 0) {
+    const file = queue.shift()!;
+    const dependencies = SOURCE_FILE.test(file) ? readDependencies(file, options, dataFiles, rootDir) : [];
+    imports[relativePath(rootDir, file)] = dependencies.map(dependency => relativePath(rootDir, dependency));
+    for (const dependency of dependencies) {
+      if (seen.has(dependency)) continue;
+      seen.add(dependency);
+      queue.push(dependency);
+    }
+  }
+  return { specs: specs.map(spec => relativePath(rootDir, spec)), imports };
+}
+
+/**
+ * Specs depending (directly or through imports) on one of the changed files
+ */
+export function selectImpactedSpecs(graph: ImportGraph, changedFiles: string[], rootDir: string = process.cwd()): TestImpact {
+  const changed = [...new Set(changedFiles.map(file => relativePath(rootDir, path.resolve(rootDir, file.trim()))))].sort();
+
+  for (const file of changed) {
+    const rule = RUN_ALL_RULES.find(r => r.pattern.test(file));
+    if (rule) {
+      return {
+        changed,
+        runAll: true,
+        runAllReason: `${file} changed (${rule.reason})`,
+        specs: [...graph.specs],
+        impacted: graph.specs.map(spec => ({ spec, chain: [spec] })),
+        unrelated: [],
+      };
+    }
+  }
+
+  const importedBy = new Map<string, string[]>();
+  for (const [file, dependencies] of Object.entries(graph.imports)) {
+    for (const dependency of dependencies) importedBy.set(dependency, [...(importedBy.get(dependency) ?? []), file]);
+  }
+  const linked = new Set<string>();
+  for (const file of changed) {
+    for (const { specDir } of LINKED_DIRS.filter(link => file.startsWith(link.dir))) {
+      const specs = graph.specs.filter(spec => spec.startsWith(specDir) && !importedBy.get(file)?.includes(spec));
+      importedBy.set(file, [...(importedBy.get(file) ?? []), ...specs]);
+      linked.add(file);
+    }
+  }
+
+  // Breadth-first from the changed files up to the specs: `next` points one step closer to a changed file
+  const next = new Map<string, string | undefined>();
+  const queue = changed.filter(file => file in graph.imports || linked.has(file));
+  queue.forEach(file => next.set(file, undefined));
+  while (queue.length > 0) {
+    const file = queue.shift()!;
+    for (const importer of importedBy.get(file) ?? []) {
+      if (next.has(importer)) continue;
+      next.set(importer, file);
+      queue.push(importer);
+    }
+  }
+
+  const impacted: ImpactedSpec[] = graph.specs.filter(spec => next.has(spec)).map(spec => {
+    const chain = [spec];
+    for (let file = next.get(spec); file; file = next.get(file)) chain.push(file);
+    return { spec, chain };
+  });
+  return {
+    changed,
+    runAll: false,
+    specs: impacted.map(i => i.spec),
+    impacted,
+    unrelated: changed.filter(file => !(file in graph.imports) && !linked.has(file)),
+  };
+}
+
+function loadCompilerOptions(rootDir: string): ts.CompilerOptions {
+  const configFile = path.join(rootDir, 'tsconfig.json');
+  const { config, error } = ts.readConfigFile(configFile, ts.sys.readFile);
+  if (error) {
+    throw new Error(`❌ Cannot read ${configFile}: ${ts.flattenDiagnosticMessageText(error.messageText, '\n')}`);
+  }
+  const { options } = ts.parseJsonConfigFileContent(config, ts.sys, rootDir, undefined, configFile);
+  // Plain .js helpers are part of the graph too
+  return { ...options, allowJs: true };
+}
+
+/** Data file name → absolute path */
+function listDataFiles(rootDir: string): Map<string, string> {
+  const files = new Map<string, string>();
+  for (const dir of DATA_DIRS.map(d => path.join(rootDir, d)).filter(d => fs.existsSync(d))) {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      if (entry.isFile()) files.set(entry.name, path.join(dir, entry.name));
+    }
+  }
+  return files;
+}
+
+/**
+ * Local files a source file depends on: resolved imports / exports / require() / import(),
+ * plus data files named in string literals. Packages (node_modules) are left out.
+ */
+function readDependencies(file: string, options: ts.CompilerOptions, dataFiles: Map<string, string>, rootDir: string): string[] {
+  const source = ts.createSourceFile(file, fs.readFileSync(file, 'utf-8'), ts.ScriptTarget.Latest, true);
+  const dependencies = new Set<string>();
+
+  const addModule = (specifier: ts.Expression | undefined) => {
+    if (!specifier || !ts.isStringLiteralLike(specifier)) return;
+    const resolved = ts.resolveModuleName(specifier.text, file, options, ts.sys).resolvedModule;
+    if (!resolved || resolved.isExternalLibraryImport) return;
+    const target = path.resolve(resolved.resolvedFileName);
+    if (!target.startsWith(rootDir + path.sep) || target.includes(`${path.sep}node_modules${path.sep}`)) return;
+    dependencies.add(target);
+  };
+
+  const visit = (node: ts.Node) => {
+    if (ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) {
+      addModule(node.moduleSpecifier);
+    } else if (ts.isImportEqualsDeclaration(node) && ts.isExternalModuleReference(node.moduleReference)) {
+      addModule(node.moduleReference.expression);
+    } else if (ts.isCallExpression(node) && isRequireOrImport(node)) {
+      addModule(node.arguments[0]);
+    } else if (ts.isStringLiteralLike(node)) {
+      const text = node.text.replace(/\\/g, '/');
+      const name = text.slice(text.lastIndexOf('/') + 1);
+      const dataFile = dataFiles.get(name);
+      if (dataFile && (text === name || text.endsWith(`/${name}`))) dependencies.add(dataFile);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+
+  dependencies.delete(file);
+  return [...dependencies].sort();
+}
+
+function isRequireOrImport(node: ts.CallExpression): boolean {
+  if (node.expression.kind === ts.SyntaxKind.ImportKeyword) return true;
+  return ts.isIdentifier(node.expression) && node.expression.text === 'require';
+}
+
+function relativePath(rootDir: string, file: string): string {
+  return path.relative(rootDir, file).split(path.sep).join('/');
+}
@@ -0,0 +1,155 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+
+/**
+ * Zip helper
+ * Purpose:
+ * - Package CI artifacts without shelling out to `zip` (not installed on every agent, absent on Windows)
+ * - Plain ZIP (deflate, or stored when compression does not help: screenshots, videos, traces), UTF-8 names
+ * - Files are read one at a time, so large traces never sit in memory together
+ * - No ZIP64: up to 65 535 files and 4 GB
+ *
+ * @example
+ * ```typescript
+ * const files = zipDirectory('artifacts/scheduling-dev-staging-2025-01-01', 'artifacts/scheduling-dev-staging-2025-01-01.zip');
+ * ```
+ */
+
+const ZIP_LIMIT = 0xffffffff;
+const MAX_ENTRIES = 0xffff;
+const UTF8_FLAG = 0x0800;
+const VERSION = 20;
+
+/**
+ * Zip a folder; entries are stored under the folder name (unzips to `<folder>/...`)
+ * @returns Number of files added
+ */
+export function zipDirectory(sourceDir: string, zipFile: string): number {
+  const files = listFiles(sourceDir);
+  if (files.length > MAX_ENTRIES) {
+    throw new Error(`❌ Too many files to zip (${files.length} > ${MAX_ENTRIES}): ${sourceDir}`);
+  }
+
+  fs.mkdirSync(path.dirname(path.resolve(zipFile)), { recursive: true });
+  const fd = fs.openSync(zipFile, 'w');
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  try {
+    for (const file of files) {
+      const name = Buffer.from([path.basename(sourceDir), ...path.relative(sourceDir, file).split(path.sep)].join('/'), 'utf-8');
+      const data = fs.readFileSync(file);
+      const deflated = zlib.deflateRawSync(data);
+      const stored = deflated.length >= data.length;
+      const body = stored ? data : deflated;
+      const { time, date } = dosDateTime(fs.statSync(file).mtime);
+      if (offset + body.length > ZIP_LIMIT) {
+        throw new Error(`❌ Artifacts exceed 4 GB, cannot zip without ZIP64: ${sourceDir}`);
+      }
+
+      const header: EntryHeader = {
+        method: stored ? 0 : 8,
+        time,
+        date,
+        crc: zlib.crc32(data),
+        compressedSize: body.length,
+        size: data.length,
+        nameLength: name.length,
+      };
+      const local = localHeader(header);
+      writeAll(fd, local);
+      writeAll(fd, name);
+      writeAll(fd, body);
+
+      central.push(centralHeader(header, offset), name);
+      offset += local.length + name.length + body.length;
+    }
+
+    const directory = Buffer.concat(central);
+    writeAll(fd, directory);
+    writeAll(fd, endOfCentralDirectory(files.length, directory.length, offset));
+  } finally {
+    fs.closeSync(fd);
+  }
+  return files.length;
+}
+
+interface EntryHeader {
+  method: number;
+  time: number;
+  date: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  nameLength: number;
+}
+
+function localHeader(entry: EntryHeader): Buffer {
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(0x04034b50, 0);
+  header.writeUInt16LE(VERSION, 4);
+  header.writeUInt16LE(UTF8_FLAG, 6);
+  header.writeUInt16LE(entry.method, 8);
+  header.writeUInt16LE(entry.time, 10);
+  header.writeUInt16LE(entry.date, 12);
+  header.writeUInt32LE(entry.crc, 14);
+  header.writeUInt32LE(entry.compressedSize, 18);
+  header.writeUInt32LE(entry.size, 22);
+  header.writeUInt16LE(entry.nameLength, 26);
+  return header;
+}
+
+function centralHeader(entry: EntryHeader, localOffset: number): Buffer {
+  const header = Buffer.alloc(46);
+  header.writeUInt32LE(0x02014b50, 0);
+  header.writeUInt16LE(VERSION, 4);
+  header.writeUInt16LE(VERSION, 6);
+  header.writeUInt16LE(UTF8_FLAG, 8);
+  header.writeUInt16LE(entry.method, 10);
+  header.writeUInt16LE(entry.time, 12);
+  header.writeUInt16LE(entry.date, 14);
+  header.writeUInt32LE(entry.crc, 16);
+  header.writeUInt32LE(entry.compressedSize, 20);
+  header.writeUInt32LE(entry.size, 24);
+  header.writeUInt16LE(entry.nameLength, 28);
+  header.writeUInt32LE(localOffset, 42);
+  return header;
+}
+
+function endOfCentralDirectory(entries: number, directorySize: number, directoryOffset: number): Buffer {
+  const record = Buffer.alloc(22);
+  record.writeUInt32LE(0x06054b50, 0);
+  record.writeUInt16LE(entries, 8);
+  record.writeUInt16LE(entries, 10);
+  record.writeUInt32LE(directorySize, 12);
+  record.writeUInt32LE(directoryOffset, 16);
+  return record;
+}
+
+/** MS-DOS time / date fields (local time, 2-second precision, years from 1980) */
+function dosDateTime(value: Date): { time: number; date: number } {
+  const year = Math.max(1980, value.getFullYear());
+  return {
+    time: (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+  };
+}
+
+/** writeSync may write less than asked for big buffers */
+function writeAll(fd: number, buffer: Buffer): void {
+  let written = 0;
+  while (written < buffer.length) {
+    written += fs.writeSync(fd, buffer, written, buffer.length - written);
+  }
+}
+
+function listFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true })
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap(entry => {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) return listFiles(fullPath);
+      return entry.isFile() ? [fullPath] : [];
+    });
+}
@@ -0,0 +1,122 @@
+import { execFile } from 'child_process';
+import fs from 'fs';
+import { promisify } from 'util';
+import { expect, test } from '@src/fixtures';
+import { CaseSyncReport } from '@src/type/QaseCase';
+import { parseSpecFile } from '@src/utils/qaseSpecParser';
+import { QaseApiStub, startQaseApiStub } from '../../../mock-app/stubs/qaseApiStub';
+
+/**
+ * npm run qase:sync against a local stub of the Qase API (ENV=mock, no Qase account)
+ * The synced spec is written to the test output folder, so the repository specs are not involved.
+ */
+const PROJECT = 'PX';
+
+const SAMPLE_SPEC = `
+import { test } from '@playwright/test';
+import { qase } from 'playwright-qase-reporter';
+
+test(qase(1, 'Login works'), async () => {
+  qase.fields({ description: 'Login with a valid user' });
+  await test.step('Open the login page', async () => {});
+});
+
+test('Logout works', async () => {});
+`;
+
+test.describe('Mock API: Qase case sync', () => {
+  let stub: QaseApiStub;
+  let specFile: string;
+  let diffFile: string;
+
+  /** Run scripts/qase-sync.ts against the stub, return the diff it wrote */
+  const runSync = async (dryRun: boolean, token: string = stub.token): Promise<CaseSyncReport> => {
+    const env: NodeJS.ProcessEnv = {
+      ...process.env,
+      QASE_MODE: '',
+      QASE_TESTOPS_API_HOST: stub.url,
+      QASE_TESTOPS_API_TOKEN: token,
+      QASE_TESTOPS_PROJECT: PROJECT,
+      QASE_SYNC_PATHS: specFile,
+      QASE_SYNC_OUT: diffFile,
+      QASE_SYNC_DRY_RUN: String(dryRun),
+    };
+    // Exit code 1 when a case failed: the diff is written anyway
+    await promisify(execFile)('npx', ['ts-node', 'scripts/qase-sync.ts'], { env, timeout: 60000 }).catch(error => {
+      if (!fs.existsSync(diffFile)) throw error;
+    });
+    return JSON.parse(fs.readFileSync(diffFile, 'utf-8'));
+  };
+
+  test.beforeEach(async ({}, testInfo) => {
+    stub = await startQaseApiStub({ cases: [{ id: 1, title: 'Login works', description: 'Old description', steps: [] }] });
+    specFile = testInfo.outputPath('sample.spec.ts');
+    diffFile = testInfo.outputPath('diff.json');
+    fs.writeFileSync(specFile, SAMPLE_SPEC, 'utf-8');
+  });
+
+  test.afterEach(async () => {
+    await stub.close();
+  });
+
+  test('Dry run writes the diff and changes nothing in Qase', async () => {
+    const report = await runSync(true);
+
+    expect(report).toMatchObject({ project: PROJECT, dryRun: true, summary: { create: 1, update: 1, error: 0 } });
+    expect(report.cases.find(c => c.id === 1)?.changes).toEqual({
+      description: { qase: 'Old description', spec: 'Login with a valid user' },
+      steps: { qase: [], spec: [{ action: 'Open the login page' }] },
+    });
+    expect(stub.requests.map(r => r.method)).toEqual(['GET']);
+    expect(stub.requests[0].headers.token).toBe(stub.token);
+  });
+
+  test('Real run creates missing cases and updates changed fields only', async () => {
+    const report = await runSync(false);
+
+    expect(report.summary).toMatchObject({ create: 1, update: 1, error: 0 });
+    const update = stub.requests.find(r => r.method === 'PATCH');
+    expect(update?.path).toBe(`/v1/case/${PROJECT}/1`);
+    expect(update?.body).toEqual({ description: 'Login with a valid user', steps: [{ action: 'Open the login page' }] });
+
+    const create = stub.requests.find(r => r.method === 'POST');
+    expect(create?.path).toBe(`/v1/case/${PROJECT}`);
+    expect(create?.body).toEqual({ title: 'Logout works', automation: 2 });
+    expect(report.cases.find(c => c.action === 'create')?.id).toBe(2);
+  });
+
+  test('Unknown case is reported, not created', async () => {
+    stub.cases.clear();
+
+    const report = await runSync(false);
+
+    expect(report.cases.find(c => c.title === 'Login works')).toMatchObject({ action: 'notFound', id: 1 });
+    expect(stub.requests.filter(r => r.method === 'POST')).toHaveLength(1); // "Logout works" only
+  });
+
+  test('Qase errors are reported per case with the HTTP status', async () => {
+    const report = await runSync(true, 'revoked-token');
+
+    expect(report.summary.error).toBe(1);
+    expect(report.cases.find(c => c.id === 1)?.error).toBe(`❌ Qase ${PROJECT}: cannot get case 1 (HTTP 401): Unauthenticated.`);
+  });
+
+  test('Step data is synced only when it is a string literal', async ({}, testInfo) => {
+    const stepsSpec = testInfo.outputPath('steps.spec.ts');
+    fs.writeFileSync(stepsSpec, `
+      test(qase(3, 'Steps'), async () => {
+        await qaseStep({ action: 'Fill the name', data: 'Sample Event', expected: 'Name is filled' }, async () => {});
+        await qaseStep({ action: 'Fill the form', data: { name: event.eventMasterName } }, async () => {});
+        await test.step(qase.step('Search', 'Row is listed', \`name=\${name}\`), async () => {});
+      });
+    `, 'utf-8');
+
+    const [{ steps }] = parseSpecFile(stepsSpec);
+
+    expect(steps.map(({ title, expected, data }) => ({ title, expected, data }))).toEqual([
+      { title: 'Fill the name', expected: 'Name is filled', data: 'Sample Event' },
+      { title: 'Fill the form', expected: undefined, data: undefined },
+      { title: 'Search', expected: 'Row is listed', data: undefined },
+    ]);
+  });
+});
@@ -0,0 +1,94 @@
+import { expect, test } from '@src/fixtures';
+import { SalesforceApiError, SalesforceClient } from '@src/api/SalesforceClient';
+import { EventMasterApi } from '@src/api/EventMasterApi';
+import { EventMasterFields, SObjects } from '@src/constants/salesforceConstants';
+import { SalesforceApiStub, startSalesforceApiStub } from '../../../mock-app/stubs/salesforceApiStub';
+
+/**
+ * SalesforceClient against a local stub of the Salesforce REST API (ENV=mock, no org, no browser)
+ */
+test.describe('Mock API: SalesforceClient', () => {
+  let stub: SalesforceApiStub;
+  let client: SalesforceClient;
+
+  test.beforeEach(async () => {
+    stub = await startSalesforceApiStub({ pageSize: 2 });
+    client = new SalesforceClient({ instanceUrl: stub.url, accessToken: stub.accessToken });
+  });
+
+  test.afterEach(async () => {
+    await stub.close();
+  });
+
+  test('Create, read, update and delete a record', async () => {
+    const fields = EventMasterApi.toRecord({ eventMasterName: 'Stub Event', eventType: 'Paid', reminder: '5' });
+    const id = await client.create(SObjects.EVENT_MASTER, fields);
+
+    const [create] = stub.requests;
+    expect(create.method).toBe('POST');
+    expect(create.path).toMatch(new RegExp(`/services/data/v[\\d.]+/sobjects/${SObjects.EVENT_MASTER}$`));
+    expect(create.headers.authorization).toBe(`Bearer ${stub.accessToken}`);
+    expect(create.body).toEqual({
+      [EventMasterFields.eventMasterName]: 'Stub Event',
+      [EventMasterFields.eventType]: 'Paid',
+      [EventMasterFields.reminder]: 5,
+    });
+
+    const record = await client.get(SObjects.EVENT_MASTER, id, [EventMasterFields.eventMasterName]);
+    expect(record[EventMasterFields.eventMasterName]).toBe('Stub Event');
+    expect(stub.requests[1].query.get('fields')).toBe(EventMasterFields.eventMasterName);
+
+    await client.update(SObjects.EVENT_MASTER, id, { [EventMasterFields.reminder]: 3 });
+    expect(stub.requests[2].method).toBe('PATCH');
+    expect(stub.records.get(id)?.[EventMasterFields.reminder]).toBe(3);
+
+    await client.delete(SObjects.EVENT_MASTER, id);
+    expect(stub.records.has(id)).toBe(false);
+  });
+
+  test('Deleting a missing record is ignored unless asked otherwise', async () => {
+    await client.delete(SObjects.EVENT_MASTER, 'a0STUB000000000404');
+
+    const error = await client.delete(SObjects.EVENT_MASTER, 'a0STUB000000000404', false).catch(e => e);
+    expect(error).toBeInstanceOf(SalesforceApiError);
+    expect(error).toMatchObject({ status: 404, errorCode: 'NOT_FOUND' });
+  });
+
+  test('Query follows nextRecordsUrl until every record is read', async () => {
+    for (const name of ['Query A', 'Query B', 'Query C', 'Query D', 'Query E']) {
+      await client.create(SObjects.EVENT_MASTER, { Name: name });
+    }
+    stub.requests.length = 0;
+
+    const records = await client.query(`SELECT Id, Name FROM ${SObjects.EVENT_MASTER}`);
+    expect(records.map(r => r.Name)).toEqual(['Query A', 'Query B', 'Query C', 'Query D', 'Query E']);
+    // 3 pages of 2: the follow-up pages are read from the instance root
+    expect(stub.requests.map(r => r.path)).toEqual([
+      expect.stringMatching(/\/query$/),
+      expect.stringMatching(/\/query\/01gSTUB\d+-2$/),
+      expect.stringMatching(/\/query\/01gSTUB\d+-2$/),
+    ]);
+
+    const matching = await client.query(`SELECT Id FROM ${SObjects.EVENT_MASTER} WHERE Name = 'Query C'`);
+    expect(matching).toHaveLength(1);
+  });
+
+  test('Expired session fails with a typed error', async () => {
+    const expired = new SalesforceClient({ instanceUrl: stub.url, accessToken: 'expired-token' });
+
+    const error = await expired.query(`SELECT Id FROM ${SObjects.EVENT_MASTER}`).catch(e => e);
+    expect(error).toBeInstanceOf(SalesforceApiError);
+    expect(error).toMatchObject({ status: 401, errorCode: 'INVALID_SESSION_ID' });
+    expect(error.message).toContain('INVALID_SESSION_ID: Session expired or invalid');
+  });
+
+  test('Unreachable server fails without an HTTP status', async () => {
+    const stopped = await startSalesforceApiStub();
+    await stopped.close();
+    const offline = new SalesforceClient({ instanceUrl: stopped.url, accessToken: stopped.accessToken });
+
+    const error = await offline.get(SObjects.EVENT_MASTER, 'a0STUB000000000001').catch(e => e);
+    expect(error).toBeInstanceOf(SalesforceApiError);
+    expect(error.status).toBeUndefined();
+  });
+});
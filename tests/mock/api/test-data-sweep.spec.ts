@@ -0,0 +1,52 @@
+import { expect, test } from '@src/fixtures';
+import { SalesforceClient } from '@src/api/SalesforceClient';
+import { SObjects } from '@src/constants/salesforceConstants';
+import { testDataName } from '@src/utils/dataHelpers';
+import { TestDataRegistry } from '@src/utils/testDataRegistry';
+import { SalesforceApiStub, startSalesforceApiStub } from '../../../mock-app/stubs/salesforceApiStub';
+
+/**
+ * Sweep of leftover test data (npm run sweep:test-data) against the Salesforce REST stub
+ */
+const HOUR_MS = 60 * 60 * 1000;
+
+test.describe('Mock API: test data sweep', () => {
+  let stub: SalesforceApiStub;
+  let client: SalesforceClient;
+
+  test.beforeEach(async () => {
+    stub = await startSalesforceApiStub();
+    client = new SalesforceClient({ instanceUrl: stub.url, accessToken: stub.accessToken });
+  });
+
+  test.afterEach(async () => {
+    await stub.close();
+  });
+
+  test('Only old records carrying the framework marker are deleted', async () => {
+    const twoDaysAgo = Date.now() - 48 * HOUR_MS;
+    const stale = await client.create(SObjects.EVENT_MASTER, { Name: testDataName('Sample Event', twoDaysAgo) });
+    const recent = await client.create(SObjects.EVENT_MASTER, { Name: testDataName('Sample Event') });
+    // Created by people or other tools: a trailing number is not a run ID
+    const foreign = [
+      await client.create(SObjects.EVENT_MASTER, { Name: `Budget review ${twoDaysAgo}` }),
+      await client.create(SObjects.EVENT_MASTER, { Name: 'Term 1' }),
+    ];
+
+    const swept = await TestDataRegistry.sweepByNamePattern(client, 24);
+
+    expect(swept.map(r => r.id)).toEqual([stale]);
+    expect(stub.records.has(stale)).toBe(false);
+    expect([...stub.records.keys()]).toEqual([recent, ...foreign]);
+  });
+
+  test('Dry run lists records without deleting them', async () => {
+    const stale = await client.create(SObjects.EVENT_MASTER, { Name: testDataName('Sample Event', Date.now() - 48 * HOUR_MS) });
+
+    const swept = await TestDataRegistry.sweepByNamePattern(client, 24, true);
+
+    expect(swept.map(r => r.id)).toEqual([stale]);
+    expect(stub.records.has(stale)).toBe(true);
+    expect(stub.requests.filter(r => r.method === 'DELETE')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,73 @@
+import { expect, test } from '@src/fixtures';
+import { EventMasterFacade } from '@src/facade/EventMasterFacade';
+import { EventMasterPage } from '@src/pages/EventMasterPage';
+import { EventData } from '@src/type/EventData';
+import testData from '@src/data/eventMasterData.json';
+import { getItemsByKey, updateObjectFields } from '@src/utils/jsonHelper';
+import { testDataName } from '@src/utils/dataHelpers';
+import { EventLocators, EventValidation } from '@src/locators/eventLocators';
+import { SiteLocators } from '@src/locators/siteLocators';
+
+/**
+ * New / Edit modal of the offline mock app (ENV=mock, project "mock")
+ * Exercises BasePage.type (input, nested rich text), selectComboboxOptionBy, checkMandatoryField,
+ * verifyInputValue and the success toast without a Salesforce org
+ */
+
+/* Data */
+const timestamp = Date.now();
+const events: EventData[] = updateObjectFields(
+  getItemsByKey(testData, ['Sample Event', 'Paid-Parent only', 'Student only'], 'eventMasterName'),
+  (event, index) => ({ eventMasterName: testDataName(event.eventMasterName, timestamp + index) })
+);
+
+test.describe('Mock app: Event Master form', () => {
+  let eventMasterFacade: EventMasterFacade;
+  let eventMasterPage: EventMasterPage;
+
+  test.beforeEach(async ({ page }) => {
+    eventMasterFacade = new EventMasterFacade(page);
+    eventMasterPage = new EventMasterPage(page);
+    await eventMasterPage.goToEventMasterPage();
+  });
+
+  test('Save & New creates the record and opens an empty form', async ({ page }) => {
+    await eventMasterFacade.saveNew(events[2], 'was created');
+    await expect(page.locator(EventLocators.INPUT_EVENT_MASTER_NAME)).toHaveValue('');
+  });
+
+  test('Saved record with rich text description is found by search', async () => {
+    await eventMasterFacade.createPreconditionData(events[0]);
+    await eventMasterPage.verifySuccessMessage('was created');
+    await eventMasterFacade.verifyEventData(events[0].eventMasterName);
+  });
+
+  test('Send To sets Who Can Reserve', async ({ page }) => {
+    await eventMasterPage.clickNewButton();
+    await eventMasterPage.fillEventMasterForm(events[1]);
+    await expect(page.locator(EventLocators.SELECT_WHO_CAN_RESERVE)).toContainText('Parent Only');
+  });
+
+  test('Empty required fields show "Complete this field."', async () => {
+    await eventMasterFacade.validateMandatoryFieldErrors();
+  });
+
+  test('Cancel closes the modal without saving', async () => {
+    await eventMasterFacade.cancelData(events[1]);
+    await eventMasterPage.verifyModalClose(EventLocators.MODAL_TITLE);
+    await eventMasterPage.searchEventMasterByName(events[1].eventMasterName);
+    await eventMasterPage.handleNoData();
+  });
+
+  test('Event Master Name is limited to 80 characters', async () => {
+    await eventMasterFacade.validateEventMasterNameMaxLength(EventLocators.INPUT_EVENT_MASTER_NAME, EventValidation.EVENT_NAME_MAX_LENGTH);
+  });
+
+  test('Reminders over 10 is rejected on save', async () => {
+    await eventMasterFacade.validateRemindersMaxLength(SiteLocators.ERROR_LIST, EventValidation.REMINDERS_MAX_VALUE);
+  });
+
+  test('Max Event Per Student over 18 digits is rejected on save', async () => {
+    await eventMasterFacade.validateMaxEventPerStudentMaxLength(SiteLocators.ERROR_LIST, EventValidation.MAX_EVENT_PER_STUDENT_MAX);
+  });
+});
@@ -0,0 +1,72 @@
+import { expect, test } from '@src/fixtures';
+import { EventMasterFacade } from '@src/facade/EventMasterFacade';
+import { EventMasterPage } from '@src/pages/EventMasterPage';
+import { EventFieldLabels } from '@src/locators/eventLocators';
+
+/**
+ * List view of the offline mock app (ENV=mock, project "mock")
+ * Seed data: 4 named Event Masters + "Seed Event 01..30", 20 rows per lazy-loaded page
+ */
+const SEED_ROW_COUNT = 34;
+
+test.describe('Mock app: Event Master list view', () => {
+  let eventMasterFacade: EventMasterFacade;
+  let eventMasterPage: EventMasterPage;
+
+  test.beforeEach(async ({ page }) => {
+    eventMasterFacade = new EventMasterFacade(page);
+    eventMasterPage = new EventMasterPage(page);
+    await eventMasterPage.goToEventMasterPage();
+  });
+
+  test('Every lazy-loaded row is read', async () => {
+    const rows = await eventMasterPage.getAllEventRows();
+    expect(rows).toHaveLength(SEED_ROW_COUNT);
+  });
+
+  test('Search returns only matching rows', async () => {
+    await eventMasterFacade.verifySearchResults('Seed Event');
+  });
+
+  test('Search without match shows the empty state', async () => {
+    await eventMasterPage.searchEventMasterByName('4343434');
+    await eventMasterPage.handleNoData();
+  });
+
+  test('Column header sorts descending', async () => {
+    await eventMasterPage.sortEventsBy('Event Master Name', 'descending');
+    await eventMasterPage.dataTable.verifySortedBy('Event Master Name', 'descending');
+  });
+
+  test('Rows are selected by predicate', async ({ page }) => {
+    const selected = await eventMasterPage.selectEventRows(row => row['Event Type'] === 'Paid');
+    expect(selected).toBe(16);
+    await expect(page.locator('tbody input[type="checkbox"]:checked')).toHaveCount(selected);
+  });
+
+  test('Edit from the row menu saves the new name', async () => {
+    const newName = `edit_updated ${Date.now()}`;
+    await eventMasterFacade.editDataofEventMaster('Paid-Parent only', newName);
+    await eventMasterPage.verifySuccessMessage('was saved');
+    await eventMasterFacade.verifyEventData(newName);
+  });
+
+  test('Delete is confirmed and Undo restores the record', async () => {
+    await eventMasterFacade.restoreDeletedEventMaster('Sample Event');
+    await eventMasterPage.verifySuccessMessage('was restored');
+    await eventMasterFacade.verifyEventData('Sample Event');
+  });
+
+  test('Cancel in the delete dialog keeps the record', async () => {
+    await eventMasterFacade.cancelDeletionofEventMaster('Student only');
+    await eventMasterPage.expectConfirmDialogInvisible();
+    await eventMasterFacade.verifyEventData('Student only');
+  });
+
+  test('Change Owner picks the new owner from the lookup', async ({ page }) => {
+    await eventMasterFacade.changeOwnerofEventMaster('Sample Event');
+    await expect(page.getByRole('combobox', { name: EventFieldLabels.SELECT_NEW_OWNER })).toHaveValue('linh nguyen');
+    await page.getByRole('button', { name: 'Submit' }).click();
+    await eventMasterPage.verifySuccessMessage('changed to linh nguyen');
+  });
+});
@@ -0,0 +1,44 @@
+import path from 'path';
+import { expect, test } from '@src/fixtures';
+import { EventMasterPage } from '@src/pages/EventMasterPage';
+import { SiteLocators } from '@src/locators/siteLocators';
+
+/**
+ * Classic Data Import Wizard of the offline mock app (one.app iframe, ENV=mock, project "mock")
+ */
+const IMPORT_FILES = [
+  { file: 'masterEventImportInvalid.csv', unmapped: 1 },
+  { file: 'masterEventImportValid.csv', unmapped: 0 },
+];
+
+test.describe('Mock app: importing Event Master', () => {
+  let eventMasterPage: EventMasterPage;
+
+  test.beforeEach(async ({ page }) => {
+    eventMasterPage = new EventMasterPage(page);
+    await eventMasterPage.goToEventMasterPage();
+    await eventMasterPage.clickImportButton();
+    await page.waitForURL(SiteLocators.URL_IMPORT, { timeout: 30000 });
+  });
+
+  for (const { file, unmapped } of IMPORT_FILES) {
+    test(`${file} maps with ${unmapped} unmapped column(s)`, async ({ page }) => {
+      const frame = page.frameLocator(SiteLocators.IFRAME);
+      await eventMasterPage.importEventMaster(SiteLocators.BUTTON_ADD_NEW_RECORDS, path.resolve(__dirname, '../../src/data', file));
+      await eventMasterPage.selectComboboxOptionBy(SiteLocators.LABEL_CHARACTER_CODE, 'Unicode (UTF8)');
+      await eventMasterPage.clickNextButton();
+
+      await expect(frame.getByText('Edit Field Mapping')).toBeVisible();
+      await expect(frame.locator('td[title="Unmapped"]')).toHaveCount(unmapped);
+    });
+  }
+
+  test('Review step starts the import', async ({ page }) => {
+    const frame = page.frameLocator(SiteLocators.IFRAME);
+    await eventMasterPage.importEventMaster(SiteLocators.BUTTON_ADD_NEW_RECORDS, path.resolve(__dirname, '../../src/data/masterEventImportValid.csv'));
+    await eventMasterPage.clickNextButton();
+    await eventMasterPage.clickNextButton();
+    await eventMasterPage.click(frame.getByText('Start Import', { exact: true }));
+    await expect(frame.getByRole('status')).toContainText('Your import has started');
+  });
+});
@@ -1,14 +1,15 @@
-import { test, expect} from '@playwright/test';
+import { expect, test } from '@src/fixtures';
 import { LoginLocators } from '../../../src/locators/loginLocators';
 import { CommonHelpers } from '../../../src/utils/commonHelpers';
 import { LoginAction } from '../../../src/utils/loginHelper';
 import { loadConfig } from '../../../src/utils/configHelpers';
+import { getEnvName } from '../../../src/config/appConfig';
 import { UserConstants } from '../../../src/constants/userConstants';
 import { CommonConstants } from "../../../src/constants/commonConstants";
 
 
 test.describe('Login Tests',() => {
-  const env = process.env.ENV?.trim();
+  const env = getEnvName();
   test.beforeAll(async () => {
     await loadConfig(env);
   });
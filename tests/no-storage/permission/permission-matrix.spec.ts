@@ -0,0 +1,24 @@
+import { test, asRole } from '@src/fixtures';
+import { PermissionFacade } from '@src/facade/PermissionFacade';
+import { PermissionMatrix, PERMISSION_ANNOTATION } from '@src/type/PermissionMatrix';
+import { expandPermissionMatrix, groupCellsByRole } from '@src/utils/permissionHelper';
+import matrix from '@src/data/permissionMatrix.json';
+
+/* One test per role × object × action cell of src/data/permissionMatrix.json */
+const cellsByRole = groupCellsByRole(expandPermissionMatrix(matrix as PermissionMatrix));
+
+for (const [role, cells] of cellsByRole) {
+  test.describe(`Permission matrix - ${role}`, () => {
+    test.use(asRole(role));
+
+    for (const cell of cells) {
+      // Unconfirmed cells (entry without a source) are listed, not run: their result would not mean anything
+      const declare = cell.source ? test : test.fixme;
+      const details = { tag: '@Permission', annotation: { type: PERMISSION_ANNOTATION, description: JSON.stringify(cell) } };
+      declare(`${role} › ${cell.object} › ${cell.action} is ${cell.expected}`, details, async ({ page, eventMasterApi }) => {
+        const permissionFacade = new PermissionFacade(page, eventMasterApi);
+        await permissionFacade.verifyActionPermission(cell.object, cell.action, cell.expected);
+      });
+    }
+  });
+}
@@ -1,12 +1,8 @@
-import { test, expect } from '@playwright/test';
+import { expect, test } from '@src/fixtures';
 import { qase } from 'playwright-qase-reporter';
 import { CommonHelpers } from '@src/utils/commonHelpers';
 import { CommonConstants } from '@src/constants/commonConstants';
-import * as dotenv from 'dotenv';
-
-// Load environment-specific config
-const env = process.env.NODE_ENV || 'dev-staging';
-dotenv.config({ path: `src/config/${env}.env` });
+import { getConfig } from '@src/config/appConfig';
 
 
 
@@ -27,7 +23,7 @@ test.describe('Order', () => {
         preconditions: `Login success`, // preconditions field on QASE
       });
       qase.comment('Navigate to order page');
-      expect(page.url()).toBe(process.env.ORDER_URL);
+      expect(page.url()).toBe(getConfig().urls.order);
       
     });
 
@@ -1,12 +1,14 @@
-import { expect, test } from '@playwright/test';
+import { expect, test } from '@src/fixtures';
 import { qase } from 'playwright-qase-reporter';
 import { EventMasterFacade } from '@src/facade/EventMasterFacade';
 import { EventMasterPage } from '@src/pages/EventMasterPage';
 import { EventData } from '@src/type/EventData';
 import testData from '@src/data/eventMasterData.json';
 import { getItemsByKey, updateObjectFields } from '@src/utils/jsonHelper';
+import { testDataName } from '@src/utils/dataHelpers';
 import { EventFieldLabels, EventLocators, EventValidation } from '@src/locators/eventLocators';
 import { SiteLocators } from '@src/locators/siteLocators';
+import { qaseStep } from '@src/utils/qaseStep';
 
 /* Data */
 const selectedEventNames = ['Sample Event', 'Paid-Parent only', 'Student only'];
@@ -19,7 +21,7 @@ const selectedEvents: EventData[] = getItemsByKey(
 // --- Add dynamic data after filter ---
 const timestamp = Date.now();
 const eventMaster: EventData[] = updateObjectFields(selectedEvents, (event, index) => ({
-  eventMasterName: `${event.eventMasterName} ${timestamp + index}`
+  eventMasterName: testDataName(event.eventMasterName, timestamp + index)
 }));
 
 test.describe('Creating Event Master', () => {
@@ -50,7 +52,11 @@ test.describe('Creating Event Master', () => {
 
     // === Test Steps ===
 
-    await test.step(`Create new Event Master with name "${datateEvent?.eventMasterName}"`, async () => {
+    await qaseStep({
+      action: 'Create new Event Master using "Save & New"',
+      data: { eventMasterName: datateEvent.eventMasterName },
+      expected: 'Toast "was created" is displayed',
+    }, async () => {
       await eventMasterFacade.saveNew(datateEvent, 'was created');
     });
   });
@@ -69,10 +75,16 @@ test.describe('Creating Event Master', () => {
     qase.comment(' The "New Event Master" popup should close without saving any data'); // Actual result field on QASE
 
     // === Test Steps ===
-    await test.step(`The user clicks on the "Cancel" button`, async () => {
+    await qaseStep({
+      action: 'The user fills in the "New Event Master" popup and clicks on the "Cancel" button',
+      data: { eventMasterName: datateEvent.eventMasterName },
+    }, async () => {
       await eventMasterFacade.cancelData(datateEvent);
     });
-    await test.step(`The user clicks on the "Cancel" button`, async () => {
+    await qaseStep({
+      action: 'Check the "New Event Master" popup',
+      expected: 'The popup is closed without saving any data',
+    }, async () => {
       await eventMasterPage.verifyModalClose(EventLocators.MODAL_TITLE);
     });
 
@@ -133,7 +145,7 @@ test.describe('Creating Event Master', () => {
     });
   });
 
-  test(qase(10072, 'Successfully create a new Event Master with type: paid, send to: parent only'), { tag: '@Valiation' }, async ({ page }) => {
+  test(qase(10072, 'Successfully create a new Event Master with type: paid, send to: parent only'), { tag: '@Valiation' }, async ({ page, recordVerifier }) => {
      // data input
     const datateEvent = eventMaster.find(
       e => e.eventMasterName.startsWith('Paid-Parent only')
@@ -155,8 +167,17 @@ test.describe('Creating Event Master', () => {
     });
     await test.step(`Click Save`, async () => {
       await eventMasterPage.clickSaveButton();
+      eventMasterFacade.trackCreated(datateEvent);
       await eventMasterPage.verifySuccessMessage('was created');
     });
+    await test.step(`Verify persisted Event Master`, async () => {
+      await recordVerifier.verifyEventMasterExists(datateEvent.eventMasterName, {
+        eventType: datateEvent.eventType,
+        sendTo: datateEvent.sendTo,
+        reminder: datateEvent.reminder,
+        maxEventPerStudent: datateEvent.maxEventPerStudent,
+      });
+    });
 
   });
   test.skip(qase(1, 'Successfully create a new Event Master send to: Student only'), { tag: '@Valiation' }, async ({ page }) => {
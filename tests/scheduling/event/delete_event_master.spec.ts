@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '@src/fixtures';
 import { qase } from 'playwright-qase-reporter';
 import { EventMasterFacade } from '@src/facade/EventMasterFacade';
 import { EventMasterPage } from '@src/pages/EventMasterPage';
@@ -34,7 +34,7 @@ test.describe('Delete Event Master', () => {
     })
   });
 
-  test(qase(675, `Successfully delete an Event Master`), { tag: '@Regression' }, async ({page}) => {
+  test(qase(675, `Successfully delete an Event Master`), { tag: '@Regression' }, async ({ eventMasterApi, recordVerifier }) => {
     // Create fresh data for this test
     const selectedEvents = getItemsByKey(testData, ['test delete'], 'eventMasterName');
     const eventMaster = updateNamesWithTimestamp(selectedEvents, 'eventMasterName');
@@ -47,9 +47,8 @@ test.describe('Delete Event Master', () => {
     });
     qase.comment('The Event Master should no longer appear in the Event Master list');
     await test.step(`search for an Event Master`, async () => {
-      await eventMasterFacade.createPreconditionData(eventsToUse);
-      // Wait for data to be available in the system
-      await page.waitForTimeout(2000);
+      // Seed precondition data through the REST API instead of the UI
+      await eventMasterApi.createEventMasters(eventsToUse);
       await eventMasterPage.goToEventMasterPage();
       await eventMasterPage.searchEventMasterByName(eventsToUse);
     });
@@ -59,6 +58,9 @@ test.describe('Delete Event Master', () => {
     await test.step(`verify delete an Event Master`, async () => {
       await eventMasterPage.verifySuccessMessage('was deleted');
       await eventMasterFacade.searchNoData(eventsToUse);
+      for (const event of eventsToUse) {
+        await recordVerifier.verifyEventMasterNotExists(event.eventMasterName);
+      }
     });
   });
 
@@ -83,13 +85,14 @@ test.describe('Delete Event Master', () => {
     await eventMasterFacade.asignLabelofEventMaster('demo');
   });
 
-  test(qase(4, `Edit data`), { tag: '@Regression' }, async () => {
+  test(qase(4, `Edit data`), { tag: '@Regression' }, async ({ recordVerifier }) => {
     const timestamp = Date.now();
     const originalName = 'original_update'; // existing data
     const dataEdit = `original_update_${timestamp}`; // dynamic updated name
     await eventMasterFacade.editDataofEventMaster(originalName, dataEdit);
     await test.step(`verify edit data`, async () => {
       await eventMasterPage.verifySuccessMessage(`Event Master "${dataEdit}" was saved.`);
+      await recordVerifier.verifyEventMasterExists(dataEdit);
     })
   });
 })
\ No newline at end of file
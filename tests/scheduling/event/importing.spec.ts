@@ -1,4 +1,4 @@
-import { expect, test } from '@playwright/test';
+import { expect, test } from '@src/fixtures';
 import { qase } from 'playwright-qase-reporter';
 import { EventMasterFacade } from '@src/facade/EventMasterFacade';
 import { EventMasterPage } from '@src/pages/EventMasterPage';
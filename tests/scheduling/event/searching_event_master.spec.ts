@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { expect, test } from '@src/fixtures';
 import { qase } from 'playwright-qase-reporter';
 import { EventMasterFacade } from '@src/facade/EventMasterFacade';
 import { CommonHelpers } from '@src/utils/commonHelpers';